@@ -1,19 +1,108 @@
 import React, { useState, useEffect, useMemo, useRef } from 'react';
-import { Client, FinancialSummary } from './types';
-import { calculateProgression, formatCurrency, DEFAULT_FIREBASE_CONFIG, getDaysUntilDue, generateWhatsAppLink } from './constants';
+import { AuditAction, AuditEvent, Borrower, Client, ContactAttempt, DailyReminderSettings, FinancialSummary, Installment, PaymentEntry, LateFeeSettings, MessageSettings, SyncConflict, OutboxEntry, UserRole, WorkspaceMember, CollectorInvite } from './types';
+import { formatCurrency, getWhatsAppUrl } from './constants';
 import { DashboardCards } from './components/DashboardCards';
 import { ChartSection } from './components/ChartSection';
+import { InsightsPanel } from './components/InsightsPanel';
 import { ClientForm } from './components/ClientForm';
 import { ClientList } from './components/ClientList';
-import { initFirebase, subscribeToClients, saveClientToCloud, syncAllToCloud, isCloudEnabled, FirebaseConfig } from './services/cloudService';
-import { LayoutDashboard, Plus, Bell, Cloud, CloudOff, X, Save, Search, AlertTriangle, MessageCircle, ExternalLink, Clock } from 'lucide-react';
+import { SettingsModal } from './components/SettingsModal';
+import { MessageTemplatesModal } from './components/MessageTemplatesModal';
+import { CollectionQueueModal } from './components/CollectionQueueModal';
+import { getClientLateFeesPaid, toggleInstallmentPayment, addPaymentToInstallment, removePaymentFromInstallment } from './services/paymentService';
+import { DEFAULT_LATE_FEE_SETTINGS, calculateLateFee, getClientLateFeesAccrued } from './services/lateFeeService';
+import { syncRevolvingCharges, addPrincipalPayment, removePrincipalPayment } from './services/revolvingService';
+import { getLoanInvested, getLoanExpectedRevenue, getLoanProfit, getLoanRealizedInterest, getLoanOutstanding, getLoanReceived, getSettledStatus, getRenegotiationBalance, closeLoanForRenegotiation } from './services/loanService';
+import { calculateCashFlow } from './services/cashFlowService';
+import { migrateLegacyBorrowers, mergeBorrowers, applyBorrowerToLoan, applyCollectorToLoan, createBorrower, getBorrowerKey } from './services/borrowerService';
+import { initCloud, subscribeToClients, saveClientToCloud, syncAllToCloud, subscribeToBorrowers, saveBorrowerToCloud, syncAllBorrowersToCloud, subscribeToAuditLog, syncAuditLogToCloud, subscribeToMessageSettings, saveMessageSettingsToCloud, subscribeToContacts, syncContactsToCloud, isCloudEnabled, CloudConfig, CLOUD_KIND_LABELS } from './services/cloudService';
+import { createLocalStorageAdapter } from './services/localStorageAdapter';
+import { persistChanges } from './services/storageAdapter';
+import { mergeRemoteClients, mergeRemoteBorrowers, applyConflictChoice } from './services/syncService';
+import { subscribeToOutbox, retryOutboxEntry, discardOutboxEntry, clearOutbox } from './services/outboxService';
+import { AuthUser, initAuth, subscribeToAuth, signOutUser } from './services/authService';
+import { WorkspaceSession, resolveWorkspace, acceptInvite, declineInvite, subscribeToTeam, inviteCollector, removeCollector } from './services/workspaceService';
+import { getPermissions, ROLE_LABELS } from './services/permissionService';
+import { ImportMode, ImportPlan, applyImport } from './services/backupService';
+import { normalizeMessageSettings } from './services/messageTemplateService';
+import { COLLECTION_PROGRESS_KEY } from './services/collectionQueueService';
+import { ContactDraft, createContactAttempt, mergeContactLog, getOpenPromises } from './services/contactService';
+import { buildReminderAlerts, isUrgentAlert } from './services/notificationService';
+import { ReconciledPayment } from './services/reconciliationService';
+import { getBorrowerRisks } from './services/riskService';
+import { AI_INSIGHTS_CACHE_KEY } from './services/aiService';
+import { TRASH_RETENTION_KEY, markLoanDeleted, restoreLoan, purgeLoan, getTrashedLoans, getExpiredLoans } from './services/trashService';
+import { DEFAULT_DAILY_REMINDER, REMINDER_CHECK_INTERVAL, ReminderDelivery, buildDailySchedule, registerReminderWorker, updateReminderSchedule, checkDailyReminder, subscribeToReminderClicks, consumeReminderLink } from './services/dailyReminderService';
+import { AuditTarget, createAuditEvents, mergeAuditLog, getUndoneGroupIds, canUndoGroup, buildUndoTargets, getEventsForLoan, getEventsForBorrower } from './services/auditService';
+import { SyncConflictModal } from './components/SyncConflictModal';
+import { AuditLogModal } from './components/AuditLogModal';
+import { OutboxModal } from './components/OutboxModal';
+import { LoginScreen } from './components/LoginScreen';
+import { InviteScreen } from './components/InviteScreen';
+import { TeamModal } from './components/TeamModal';
+import { ImportExportModal } from './components/ImportExportModal';
+import { StatementImportModal } from './components/StatementImportModal';
+import { TrashModal } from './components/TrashModal';
+import { LayoutDashboard, Plus, Bell, Cloud, CloudOff, CloudUpload, CloudAlert, X, Save, Search, AlertTriangle, MessageCircle, ExternalLink, Clock, Settings, LogOut, Users, ArrowDownUp, Route, Landmark, Trash2 } from 'lucide-react';
+
+// Offline copy of the data on this device, kept whether or not a cloud backend is connected
+const localStore = createLocalStorageAdapter();
+
+// Account (and workspace) whose data the offline copy holds; another one signing in on this device starts empty
+const LOCAL_OWNER_KEY = 'settings_localOwner';
+const getLocalOwner = (session: WorkspaceSession) => `${session.uid}:${session.workspaceId}`;
+
+const clearLocalData = () => {
+  localStore.clear('clients');
+  localStore.clear('borrowers');
+  localStore.clear('auditLog');
+  localStore.clear('contacts');
+  localStorage.removeItem('settings_messages');
+  localStorage.removeItem(COLLECTION_PROGRESS_KEY);
+  localStorage.removeItem(AI_INSIGHTS_CACHE_KEY);
+  clearOutbox();
+  localStorage.removeItem(LOCAL_OWNER_KEY);
+};
 
 const App: React.FC = () => {
-  // Cloud Config State - Default to the hardcoded config provided by user
-  const [cloudConfig, setCloudConfig] = useState<FirebaseConfig | null>(DEFAULT_FIREBASE_CONFIG);
+  // Cloud Config State - null = disconnected. A deployment can preset its Firebase project with the
+  // FIREBASE_CONFIG env var (JSON), no project is bundled otherwise
+  const [cloudConfig, setCloudConfig] = useState<CloudConfig | null>(() => {
+    const saved = localStorage.getItem('settings_cloud');
+    try {
+        if (saved) return JSON.parse(saved);
+        return process.env.FIREBASE_CONFIG ? { kind: 'firestore', firebase: JSON.parse(process.env.FIREBASE_CONFIG) } : null;
+    } catch (e) {
+        console.error("Failed to parse cloud settings", e);
+        return null;
+    }
+  });
   const [isCloudConnected, setIsCloudConnected] = useState(false);
+
+  // Firebase sign-in: undefined while the saved session is being restored, null = signed out.
+  // Nothing loads or syncs until an account is signed in and its workspace (own, or the owner's
+  // for a collector) is known.
+  const needsAuth = cloudConfig?.kind === 'firestore';
+  const [authUser, setAuthUser] = useState<AuthUser | null | undefined>(undefined);
+  const [session, setSession] = useState<WorkspaceSession | null>(null);
+  // Collector invitation waiting for the signed-in account to accept or decline it
+  const [pendingInvite, setPendingInvite] = useState<CollectorInvite | null>(null);
+  const sessionReady = !needsAuth || !!session;
+
+  // Without accounts (local, REST, IndexedDB) the user is the owner
+  const role: UserRole = session?.role || 'owner';
+  const permissions = getPermissions(role);
+  const [teamMembers, setTeamMembers] = useState<WorkspaceMember[]>([]);
+  const [teamInvites, setTeamInvites] = useState<CollectorInvite[]>([]);
+  const [showTeamModal, setShowTeamModal] = useState(false);
+  const [showImportExport, setShowImportExport] = useState(false);
+  const [showStatementImport, setShowStatementImport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
   const [showCloudModal, setShowCloudModal] = useState(false);
-  const [configInput, setConfigInput] = useState(JSON.stringify(DEFAULT_FIREBASE_CONFIG, null, 2));
+  const [cloudKind, setCloudKind] = useState<CloudConfig['kind']>(cloudConfig?.kind || 'firestore');
+  const [configInput, setConfigInput] = useState(cloudConfig?.kind === 'firestore' ? JSON.stringify(cloudConfig.firebase, null, 2) : '');
+  const [restUrl, setRestUrl] = useState(cloudConfig?.kind === 'rest' ? cloudConfig.rest.baseUrl : '');
+  const [restToken, setRestToken] = useState(cloudConfig?.kind === 'rest' ? cloudConfig.rest.token || '' : '');
 
   // Settings State - Icon removed, but state kept for logic
   const [warningDays, setWarningDays] = useState<number>(() => {
@@ -21,84 +110,427 @@ const App: React.FC = () => {
     return saved ? parseInt(saved, 10) : 1;
   });
 
-  const [clients, setClients] = useState<Client[]>(() => {
-    const saved = localStorage.getItem('clients');
-    if (!saved) return [];
+  const [lateFeeSettings, setLateFeeSettings] = useState<LateFeeSettings>(() => {
+    const saved = localStorage.getItem('settings_lateFees');
+    if (!saved) return DEFAULT_LATE_FEE_SETTINGS;
     try {
-        const parsed = JSON.parse(saved);
-        if (Array.isArray(parsed)) {
-            return parsed.map((c: any) => ({
-                ...c,
-                status: c.status || 'Active',
-                lastUpdated: c.lastUpdated || Date.now(),
-                isDeleted: c.isDeleted || false
-            }));
-        }
-        return [];
+        // Merge with defaults so settings saved by older versions pick up new fields
+        return { ...DEFAULT_LATE_FEE_SETTINGS, ...JSON.parse(saved) };
+    } catch (e) {
+        console.error("Failed to parse late fee settings", e);
+        return DEFAULT_LATE_FEE_SETTINGS;
+    }
+  });
+  const [showSettingsModal, setShowSettingsModal] = useState(false);
+
+  // WhatsApp reminder templates, shared by the workspace through the cloud
+  const [messageSettings, setMessageSettings] = useState<MessageSettings>(() => {
+    const saved = localStorage.getItem('settings_messages');
+    try {
+        return normalizeMessageSettings(saved ? JSON.parse(saved) : null);
     } catch (e) {
-        console.error("Failed to parse clients", e);
-        return [];
+        console.error("Failed to parse message settings", e);
+        return normalizeMessageSettings(null);
     }
   });
+  const messageSettingsRef = useRef(messageSettings);
+  const [showTemplatesModal, setShowTemplatesModal] = useState(false);
+  const [showCollectionQueue, setShowCollectionQueue] = useState(false);
+
+  // Local notification with the day's collections (see dailyReminderService)
+  const [dailyReminder, setDailyReminder] = useState<DailyReminderSettings>(() => {
+    const saved = localStorage.getItem('settings_dailyReminder');
+    try {
+        return saved ? { ...DEFAULT_DAILY_REMINDER, ...JSON.parse(saved) } : DEFAULT_DAILY_REMINDER;
+    } catch (e) {
+        console.error("Failed to parse daily reminder settings", e);
+        return DEFAULT_DAILY_REMINDER;
+    }
+  });
+  const [reminderDelivery, setReminderDelivery] = useState<ReminderDelivery>('open-only');
+
+  // Recycle bin auto-purge, in days (0 = never)
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number>(() => parseInt(localStorage.getItem(TRASH_RETENTION_KEY) || '0', 10) || 0);
+
+  // Name recorded as the author of changes in the history when no account is signed in
+  const [actorName, setActorName] = useState(() => localStorage.getItem('settings_actorName') || '');
+  // The signed-in account is the author whenever there is one, so the history cannot be attributed to someone else
+  const actor = session ? (session.email || session.uid) : (actorName.trim() || 'Desconhecido');
+
+  const [clients, setClients] = useState<Client[]>([]);
+  const [borrowers, setBorrowers] = useState<Borrower[]>([]);
+
+  // The local copy loads asynchronously; nothing is persisted or synced before it is in
+  const [localLoaded, setLocalLoaded] = useState(false);
+  const persistedClients = useRef<Client[]>([]);
+  const persistedBorrowers = useRef<Borrower[]>([]);
+
+  // Change history (append-only), synced alongside the loans
+  const [auditLog, setAuditLog] = useState<AuditEvent[]>([]);
+  const persistedAuditLog = useRef<AuditEvent[]>([]);
+  const auditLogRef = useRef<AuditEvent[]>([]);
+  // Contact attempts and payment promises (append-only), synced like the history
+  const [contacts, setContacts] = useState<ContactAttempt[]>([]);
+  const persistedContacts = useRef<ContactAttempt[]>([]);
+  const contactsRef = useRef<ContactAttempt[]>([]);
+
+  const [historyTarget, setHistoryTarget] = useState<{ type: 'loan' | 'borrower', id: string } | null>(null);
+
+  // Cloud sync: latest local state and the cloud version of each record as of the previous snapshot
+  // (the merge base). Fields edited on both sides since then end up in syncConflicts.
+  const clientsRef = useRef<Client[]>([]);
+  const borrowersRef = useRef<Borrower[]>([]);
+  const clientBase = useRef(new Map<string, Client>());
+  const borrowerBase = useRef(new Map<string, Borrower>());
+  const [syncConflicts, setSyncConflicts] = useState<SyncConflict[]>([]);
+  const [showConflictsModal, setShowConflictsModal] = useState(false);
+
+  // Cloud writes waiting in the offline outbox
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [showOutboxModal, setShowOutboxModal] = useState(false);
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+
+  // With the cloud on, wait for the first borrowers snapshot before migrating legacy loans,
+  // otherwise a bare migrated borrower could overwrite one already edited on another device
+  const [borrowersLoaded, setBorrowersLoaded] = useState(false);
 
   const [searchQuery, setSearchQuery] = useState('');
   
   // State to handle navigation from notification to client list
-  const [focusTarget, setFocusTarget] = useState<{name: string, timestamp: number} | null>(null);
+  const [focusTarget, setFocusTarget] = useState<{borrowerId: string, timestamp: number} | null>(null);
 
   // Filter out soft-deleted clients for the UI and Sort Alphabetically
   const activeClients = useMemo(() => {
     return clients
       .filter(c => !c.isDeleted)
-      .filter(c => c.name.toLowerCase().includes(searchQuery.toLowerCase()))
+      .filter(c => {
+          const query = searchQuery.toLowerCase();
+          if (c.name.toLowerCase().includes(query)) return true;
+          // Also match the borrower's CPF so homonyms can be told apart
+          const borrower = c.borrowerId ? borrowers.find(b => b.id === c.borrowerId) : undefined;
+          return !!query && !!borrower?.document && borrower.document.includes(searchQuery);
+      })
       .sort((a, b) => a.name.localeCompare(b.name));
-  }, [clients, searchQuery]);
+  }, [clients, borrowers, searchQuery]);
 
   const [showForm, setShowForm] = useState(false);
   const [clientToDuplicate, setClientToDuplicate] = useState<Client | null>(null);
+  const [clientToRenegotiate, setClientToRenegotiate] = useState<Client | null>(null);
 
   const [showNotifications, setShowNotifications] = useState(false);
   
   // Refs
   const notificationRef = useRef<HTMLDivElement>(null);
 
-  // Initialize Cloud on Mount
   useEffect(() => {
+    if (cloudConfig?.kind !== 'firestore') return;
+    if (!initAuth(cloudConfig.firebase)) {
+        setAuthUser(null);
+        return;
+    }
+    return subscribeToAuth(setAuthUser);
+  }, [cloudConfig]);
+
+  useEffect(() => {
+    if (!authUser || cloudConfig?.kind !== 'firestore') return;
+    let active = true;
+    resolveWorkspace(cloudConfig.firebase, authUser).then(({ session: resolved, invite }) => {
+        if (!active) return;
+        if (invite) setPendingInvite(invite);
+        else setSession(resolved);
+    });
+    return () => { active = false; };
+  }, [authUser, cloudConfig]);
+
+  // Owners see their collectors, for invitations and borrower assignment
+  useEffect(() => {
+    if (!session || session.role !== 'owner') return;
+    return subscribeToTeam(session.workspaceId, (members, invites) => {
+        setTeamMembers(members);
+        setTeamInvites(invites);
+    });
+  }, [session]);
+
+  // Load the local copy once the session is known
+  useEffect(() => {
+    if (!sessionReady || localLoaded) return;
+    if (session) {
+        // Another account's copy is only dropped once the user agrees; otherwise they are signed out
+        const owner = localStorage.getItem(LOCAL_OWNER_KEY);
+        if (owner && owner !== getLocalOwner(session)) {
+            if (!window.confirm('Este aparelho tem dados de outra conta (incluindo alterações ainda não enviadas para a nuvem). Eles serão removidos para abrir esta conta. Continuar?')) {
+                signOutUser().then(() => window.location.reload());
+                return;
+            }
+            clearLocalData();
+        }
+        localStorage.setItem(LOCAL_OWNER_KEY, getLocalOwner(session));
+    }
+    Promise.all([localStore.load<Client>('clients'), localStore.load<Borrower>('borrowers'), localStore.load<AuditEvent>('auditLog'), localStore.load<ContactAttempt>('contacts')])
+      .then(([savedClients, savedBorrowers, savedAuditLog, savedContacts]) => {
+        persistedClients.current = savedClients;
+        persistedBorrowers.current = savedBorrowers;
+        setClients(savedClients.map(c => ({
+            ...c,
+            status: c.status || 'Active',
+            lastUpdated: c.lastUpdated || Date.now(),
+            isDeleted: c.isDeleted || false
+        })));
+        setBorrowers(savedBorrowers);
+        persistedAuditLog.current = savedAuditLog;
+        auditLogRef.current = savedAuditLog;
+        setAuditLog(savedAuditLog);
+        persistedContacts.current = savedContacts;
+        contactsRef.current = savedContacts;
+        setContacts(savedContacts);
+      })
+      .catch(e => console.error("Failed to load local data", e))
+      .finally(() => setLocalLoaded(true));
+  }, [sessionReady]);
+
+  // Initialize Cloud once the local copy is in, so a late local load never overwrites cloud data
+  useEffect(() => {
+    if (!localLoaded) return;
+    localStorage.setItem('settings_cloud', JSON.stringify(cloudConfig));
+    if (needsAuth && !session) return;
+    if (session) localStorage.setItem(LOCAL_OWNER_KEY, getLocalOwner(session));
     if (cloudConfig) {
-      const success = initFirebase(cloudConfig);
+      const success = initCloud(cloudConfig, session || undefined);
       setIsCloudConnected(success);
+      if (!success) setBorrowersLoaded(true);
       if (success) {
-        // Start listening to real-time updates
+        // Collectors cannot create records: a local record the cloud no longer sends them was unassigned
+        const assignedOnly = <T extends { id: string }>(local: T[], remote: T[]) => {
+            if (session?.role !== 'collector') return local;
+            const remoteIds = new Set(remote.map(r => r.id));
+            return local.filter(l => remoteIds.has(l.id));
+        };
+
+        // Start listening to real-time updates, merged into local state so unsaved local edits survive
         const unsubscribe = subscribeToClients((updatedClients) => {
-            setClients(prev => {
-                // When cloud updates, we replace local state with cloud state
-                // This ensures sync. In a more complex app, we'd merge strategies.
-                return updatedClients.map(c => ({
-                    ...c,
-                    status: c.status || 'Active',
-                    isDeleted: c.isDeleted || false
-                }));
-            });
+            const remote = updatedClients.map(c => ({
+                ...c,
+                status: c.status || 'Active',
+                isDeleted: c.isDeleted || false
+            }));
+            const result = mergeRemoteClients(assignedOnly(clientsRef.current, remote), remote, clientBase.current);
+            clientBase.current = new Map(remote.map(c => [c.id, c]));
+            clientsRef.current = result.merged;
+            setClients(result.merged);
+            if (result.toPush.length > 0) syncAllToCloud(result.toPush);
+            addSyncConflicts(result.conflicts);
+        });
+        const unsubscribeBorrowers = subscribeToBorrowers((updatedBorrowers) => {
+            const result = mergeRemoteBorrowers(assignedOnly(borrowersRef.current, updatedBorrowers), updatedBorrowers, borrowerBase.current);
+            borrowerBase.current = new Map(updatedBorrowers.map(b => [b.id, b]));
+            borrowersRef.current = result.merged;
+            setBorrowers(result.merged);
+            if (result.toPush.length > 0) syncAllBorrowersToCloud(result.toPush);
+            addSyncConflicts(result.conflicts);
+            setBorrowersLoaded(true);
+        });
+        const unsubscribeAuditLog = subscribeToAuditLog((remoteEvents) => {
+            const result = mergeAuditLog(auditLogRef.current, remoteEvents);
+            auditLogRef.current = result.merged;
+            setAuditLog(result.merged);
+            if (result.toPush.length > 0) syncAuditLogToCloud(result.toPush);
         });
-        return () => unsubscribe();
+        const unsubscribeContacts = subscribeToContacts((remoteContacts) => {
+            const result = mergeContactLog(contactsRef.current, remoteContacts);
+            contactsRef.current = result.merged;
+            setContacts(result.merged);
+            if (result.toPush.length > 0) syncContactsToCloud(result.toPush);
+        });
+        // Whichever copy of the templates was edited last wins; untouched defaults are never pushed
+        const unsubscribeSettings = subscribeToMessageSettings((remote) => {
+            const local = messageSettingsRef.current;
+            if (remote && (remote.lastUpdated || 0) >= (local.lastUpdated || 0)) {
+                const settings = normalizeMessageSettings(remote);
+                messageSettingsRef.current = settings;
+                setMessageSettings(settings);
+            } else if (local.lastUpdated) {
+                saveMessageSettingsToCloud(local);
+            }
+        });
+        return () => {
+            unsubscribe();
+            unsubscribeBorrowers();
+            unsubscribeAuditLog();
+            unsubscribeSettings();
+            unsubscribeContacts();
+        };
       }
+    } else {
+      setBorrowersLoaded(true);
     }
-  }, [cloudConfig]);
+  }, [cloudConfig, localLoaded, session]);
 
-  // Persist LocalStorage (Backup) - Wrapped in try/catch to prevent circular structure crashes
   useEffect(() => {
-    try {
-      localStorage.setItem('clients', JSON.stringify(clients));
-    } catch (e) {
-      console.error("LocalStorage Save Error (Circular Structure or Quota):", e);
+    const unsubscribe = subscribeToOutbox(setOutboxEntries);
+    const handleConnectivity = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', handleConnectivity);
+    window.addEventListener('offline', handleConnectivity);
+    return () => {
+        unsubscribe();
+        window.removeEventListener('online', handleConnectivity);
+        window.removeEventListener('offline', handleConnectivity);
+    };
+  }, []);
+
+  useEffect(() => { clientsRef.current = clients; }, [clients]);
+  useEffect(() => { borrowersRef.current = borrowers; }, [borrowers]);
+
+  // A newer conflict on the same field replaces the pending one
+  const addSyncConflicts = (conflicts: SyncConflict[]) => {
+    if (conflicts.length === 0) return;
+    const ids = new Set(conflicts.map(c => c.id));
+    setSyncConflicts(prev => [...prev.filter(c => !ids.has(c.id)), ...conflicts]);
+  };
+
+  // Record one user action in the change history (called outside state updaters, StrictMode runs those twice)
+  const logAudit = (action: AuditAction, summary: string, targets: AuditTarget[], undoOf?: string) => {
+    const events = createAuditEvents(action, summary, targets, actor, undoOf);
+    if (events.length === 0) return;
+    setAuditLog(prev => [...prev, ...events]);
+    if (isCloudConnected) syncAuditLogToCloud(events);
+  };
+
+  // Log a contact with a borrower; the assigned collector is copied so they can read it
+  const handleLogContact = (borrowerKey: string, name: string, draft: ContactDraft) => {
+    const assigned = clients.find(c => getBorrowerKey(c) === borrowerKey && c.collectorId);
+    const contact = createContactAttempt({
+        ...draft,
+        borrowerKey,
+        name,
+        actor,
+        collectorId: session?.role === 'collector' ? session.uid : assigned?.collectorId
+    });
+    setContacts(prev => [...prev, contact]);
+    if (isCloudConnected) syncContactsToCloud([contact]);
+  };
+
+  const handleUndo = (groupId: string) => {
+    if (!permissions.viewHistory) return;
+    const group = auditLog.filter(e => e.groupId === groupId);
+    if (!canUndoGroup(group, clients, borrowers, getUndoneGroupIds(auditLog))) {
+        alert('Este registro foi alterado depois desta ação. Desfaça as alterações mais recentes primeiro.');
+        return;
     }
-  }, [clients]);
+
+    const targets = buildUndoTargets(group, clients, borrowers);
+    const restoredClients = new Map<string, Client>();
+    const restoredBorrowers = new Map<string, Borrower>();
+    targets.forEach(t => t.entityType === 'client' ? restoredClients.set(t.after.id, t.after) : restoredBorrowers.set(t.after.id, t.after));
+
+    setClients(prev => prev.map(c => restoredClients.get(c.id) || c));
+    setBorrowers(prev => prev.map(b => restoredBorrowers.get(b.id) || b));
+    if (isCloudConnected) {
+        syncAllToCloud([...restoredClients.values()]);
+        syncAllBorrowersToCloud([...restoredBorrowers.values()]);
+    }
+    logAudit('undo', `Desfeito: ${group[0].summary}`, targets, groupId);
+  };
+
+  const handleResolveConflict = (conflict: SyncConflict, keepLocal: boolean) => {
+    const value = keepLocal ? conflict.localValue : conflict.remoteValue;
+    if (conflict.collection === 'clients') {
+        const client = clients.find(c => c.id === conflict.recordId);
+        if (client) {
+            const resolved = applyConflictChoice(client, conflict, value);
+            setClients(prev => prev.map(c => c.id === resolved.id ? resolved : c));
+            if (isCloudConnected) saveClientToCloud(resolved);
+            logAudit('update', `Conflito resolvido: ${conflict.label}`, [{ entityType: 'client', before: client, after: resolved }]);
+        }
+    } else {
+        const borrower = borrowers.find(b => b.id === conflict.recordId);
+        // Goes through the regular save so the loans pick up the borrower's name and phone
+        if (borrower) handleSaveBorrower(applyConflictChoice(borrower, conflict, value));
+    }
+    setSyncConflicts(prev => prev.filter(c => c.id !== conflict.id));
+  };
+
+  // Migrate loans without a borrowerId (created before Borrower existed) into Borrower records
+  useEffect(() => {
+    if (!borrowersLoaded || !permissions.editBorrowers) return;
+    const { newBorrowers, migratedClients } = migrateLegacyBorrowers(clients, borrowers);
+    if (migratedClients.length === 0) return;
+
+    const migratedById = new Map(migratedClients.map(c => [c.id, c]));
+    setBorrowers(prev => [...prev, ...newBorrowers]);
+    setClients(prev => prev.map(c => migratedById.get(c.id) || c));
+
+    if (isCloudConnected) {
+        syncAllBorrowersToCloud(newBorrowers);
+        syncAllToCloud(migratedClients);
+    }
+  }, [clients, borrowers, borrowersLoaded, isCloudConnected]);
+
+  // Persist the local copy (Backup), writing only the records that changed
+  useEffect(() => {
+    if (!localLoaded) return;
+    persistChanges(localStore, 'clients', persistedClients.current, clients)
+      .catch(e => console.error("Local Save Error (Circular Structure or Quota):", e));
+    persistedClients.current = clients;
+  }, [clients, localLoaded]);
+
+  useEffect(() => {
+    if (!localLoaded) return;
+    persistChanges(localStore, 'borrowers', persistedBorrowers.current, borrowers)
+      .catch(e => console.error("Local Save Error (Borrowers):", e));
+    persistedBorrowers.current = borrowers;
+  }, [borrowers, localLoaded]);
+
+  useEffect(() => {
+    auditLogRef.current = auditLog;
+    if (!localLoaded) return;
+    persistChanges(localStore, 'auditLog', persistedAuditLog.current, auditLog)
+      .catch(e => console.error("Local Save Error (Audit Log):", e));
+    persistedAuditLog.current = auditLog;
+  }, [auditLog, localLoaded]);
+
+  useEffect(() => {
+    contactsRef.current = contacts;
+    if (!localLoaded) return;
+    persistChanges(localStore, 'contacts', persistedContacts.current, contacts)
+      .catch(e => console.error("Local Save Error (Contacts):", e));
+    persistedContacts.current = contacts;
+  }, [contacts, localLoaded]);
 
   // Persist Settings
   useEffect(() => {
     localStorage.setItem('settings_warningDays', warningDays.toString());
   }, [warningDays]);
 
+  useEffect(() => {
+    localStorage.setItem('settings_lateFees', JSON.stringify(lateFeeSettings));
+  }, [lateFeeSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('settings_actorName', actorName);
+  }, [actorName]);
+
+  useEffect(() => {
+    localStorage.setItem('settings_dailyReminder', JSON.stringify(dailyReminder));
+  }, [dailyReminder]);
+
+  useEffect(() => {
+    localStorage.setItem(TRASH_RETENTION_KEY, trashRetentionDays.toString());
+  }, [trashRetentionDays]);
+
+  useEffect(() => {
+    messageSettingsRef.current = messageSettings;
+    localStorage.setItem('settings_messages', JSON.stringify(messageSettings));
+  }, [messageSettings]);
+
+  const handleSaveMessageSettings = (settings: MessageSettings) => {
+    if (!permissions.editSettings) return;
+    const updated = { ...settings, lastUpdated: Date.now() };
+    messageSettingsRef.current = updated;
+    setMessageSettings(updated);
+    if (isCloudConnected) saveMessageSettingsToCloud(updated);
+    setShowTemplatesModal(false);
+  };
+
   const handleClickOutside = (event: MouseEvent) => {
       if (notificationRef.current && !notificationRef.current.contains(event.target as Node)) {
         setShowNotifications(false);
@@ -110,105 +542,109 @@ const App: React.FC = () => {
     return () => document.removeEventListener('mousedown', handleClickOutside);
   }, []);
 
-  // Status check
+  // Status check: loans loaded from storage or the cloud may carry a status that went stale
+  // (an installment fell overdue since it was saved)
   useEffect(() => {
-    setClients(prevClients => {
-      let hasChanges = false;
-      
-      const updated = prevClients.map(client => {
-        if (client.isDeleted || client.status === 'Completed') return client;
-
-        const isLate = client.installmentsList.some(inst => !inst.isPaid && getDaysUntilDue(inst.dueDate) < 0);
-        const newStatus = isLate ? 'Late' : 'Active';
-
-        if (client.status !== newStatus) {
-          hasChanges = true;
-          return { ...client, status: newStatus };
-        }
-        return client;
-      });
-
-      // Avoid infinite loop by only updating if actually changed
-      return hasChanges ? updated : prevClients;
+    if (!localLoaded) return;
+    const updated = clients.map(c => {
+      if (c.isDeleted) return c;
+      const status = getSettledStatus(c);
+      return status === c.status ? c : { ...c, status };
     });
-  }, []);
+    const changed = updated.filter((c, i) => c !== clients[i]);
+    if (changed.length === 0) return;
+
+    setClients(updated);
+    if (isCloudConnected) syncAllToCloud(changed);
+  }, [clients, localLoaded, isCloudConnected]);
+
+  // Generate the interest charges that came due on revolving loans ("juros mensais")
+  useEffect(() => {
+    const synced = clients.map(c => c.isDeleted ? c : syncRevolvingCharges(c));
+    const changed = synced.filter((c, i) => c !== clients[i]);
+    if (changed.length === 0) return;
+
+    setClients(synced);
+    if (isCloudConnected) syncAllToCloud(changed);
+  }, [clients, isCloudConnected]);
+
+  const openPromises = useMemo(() => getOpenPromises(contacts, clients), [contacts, clients]);
 
   // Notification Logic
-  const notifications = useMemo(() => {
-    const alerts: { 
-        clientName: string; 
-        phone: string;
-        installment: number; 
-        value: number; 
-        dueDate: string; 
-        days: number; 
-        status: 'overdue' | 'due' 
-    }[] = [];
-
-    // CRITICAL FIX: Use ALL non-deleted clients for notifications, not just the search results (activeClients).
-    // This ensures notifications persist even when searching for a different user.
-    const allNonDeletedClients = clients.filter(c => !c.isDeleted);
-
-    allNonDeletedClients.forEach(client => {
-      client.installmentsList?.forEach(inst => {
-        if (!inst.isPaid) {
-          const days = getDaysUntilDue(inst.dueDate);
-
-          // Update: < 0 is Overdue (Red)
-          if (days < 0) {
-             alerts.push({ 
-                 clientName: client.name, 
-                 phone: client.phone, 
-                 installment: inst.number, 
-                 value: inst.value, 
-                 dueDate: inst.dueDate,
-                 days: days, 
-                 status: 'overdue' 
-             });
-          } 
-          // Update: 0 to warningDays is Due/Warning (Orange)
-          // Specifically, this covers Today (0) and Tomorrow (1)
-          else if (days >= 0 && days <= warningDays) {
-             alerts.push({ 
-                 clientName: client.name, 
-                 phone: client.phone, 
-                 installment: inst.number, 
-                 value: inst.value, 
-                 dueDate: inst.dueDate,
-                 days: days, 
-                 status: 'due' 
-             });
-          }
-        }
-      });
-    });
-    
-    // Sort: Overdue first, then by date ascending
-    return alerts.sort((a, b) => {
-        if (a.status === 'overdue' && b.status !== 'overdue') return -1;
-        if (b.status === 'overdue' && a.status !== 'overdue') return 1;
-        return a.days - b.days;
-    });
-  }, [clients, warningDays]); // Dependency is 'clients', not 'activeClients'
+  const notifications = useMemo(
+    () => buildReminderAlerts(clients, { warningDays, lateFeeSettings, messageSettings, openPromises }),
+    [clients, warningDays, lateFeeSettings, messageSettings, openPromises] // Dependency is 'clients', not 'activeClients'
+  );
+
+  const hasOverdueNotifications = useMemo(() => notifications.some(isUrgentAlert), [notifications]);
+
+  const trashedLoans = useMemo(() => getTrashedLoans(clients, auditLog), [clients, auditLog]);
+
+  // Auto-purge loans that stayed in the recycle bin longer than the retention period.
+  // With a cloud configured it waits for the connection, so the deletion reaches the cloud too.
+  useEffect(() => {
+    if (!localLoaded || !permissions.deleteLoans || (cloudConfig && !isCloudConnected)) return;
+    const expired = getExpiredLoans(trashedLoans, trashRetentionDays);
+    if (expired.length > 0) handlePurgeClients(expired.map(c => c.id));
+  }, [trashedLoans, trashRetentionDays, localLoaded, permissions.deleteLoans, cloudConfig, isCloudConnected]);
+
+  // Daily summary: the worker gets the next days' summaries whenever the data changes, and is
+  // asked to check the hour while the app stays open
+  useEffect(() => {
+    registerReminderWorker().then(setReminderDelivery);
+  }, []);
+
+  useEffect(() => {
+    if (!localLoaded) return;
+    const schedule = dailyReminder.enabled
+      ? buildDailySchedule(clients, { warningDays, lateFeeSettings, messageSettings, openPromises })
+      : [];
+    updateReminderSchedule(dailyReminder, schedule);
+  }, [clients, warningDays, lateFeeSettings, messageSettings, openPromises, dailyReminder, localLoaded]);
+
+  useEffect(() => {
+    if (!dailyReminder.enabled) return;
+    const interval = setInterval(checkDailyReminder, REMINDER_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }, [dailyReminder.enabled]);
+
+  // A click on the notification opens the borrower, once the loans are loaded
+  useEffect(() => {
+    if (!localLoaded) return;
+    const borrowerKey = consumeReminderLink();
+    if (borrowerKey) handleNotificationClick(borrowerKey);
+    return subscribeToReminderClicks(handleNotificationClick);
+  }, [localLoaded]);
 
-  const hasOverdueNotifications = useMemo(() => notifications.some(n => n.status === 'overdue'), [notifications]);
+  const cashFlowData = useMemo(() => calculateCashFlow(activeClients), [activeClients]);
 
-  const progressionData = useMemo(() => calculateProgression(activeClients), [activeClients]);
+  // Risk grade of every borrower from all of their loans, regardless of the search filter
+  const borrowerRisks = useMemo(() => getBorrowerRisks(clients, lateFeeSettings), [clients, lateFeeSettings]);
 
   const financialSummary: FinancialSummary = useMemo(() => {
     // We calculate the summary based on ALL non-deleted clients (Global Portfolio), ignoring the search filter
     const nonDeleted = clients.filter(c => !c.isDeleted);
     
     // Calculate Financials (Total History + Current)
-    const totalInvested = nonDeleted.reduce((sum, c) => sum + c.principal, 0);
-    const totalRevenueExpected = nonDeleted.reduce((sum, c) => sum + (c.principal * (1 + c.interestRate/100)), 0);
-    const totalProfit = nonDeleted.reduce((sum, c) => sum + (c.principal * (1 + c.interestRate/100) - c.principal), 0);
+    // Renegotiated balances are counted once: see loanService for how the chain is netted
+    const totalInvested = nonDeleted.reduce((sum, c) => sum + getLoanInvested(c), 0);
+    const totalRevenueExpected = nonDeleted.reduce((sum, c) => sum + getLoanExpectedRevenue(c), 0);
+    const totalProfit = nonDeleted.reduce((sum, c) => sum + getLoanProfit(c), 0);
+    const realizedProfit = nonDeleted.reduce((sum, c) => sum + getLoanRealizedInterest(c), 0);
 
-    // Calculate Active Clients (Unique names with at least one active loan)
-    const activeNames = new Set<string>();
+    // Cash position from the payment ledgers
+    const totalReceived = nonDeleted.reduce((sum, c) => sum + getLoanReceived(c), 0);
+    const totalOutstanding = nonDeleted.reduce((sum, c) => sum + getLoanOutstanding(c), 0);
+
+    // Late charges are reported apart from the contracted interest (totalProfit)
+    const totalLateFeesReceived = nonDeleted.reduce((sum, c) => sum + getClientLateFeesPaid(c), 0);
+    const totalLateFeesAccrued = nonDeleted.reduce((sum, c) => sum + getClientLateFeesAccrued(c, lateFeeSettings), 0);
+
+    // Calculate Active Clients (Unique borrowers with at least one active loan)
+    const activeBorrowers = new Set<string>();
     nonDeleted.forEach(c => {
-        if (c.status !== 'Completed') {
-            activeNames.add(c.name.trim().toLowerCase());
+        if (c.status !== 'Completed' && c.status !== 'Renegotiated') {
+            activeBorrowers.add(getBorrowerKey(c));
         }
     });
 
@@ -216,20 +652,42 @@ const App: React.FC = () => {
       totalInvested,
       totalRevenueExpected,
       totalProfit,
-      activeClients: activeNames.size,
+      realizedProfit,
+      totalReceived,
+      totalOutstanding,
+      totalLateFeesReceived,
+      totalLateFeesAccrued,
+      activeClients: activeBorrowers.size,
       averageRoi: 0 // Not used in dashboard cards
     };
-  }, [clients]);
+  }, [clients, lateFeeSettings]);
 
   const handleCloudConfigSubmit = () => {
     try {
-        const config = JSON.parse(configInput);
+        let config: CloudConfig;
+        if (cloudKind === 'firestore') {
+            config = { kind: 'firestore', firebase: JSON.parse(configInput) };
+        } else if (cloudKind === 'rest') {
+            if (!restUrl.trim()) return;
+            config = { kind: 'rest', rest: restToken.trim() ? { baseUrl: restUrl.trim(), token: restToken.trim() } : { baseUrl: restUrl.trim() } };
+        } else {
+            config = { kind: 'indexeddb' };
+        }
+        // The Firebase SDK keeps the first project until reload
+        if (cloudConfig?.kind === 'firestore') {
+            localStorage.setItem('settings_cloud', JSON.stringify(config));
+            window.location.reload();
+            return;
+        }
         setCloudConfig(config);
         setShowCloudModal(false);
         // Attempt to sync current local data to cloud immediately upon connection
         if (activeClients.length > 0) {
              setTimeout(() => {
-                 if (isCloudEnabled()) syncAllToCloud(activeClients);
+                 if (isCloudEnabled()) {
+                     syncAllToCloud(activeClients);
+                     syncAllBorrowersToCloud(borrowers);
+                 }
              }, 1000);
         }
     } catch (e) {
@@ -238,111 +696,330 @@ const App: React.FC = () => {
   };
 
   const handleDisconnectCloud = () => {
+    // Data that belongs to an account must not stay readable without signing in
+    if (localStorage.getItem(LOCAL_OWNER_KEY)) {
+        if (!window.confirm('Os dados da conta serão removidos deste aparelho (continuam salvos na nuvem). Continuar?')) return;
+        clearLocalData();
+    }
     setCloudConfig(null);
     setIsCloudConnected(false);
+    localStorage.setItem('settings_cloud', JSON.stringify(null));
     window.location.reload(); // Force reload to clear connections
   };
 
-  const handleAddClient = (newClient: Client) => {
+  // The user agreed to leave the data on this device behind (see InviteScreen)
+  const handleAcceptInvite = async () => {
+    if (!authUser || !pendingInvite) return;
+    const accepted = await acceptInvite(authUser, pendingInvite);
+    if (localStorage.getItem(LOCAL_OWNER_KEY) !== getLocalOwner(accepted)) clearLocalData();
+    setPendingInvite(null);
+    setSession(accepted);
+  };
+
+  const handleDeclineInvite = (remember: boolean) => {
+    if (!authUser || !pendingInvite) return;
+    setSession(declineInvite(authUser, pendingInvite, remember));
+    setPendingInvite(null);
+  };
+
+  // The offline copy stays on the device for the same account's next sign-in
+  const handleSignOut = async () => {
+    if (outboxEntries.length > 0 && !window.confirm('Há alterações ainda não enviadas para a nuvem. Elas serão enviadas quando você entrar novamente. Sair mesmo assim?')) return;
+    await signOutUser();
+    window.location.reload();
+  };
+
+  const handleAddClient = (formClient: Client, newBorrower?: Borrower) => {
+    if (!permissions.createLoans) return;
+    // A new loan for an existing borrower goes to the borrower's collector
+    const existingBorrower = borrowers.find(b => b.id === formClient.borrowerId);
+    const newClient = existingBorrower ? applyCollectorToLoan(formClient, existingBorrower) : formClient;
+
+    if (newBorrower) {
+        setBorrowers(prev => [...prev, newBorrower]);
+        if (isCloudConnected) saveBorrowerToCloud(newBorrower);
+    }
+
+    // Renegotiation: close the original loan in the same update as the new one is created
+    const closedOriginal = clientToRenegotiate ? closeLoanForRenegotiation(clientToRenegotiate, newClient.id) : undefined;
+
     // Optimistic Update
-    setClients(prev => [...prev, newClient]);
+    setClients(prev => [
+        ...prev.map(c => (closedOriginal && c.id === closedOriginal.id) ? closedOriginal : c),
+        newClient
+    ]);
     
     // Cloud Sync
     if (isCloudConnected) {
         saveClientToCloud(newClient);
+        if (closedOriginal) saveClientToCloud(closedOriginal);
+    }
+
+    const targets: AuditTarget[] = [{ entityType: 'client', after: newClient }];
+    if (newBorrower) targets.push({ entityType: 'borrower', after: newBorrower });
+    if (closedOriginal) {
+        targets.push({ entityType: 'client', before: clientToRenegotiate!, after: closedOriginal });
+        logAudit('renegotiate', 'Empréstimo renegociado', targets);
+    } else {
+        logAudit('create', 'Empréstimo criado', targets);
     }
     setShowForm(false);
     setClientToDuplicate(null);
+    setClientToRenegotiate(null);
   };
 
   const handleUpdateClient = (updatedClient: Client) => {
-    setClients(prev => {
-        const updated = prev.map(c => {
-            if (c.id === updatedClient.id) {
-                const newClient = { ...updatedClient, lastUpdated: Date.now() };
-                if (isCloudConnected) saveClientToCloud(newClient);
-                return newClient;
-            }
-            return c;
-        });
-        return updated;
-    });
+    if (!permissions.editLoans) return;
+    const previous = clients.find(c => c.id === updatedClient.id);
+    if (!previous) return;
+    const newClient = { ...updatedClient, lastUpdated: Date.now() };
+
+    setClients(prev => prev.map(c => c.id === newClient.id ? newClient : c));
+    if (isCloudConnected) saveClientToCloud(newClient);
+    logAudit('update', 'Empréstimo editado', [{ entityType: 'client', before: previous, after: newClient }]);
+  };
+
+  // Save borrower details and copy name/phone onto every loan it owns
+  const handleSaveBorrower = (borrower: Borrower) => {
+    if (!permissions.editBorrowers) return;
+    const now = Date.now();
+    const savedBorrower = { ...borrower, lastUpdated: now };
+    const updatedLoans = clients
+        .filter(c => c.borrowerId === borrower.id)
+        .map(c => ({ ...applyBorrowerToLoan(c, savedBorrower), lastUpdated: now }));
+    const updatedById = new Map(updatedLoans.map(c => [c.id, c]));
+
+    setBorrowers(prev => prev.map(b => b.id === borrower.id ? savedBorrower : b));
+    setClients(prev => prev.map(c => updatedById.get(c.id) || c));
+
+    if (isCloudConnected) {
+        saveBorrowerToCloud(savedBorrower);
+        syncAllToCloud(updatedLoans);
+    }
+
+    const previous = borrowers.find(b => b.id === borrower.id);
+    logAudit('update', 'Cadastro alterado', [
+        { entityType: 'borrower', before: previous, after: savedBorrower },
+        ...updatedLoans.map((c): AuditTarget => ({ entityType: 'client', before: clients.find(p => p.id === c.id), after: c }))
+    ]);
+  };
+
+  // Import is one action in the history, so a bad file can be undone as a whole
+  const handleImport = (plan: ImportPlan, mode: ImportMode) => {
+    if (!permissions.createLoans || !permissions.deleteLoans) return;
+    const result = applyImport(plan, mode, clients, borrowers);
+    const savedClients = new Map(result.clients.map(c => [c.id, c]));
+    const savedBorrowers = new Map(result.borrowers.map(b => [b.id, b]));
+
+    setClients(prev => [...prev.map(c => savedClients.get(c.id) || c), ...result.clients.filter(c => !prev.some(p => p.id === c.id))]);
+    setBorrowers(prev => [...prev.map(b => savedBorrowers.get(b.id) || b), ...result.borrowers.filter(b => !prev.some(p => p.id === b.id))]);
+
+    if (isCloudConnected) {
+        syncAllBorrowersToCloud(result.borrowers);
+        syncAllToCloud(result.clients);
+    }
+
+    const imported = result.clients.filter(c => !c.isDeleted).length;
+    logAudit('import', mode === 'replace' ? `Carteira substituída por importação (${imported} empréstimos)` : `Importação de ${imported} empréstimos`, [
+        ...result.borrowers.map((b): AuditTarget => ({ entityType: 'borrower', before: borrowers.find(p => p.id === b.id), after: b })),
+        ...result.clients.map((c): AuditTarget => ({ entityType: 'client', before: clients.find(p => p.id === c.id), after: c }))
+    ]);
+    setShowImportExport(false);
+  };
+
+  const handleMergeBorrowers = (sourceId: string, targetId: string) => {
+    if (!permissions.editBorrowers) return;
+    const source = borrowers.find(b => b.id === sourceId);
+    const target = borrowers.find(b => b.id === targetId);
+    if (!source || !target) return;
+
+    const result = mergeBorrowers(source, target, clients);
+    const movedById = new Map(result.movedLoans.map(c => [c.id, c]));
+
+    setBorrowers(prev => prev.map(b => b.id === sourceId ? result.source : (b.id === targetId ? result.target : b)));
+    setClients(prev => prev.map(c => movedById.get(c.id) || c));
+
+    if (isCloudConnected) {
+        syncAllBorrowersToCloud([result.source, result.target]);
+        syncAllToCloud(result.movedLoans);
+    }
+
+    logAudit('merge', `Cadastro "${source.name}" unificado com "${target.name}"`, [
+        { entityType: 'borrower', before: source, after: result.source },
+        { entityType: 'borrower', before: target, after: result.target },
+        ...result.movedLoans.map((c): AuditTarget => ({ entityType: 'client', before: clients.find(p => p.id === c.id), after: c }))
+    ]);
+  };
+
+  // Move a loan to another borrower, or split it off into a new one (targetBorrowerId = null)
+  const handleMoveLoan = (loanId: string, targetBorrowerId: string | null) => {
+    if (!permissions.editBorrowers) return;
+    const loan = clients.find(c => c.id === loanId);
+    if (!loan) return;
+
+    let target = targetBorrowerId ? borrowers.find(b => b.id === targetBorrowerId) : undefined;
+    if (!targetBorrowerId) {
+        target = createBorrower(loan.name, loan.phone);
+        setBorrowers(prev => [...prev, target!]);
+        if (isCloudConnected) saveBorrowerToCloud(target);
+    }
+    if (!target) return;
+
+    const movedLoan = { ...applyBorrowerToLoan(loan, target), lastUpdated: Date.now() };
+    setClients(prev => prev.map(c => c.id === loanId ? movedLoan : c));
+    if (isCloudConnected) saveClientToCloud(movedLoan);
+
+    const targets: AuditTarget[] = [{ entityType: 'client', before: loan, after: movedLoan }];
+    if (!targetBorrowerId) targets.push({ entityType: 'borrower', after: target });
+    logAudit('move', `Empréstimo movido para "${target.name}"`, targets);
   };
 
   const handleDuplicateClient = (client: Client) => {
     setClientToDuplicate(client);
+    setClientToRenegotiate(null);
+    setShowForm(true);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const handleRenegotiateClient = (client: Client) => {
+    setClientToRenegotiate(client);
+    setClientToDuplicate(null);
     setShowForm(true);
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
   const handleUpdateAnnotation = (clientId: string, annotation: string) => {
-    setClients(prev => {
-        const updated = prev.map(c => {
-            if (c.id === clientId) {
-                const newClient = { ...c, annotation, lastUpdated: Date.now() };
-                if (isCloudConnected) saveClientToCloud(newClient);
-                return newClient;
-            }
-            return c;
-        });
-        return updated;
-    });
+    if (!permissions.editLoans) return;
+    const previous = clients.find(c => c.id === clientId);
+    if (!previous) return;
+    const newClient = { ...previous, annotation, lastUpdated: Date.now() };
+
+    setClients(prev => prev.map(c => c.id === clientId ? newClient : c));
+    if (isCloudConnected) saveClientToCloud(newClient);
+    logAudit('update', 'Anotação alterada', [{ entityType: 'client', before: previous, after: newClient }]);
   };
 
   const handleDeleteClient = (id: string) => {
+    if (!permissions.deleteLoans) return;
     if (window.confirm('Tem certeza que deseja remover este cliente?')) {
-      const timestamp = Date.now();
-      let deletedClient: Client | undefined;
+      const previous = clients.find(c => c.id === id);
+      if (!previous) return;
+      const deletedClient = markLoanDeleted(previous, actor);
 
-      setClients(prev => prev.map(c => {
-        if (c.id === id) {
-            deletedClient = { ...c, isDeleted: true, lastUpdated: timestamp };
-            return deletedClient;
-        }
-        return c;
-      }));
-
-      if (isCloudConnected && deletedClient) {
-        saveClientToCloud(deletedClient);
-      }
+      setClients(prev => prev.map(c => c.id === id ? deletedClient : c));
+      if (isCloudConnected) saveClientToCloud(deletedClient);
+      logAudit('delete', 'Empréstimo excluído', [{ entityType: 'client', before: previous, after: deletedClient }]);
     }
   };
 
-  const handleTogglePayment = (clientId: string, installmentNumber: number) => {
-    let updatedClient: Client | undefined;
-
-    setClients(prev => prev.map(client => {
-      if (client.id === clientId) {
-        const updatedInstallments = client.installmentsList.map(inst => 
-          inst.number === installmentNumber ? { ...inst, isPaid: !inst.isPaid } : inst
-        );
-
-        // Check completion status
-        const allPaid = updatedInstallments.every(i => i.isPaid);
-        const newStatus = allPaid ? 'Completed' : (client.status === 'Completed' ? 'Active' : client.status);
-
-        updatedClient = { 
-            ...client, 
-            installmentsList: updatedInstallments, 
-            status: newStatus, 
-            lastUpdated: Date.now() 
-        };
-        return updatedClient;
-      }
-      return client;
+  const handleRestoreClient = (id: string) => {
+    if (!permissions.deleteLoans) return;
+    const previous = clients.find(c => c.id === id);
+    if (!previous) return;
+    const restoredClient = restoreLoan(previous);
+
+    setClients(prev => prev.map(c => c.id === id ? restoredClient : c));
+    if (isCloudConnected) saveClientToCloud(restoredClient);
+    logAudit('restore', 'Empréstimo restaurado da lixeira', [{ entityType: 'client', before: previous, after: restoredClient }]);
+  };
+
+  // Permanent removal from the recycle bin, locally and in the cloud. Each loan becomes a blank tombstone
+  // (see purgeLoan) so a device still holding it does not upload it again; earlier entries of the change
+  // history keep the values it had.
+  const handlePurgeClients = (ids: string[]) => {
+    if (!permissions.deleteLoans) return;
+    const purged = clients.filter(c => c.isDeleted && !c.purged && ids.includes(c.id));
+    if (purged.length === 0) return;
+    const tombstones = purged.map(purgeLoan);
+    const tombstoneById = new Map(tombstones.map(t => [t.id, t]));
+
+    setClients(prev => prev.map(c => tombstoneById.get(c.id) || c));
+    if (isCloudConnected) syncAllToCloud(tombstones);
+    logAudit('delete', 'Empréstimo excluído definitivamente', purged.map((c): AuditTarget => ({ entityType: 'client', before: c, after: c, purged: true })));
+  };
+
+  // Apply changes to installments and recompute the status of each loan touched, in one history entry.
+  // Several changes may hit the same loan or even the same installment; they are applied in order.
+  const updateInstallments = (changes: { clientId: string, installmentNumber: number, change: (inst: Installment) => Installment }[], summary: string) => {
+    const changedById = new Map<string, Client>();
+    changes.forEach(({ clientId, installmentNumber, change }) => {
+      const client = changedById.get(clientId) || clients.find(c => c.id === clientId);
+      if (!client) return;
+      const updatedInstallments = client.installmentsList.map(inst => 
+        inst.number === installmentNumber ? change(inst) : inst
+      );
+      changedById.set(clientId, { ...client, installmentsList: updatedInstallments });
+    });
+    if (changedById.size === 0) return;
+
+    // Check completion status (a renegotiated loan stays closed whatever happens to its paid installments)
+    const updatedClients: Client[] = [...changedById.values()].map(withInstallments => ({ 
+        ...withInstallments, 
+        status: getSettledStatus(withInstallments), 
+        lastUpdated: Date.now() 
     }));
+    const updatedById = new Map(updatedClients.map(c => [c.id, c]));
 
-    if (isCloudConnected && updatedClient) {
-        saveClientToCloud(updatedClient);
-    }
+    setClients(prev => prev.map(c => updatedById.get(c.id) || c));
+    if (isCloudConnected) updatedClients.forEach(saveClientToCloud);
+    logAudit('payment', summary, updatedClients.map((c): AuditTarget => ({ entityType: 'client', before: clients.find(p => p.id === c.id), after: c })));
+  };
+
+  const updateInstallment = (clientId: string, installmentNumber: number, change: (inst: Installment) => Installment, summary: string) => {
+    updateInstallments([{ clientId, installmentNumber, change }], summary);
+  };
+
+  const handleTogglePayment = (clientId: string, installmentNumber: number) => {
+    const inst = clients.find(c => c.id === clientId)?.installmentsList.find(i => i.number === installmentNumber);
+    const summary = `Parcela #${installmentNumber} marcada como ${inst?.isPaid ? 'não paga' : 'paga'}`;
+    // Settling in one click also collects any outstanding late charges
+    updateInstallment(clientId, installmentNumber, inst => toggleInstallmentPayment(inst, calculateLateFee(inst, lateFeeSettings).total), summary);
+  };
+
+  const handleAddPayment = (clientId: string, installmentNumber: number, payment: Omit<PaymentEntry, 'id'>) => {
+    updateInstallment(clientId, installmentNumber, inst => addPaymentToInstallment(inst, payment), `Pagamento de ${formatCurrency(payment.amount)} na parcela #${installmentNumber}`);
+  };
+
+  // Credits confirmed in the bank statement review, recorded as ledger payments in one history entry
+  const handleReconcilePayments = (payments: ReconciledPayment[]) => {
+    if (!permissions.reconcileStatements) return;
+    updateInstallments(
+        payments.map(({ clientId, installmentNumber, payment }) => ({ clientId, installmentNumber, change: (inst: Installment) => addPaymentToInstallment(inst, payment) })),
+        `Conciliação bancária: ${payments.length} ${payments.length === 1 ? 'pagamento' : 'pagamentos'}`
+    );
+  };
+
+  const handleRemovePayment = (clientId: string, installmentNumber: number, paymentId: string) => {
+    updateInstallment(clientId, installmentNumber, inst => removePaymentFromInstallment(inst, paymentId), `Pagamento removido da parcela #${installmentNumber}`);
+  };
+
+  // Revolving loans: principal paydowns lower the next interest charges
+  const updateRevolvingLoan = (clientId: string, change: (loan: Client) => Client, summary: string) => {
+    const client = clients.find(c => c.id === clientId);
+    if (!client) return;
+
+    const changed = change(client);
+    const updatedClient: Client = { ...changed, status: getSettledStatus(changed), lastUpdated: Date.now() };
+
+    setClients(prev => prev.map(c => c.id === clientId ? updatedClient : c));
+    if (isCloudConnected) saveClientToCloud(updatedClient);
+    logAudit('payment', summary, [{ entityType: 'client', before: client, after: updatedClient }]);
+  };
+
+  const handleAddPrincipalPayment = (clientId: string, payment: Omit<PaymentEntry, 'id'>) => {
+    updateRevolvingLoan(clientId, loan => addPrincipalPayment(loan, payment), `Amortização de ${formatCurrency(payment.amount)}`);
+  };
+
+  const handleRemovePrincipalPayment = (clientId: string, paymentId: string) => {
+    updateRevolvingLoan(clientId, loan => removePrincipalPayment(loan, paymentId), 'Amortização removida');
   };
 
   // Handle clicking a notification to navigate to the client
-  const handleNotificationClick = (clientName: string) => {
+  const handleNotificationClick = (borrowerKey: string) => {
     // Clear search so the client is visible in the list
     setSearchQuery('');
     // Trigger focus logic in ClientList
-    setFocusTarget({ name: clientName, timestamp: Date.now() });
+    setFocusTarget({ borrowerId: borrowerKey, timestamp: Date.now() });
     setShowNotifications(false);
   };
 
@@ -351,6 +1028,19 @@ const App: React.FC = () => {
       // Implement a simple seeder if needed, or rely on cloud data
   };
 
+  const undoneGroupIds = useMemo(() => getUndoneGroupIds(auditLog), [auditLog]);
+
+  // Header cloud badge: offline, failed writes, pending writes or fully synced
+  const failedWrites = outboxEntries.filter(e => e.status === 'failed').length;
+  const pendingWrites = outboxEntries.length - failedWrites;
+  const cloudBadge = !isCloudConnected
+    ? { className: 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white', icon: <CloudOff size={14} />, text: 'Offline' }
+    : failedWrites > 0
+      ? { className: 'bg-red-500/10 border-red-500/30 text-red-400', icon: <CloudAlert size={14} />, text: `Erro (${failedWrites})` }
+      : pendingWrites > 0
+        ? { className: 'bg-orange-500/10 border-orange-500/30 text-orange-400', icon: <CloudUpload size={14} />, text: `${isOnline ? 'Enviando' : 'Sem conexão'} · ${pendingWrites} ${pendingWrites === 1 ? 'pendente' : 'pendentes'}` }
+        : { className: 'bg-blue-500/10 border-blue-500/30 text-blue-400', icon: <Cloud size={14} />, text: isOnline ? 'Sincronizado' : 'Sem conexão' };
+
   return (
     <div className="min-h-screen pb-10">
       <header className="bg-slate-900 border-b border-slate-800 p-4 sticky top-0 z-50 backdrop-blur-md bg-opacity-90">
@@ -368,11 +1058,101 @@ const App: React.FC = () => {
           <div className="flex items-center gap-4">
             {/* Cloud Status */}
             <button 
-                onClick={() => setShowCloudModal(true)}
-                className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border transition-all ${isCloudConnected ? 'bg-blue-500/10 border-blue-500/30 text-blue-400' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+                onClick={() => outboxEntries.length > 0 ? setShowOutboxModal(true) : setShowCloudModal(true)}
+                className={`flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border transition-all ${cloudBadge.className}`}
             >
-                {isCloudConnected ? <Cloud size={14} /> : <CloudOff size={14} />}
-                <span className="hidden sm:inline">{isCloudConnected ? 'Online' : 'Offline'}</span>
+                {cloudBadge.icon}
+                <span className="hidden sm:inline">{cloudBadge.text}</span>
+            </button>
+
+            {/* Sync Conflicts */}
+            {syncConflicts.length > 0 && (
+                <button 
+                    onClick={() => setShowConflictsModal(true)}
+                    className="flex items-center gap-2 text-xs px-3 py-1.5 rounded-full border bg-orange-500/10 border-orange-500/30 text-orange-400 transition-all"
+                    title="Conflitos de sincronização"
+                >
+                    <AlertTriangle size={14} />
+                    <span className="hidden sm:inline">{syncConflicts.length} {syncConflicts.length === 1 ? 'conflito' : 'conflitos'}</span>
+                </button>
+            )}
+
+            {/* Collection team (owners on Firebase) */}
+            {session && permissions.manageTeam && (
+                <button 
+                    onClick={() => setShowTeamModal(true)}
+                    className="p-2 text-slate-400 hover:text-white transition-colors"
+                    title="Equipe de cobrança"
+                >
+                    <Users size={20} />
+                </button>
+            )}
+
+            {/* Import / export (owners) */}
+            {permissions.createLoans && permissions.deleteLoans && (
+                <button 
+                    onClick={() => setShowImportExport(true)}
+                    className="p-2 text-slate-400 hover:text-white transition-colors"
+                    title="Importar / exportar"
+                >
+                    <ArrowDownUp size={20} />
+                </button>
+            )}
+
+            {/* Recycle bin (owners) */}
+            {permissions.deleteLoans && (
+                <button 
+                    onClick={() => setShowTrash(true)}
+                    className="p-2 text-slate-400 hover:text-white transition-colors relative"
+                    title="Lixeira"
+                >
+                    <Trash2 size={20} />
+                    {trashedLoans.length > 0 && (
+                        <span className="absolute -top-0.5 -right-0.5 bg-slate-600 text-white text-[9px] font-bold rounded-full min-w-[16px] h-4 px-1 flex items-center justify-center">
+                            {trashedLoans.length}
+                        </span>
+                    )}
+                </button>
+            )}
+
+            {/* Bank statement reconciliation (owners) */}
+            {permissions.reconcileStatements && (
+                <button 
+                    onClick={() => setShowStatementImport(true)}
+                    className="p-2 text-slate-400 hover:text-white transition-colors"
+                    title="Conciliação bancária"
+                >
+                    <Landmark size={20} />
+                </button>
+            )}
+
+            {/* Signed-in account */}
+            {authUser && (
+                <button 
+                    onClick={handleSignOut}
+                    className="p-2 text-slate-400 hover:text-white transition-colors"
+                    title={`Sair (${authUser.email} · ${ROLE_LABELS[role]})`}
+                >
+                    <LogOut size={20} />
+                </button>
+            )}
+
+            {/* Daily collection route */}
+            <button 
+                onClick={() => setShowCollectionQueue(true)}
+                className="p-2 text-slate-400 hover:text-white transition-colors"
+                title="Rota de cobrança"
+            >
+                <Route size={20} />
+            </button>
+
+            {/* Settings */}
+            <button 
+                onClick={() => setShowSettingsModal(true)}
+                className="p-2 text-slate-400 hover:text-white transition-colors"
+                title="Configurações"
+            >
+                <Settings size={20} />
             </button>
 
             {/* Notifications */}
@@ -408,21 +1188,28 @@ const App: React.FC = () => {
                                     <div 
                                         key={idx} 
                                         className="p-3 border-b border-slate-700/50 hover:bg-slate-700/30 transition-colors flex items-center justify-between group cursor-pointer"
-                                        onClick={() => handleNotificationClick(notif.clientName)}
+                                        onClick={() => handleNotificationClick(notif.borrowerKey)}
                                     >
                                         <div className="flex-1">
                                             <p className="font-bold text-white text-sm flex items-center gap-2">
                                                 {notif.clientName}
                                                 <ExternalLink size={10} className="text-slate-500 group-hover:text-emerald-400 opacity-0 group-hover:opacity-100 transition-opacity"/>
                                             </p>
-                                            <p className="text-xs text-slate-400">Parc. #{notif.installment} - {formatCurrency(notif.value)}</p>
+                                            {notif.status === 'promise' ? (
+                                                <p className="text-xs text-slate-400">Promessa{notif.value > 0 && ` de ${formatCurrency(notif.value)}`} para {notif.dueDate.split('-').reverse().join('/')}</p>
+                                            ) : (
+                                                <p className="text-xs text-slate-400">{notif.isInterestCharge ? 'Juros' : 'Parc.'} #{notif.installment} - {formatCurrency(notif.value + notif.lateFee)}{notif.isPartial && ' (restante)'}</p>
+                                            )}
+                                            {notif.lateFee > 0 && (
+                                                <p className="text-[10px] text-red-400">Inclui {formatCurrency(notif.lateFee)} de multa/juros</p>
+                                            )}
                                         </div>
                                         
                                         <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
                                             {/* WhatsApp Button for Overdue/Today/Tomorrow items */}
                                             {notif.phone && (
                                                 <a 
-                                                    href={generateWhatsAppLink(notif.phone, notif.clientName, notif.installment, notif.value, notif.dueDate)}
+                                                    href={getWhatsAppUrl(notif.phone, notif.message)}
                                                     target="_blank"
                                                     rel="noopener noreferrer"
                                                     className="p-1.5 rounded-full bg-green-500/20 text-green-400 border border-green-500/30 hover:bg-green-500 hover:text-white transition-all"
@@ -432,9 +1219,15 @@ const App: React.FC = () => {
                                                 </a>
                                             )}
 
-                                            <span className={`text-[10px] font-bold px-2 py-1 rounded uppercase ${notif.status === 'overdue' ? 'bg-red-500/20 text-red-400 border border-red-500/20' : 'bg-orange-500/20 text-orange-400 border border-orange-500/20'}`}>
-                                                {notif.status === 'overdue' && notif.days < 0 ? 'Vencido' : dueText}
-                                            </span>
+                                            {notif.status === 'promise' ? (
+                                                <span className={`text-[10px] font-bold px-2 py-1 rounded uppercase ${notif.promiseStatus === 'broken' ? 'bg-red-500/20 text-red-400 border border-red-500/20' : 'bg-blue-500/20 text-blue-400 border border-blue-500/20'}`}>
+                                                    {notif.promiseStatus === 'broken' ? 'Promessa quebrada' : 'Promessa hoje'}
+                                                </span>
+                                            ) : (
+                                                <span className={`text-[10px] font-bold px-2 py-1 rounded uppercase ${notif.status === 'overdue' ? 'bg-red-500/20 text-red-400 border border-red-500/20' : 'bg-orange-500/20 text-orange-400 border border-orange-500/20'}`}>
+                                                    {notif.status === 'overdue' && notif.days < 0 ? 'Vencido' : dueText}
+                                                </span>
+                                            )}
                                         </div>
                                     </div>
                                 )})
@@ -444,15 +1237,18 @@ const App: React.FC = () => {
                 )}
             </div>
 
-            <button 
-              onClick={() => {
-                  setClientToDuplicate(null);
-                  setShowForm(!showForm);
-              }}
-              className="bg-emerald-600 hover:bg-emerald-500 text-white p-2 rounded-lg transition-colors shadow-lg shadow-emerald-900/20"
-            >
-              <Plus size={24} />
-            </button>
+            {permissions.createLoans && (
+              <button 
+                onClick={() => {
+                    setClientToDuplicate(null);
+                    setClientToRenegotiate(null);
+                    setShowForm(!showForm);
+                }}
+                className="bg-emerald-600 hover:bg-emerald-500 text-white p-2 rounded-lg transition-colors shadow-lg shadow-emerald-900/20"
+              >
+                <Plus size={24} />
+              </button>
+            )}
           </div>
         </div>
       </header>
@@ -460,20 +1256,34 @@ const App: React.FC = () => {
       <main className="max-w-7xl mx-auto p-4 md:p-6">
         
         {/* Dashboard KPIs */}
-        <DashboardCards summary={financialSummary} />
+        {permissions.viewTotals && <DashboardCards summary={financialSummary} />}
 
         {/* Chart Section */}
-        <ChartSection data={progressionData} />
+        {permissions.viewTotals && <ChartSection data={cashFlowData} />}
+
+        {/* AI Insights */}
+        {permissions.viewTotals && (
+          <InsightsPanel
+            clients={clients}
+            lateFeeSettings={lateFeeSettings}
+            onSelectBorrower={handleNotificationClick}
+          />
+        )}
 
         {/* Client Form */}
-        {showForm && (
+        {showForm && permissions.createLoans && (
           <ClientForm 
             onAddClient={handleAddClient} 
             onCancel={() => {
                 setShowForm(false);
                 setClientToDuplicate(null);
+                setClientToRenegotiate(null);
             }} 
             initialData={clientToDuplicate}
+            borrowers={borrowers.filter(b => !b.isDeleted)}
+            borrowerRisks={borrowerRisks}
+            renegotiateFrom={clientToRenegotiate}
+            renegotiationBalance={clientToRenegotiate ? getRenegotiationBalance(clientToRenegotiate, getClientLateFeesAccrued(clientToRenegotiate, lateFeeSettings)) : 0}
           />
         )}
 
@@ -490,7 +1300,7 @@ const App: React.FC = () => {
                 <input 
                     type="text" 
                     className="bg-slate-800 border border-slate-700 text-white text-sm rounded-lg focus:ring-emerald-500 focus:border-emerald-500 block w-full pl-10 p-2.5 placeholder-slate-500 transition-colors focus:outline-none" 
-                    placeholder="Buscar por nome..." 
+                    placeholder="Buscar por nome ou CPF..." 
                     value={searchQuery}
                     onChange={(e) => setSearchQuery(e.target.value)}
                 />
@@ -500,23 +1310,200 @@ const App: React.FC = () => {
         {/* Client List */}
         <ClientList 
           clients={activeClients} 
+          borrowerRisks={borrowerRisks}
           onDelete={handleDeleteClient}
           onTogglePayment={handleTogglePayment}
+          onAddPayment={handleAddPayment}
+          onRemovePayment={handleRemovePayment}
+          onAddPrincipalPayment={handleAddPrincipalPayment}
+          onRemovePrincipalPayment={handleRemovePrincipalPayment}
           onDuplicate={handleDuplicateClient}
+          onRenegotiate={handleRenegotiateClient}
+          borrowers={borrowers}
+          onSaveBorrower={handleSaveBorrower}
+          onMergeBorrowers={handleMergeBorrowers}
+          onMoveLoan={handleMoveLoan}
           onUpdateAnnotation={handleUpdateAnnotation}
           onUpdateClient={handleUpdateClient}
+          onShowHistory={(type, id) => setHistoryTarget({ type, id })}
+          permissions={permissions}
+          collectors={teamMembers.filter(m => m.role === 'collector')}
           warningDays={warningDays}
+          lateFeeSettings={lateFeeSettings}
+          messageSettings={messageSettings}
+          contacts={contacts}
+          onLogContact={handleLogContact}
           focusTarget={focusTarget}
         />
       </main>
 
+      {/* Settings Modal */}
+      {showSettingsModal && (
+        <SettingsModal
+            lateFeeSettings={lateFeeSettings}
+            actorName={actorName}
+            signedInEmail={session?.email}
+            dailyReminder={dailyReminder}
+            reminderDelivery={reminderDelivery}
+            onSave={(settings, name, reminder) => {
+                setLateFeeSettings(settings);
+                setActorName(name);
+                setDailyReminder(reminder);
+                setShowSettingsModal(false);
+            }}
+            onOpenTemplates={() => {
+                setShowSettingsModal(false);
+                setShowTemplatesModal(true);
+            }}
+            onClose={() => setShowSettingsModal(false)}
+        />
+      )}
+
+      {/* Bank Statement Reconciliation */}
+      {showStatementImport && (
+        <StatementImportModal
+            clients={clients}
+            lateFeeSettings={lateFeeSettings}
+            onConfirm={handleReconcilePayments}
+            onClose={() => setShowStatementImport(false)}
+        />
+      )}
+
+      {/* Daily Collection Queue */}
+      {showCollectionQueue && (
+        <CollectionQueueModal
+            clients={clients}
+            borrowers={borrowers}
+            lateFeeSettings={lateFeeSettings}
+            warningDays={warningDays}
+            messageSettings={messageSettings}
+            contacts={contacts}
+            onLogContact={handleLogContact}
+            onAddPayment={handleAddPayment}
+            onRemovePayment={handleRemovePayment}
+            onOpenBorrower={(borrowerKey) => {
+                setShowCollectionQueue(false);
+                handleNotificationClick(borrowerKey);
+            }}
+            onClose={() => setShowCollectionQueue(false)}
+        />
+      )}
+
+      {/* WhatsApp Message Templates */}
+      {showTemplatesModal && (
+        <MessageTemplatesModal
+            settings={messageSettings}
+            readOnly={!permissions.editSettings}
+            onSave={handleSaveMessageSettings}
+            onClose={() => setShowTemplatesModal(false)}
+        />
+      )}
+
+      {/* Import / export */}
+      {showImportExport && (
+        <ImportExportModal
+            clients={clients}
+            borrowers={borrowers}
+            onImport={handleImport}
+            onClose={() => setShowImportExport(false)}
+        />
+      )}
+
+      {/* Recycle Bin */}
+      {showTrash && (
+        <TrashModal
+            trashed={trashedLoans}
+            retentionDays={trashRetentionDays}
+            onChangeRetention={setTrashRetentionDays}
+            onRestore={handleRestoreClient}
+            onPurge={handlePurgeClients}
+            onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {/* Collection team */}
+      {showTeamModal && session && (
+        <TeamModal
+            members={teamMembers}
+            invites={teamInvites}
+            borrowers={borrowers}
+            emailVerified={!!authUser?.emailVerified}
+            onInvite={(email, name) => inviteCollector(session.workspaceId, session.email, email, name)}
+            onRemove={(email, memberId) => {
+                removeCollector(session.workspaceId, email, memberId).catch(e => {
+                    console.error("Remove collector error:", e);
+                    alert('Não foi possível remover o cobrador.');
+                });
+            }}
+            onClose={() => setShowTeamModal(false)}
+        />
+      )}
+
+      {/* Sign-in gate for Firebase projects */}
+      {needsAuth && !session && !pendingInvite && (
+        <LoginScreen
+            checking={authUser === undefined || !!authUser}
+            projectId={cloudConfig.firebase.projectId}
+            onOpenCloudSettings={() => setShowCloudModal(true)}
+            onUseOffline={handleDisconnectCloud}
+        />
+      )}
+
+      {/* Collector invitation, answered before anything loads */}
+      {needsAuth && !session && pendingInvite && authUser && (
+        <InviteScreen
+            invite={pendingInvite}
+            email={authUser.email}
+            emailVerified={authUser.emailVerified}
+            onAccept={handleAcceptInvite}
+            onDecline={handleDeclineInvite}
+        />
+      )}
+
+      {/* Change history of a loan or a borrower */}
+      {historyTarget && (
+        <AuditLogModal
+            title={(historyTarget.type === 'loan'
+                ? clients.find(c => c.id === historyTarget.id)?.name
+                : borrowers.find(b => b.id === historyTarget.id)?.name) || ''}
+            events={historyTarget.type === 'loan' ? getEventsForLoan(auditLog, historyTarget.id) : getEventsForBorrower(auditLog, historyTarget.id)}
+            undoneGroupIds={undoneGroupIds}
+            canUndo={(groupId) => canUndoGroup(auditLog.filter(e => e.groupId === groupId), clients, borrowers, undoneGroupIds)}
+            onUndo={handleUndo}
+            onClose={() => setHistoryTarget(null)}
+        />
+      )}
+
+      {/* Outbox (pending and failed cloud writes) */}
+      {showOutboxModal && (
+        <OutboxModal
+            entries={outboxEntries}
+            onRetry={retryOutboxEntry}
+            onDiscard={discardOutboxEntry}
+            onOpenCloudSettings={() => {
+                setShowOutboxModal(false);
+                setShowCloudModal(true);
+            }}
+            onClose={() => setShowOutboxModal(false)}
+        />
+      )}
+
+      {/* Sync Conflicts Modal */}
+      {showConflictsModal && (
+        <SyncConflictModal
+            conflicts={syncConflicts}
+            onResolve={handleResolveConflict}
+            onClose={() => setShowConflictsModal(false)}
+        />
+      )}
+
       {/* Cloud Config Modal */}
       {showCloudModal && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
             <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-md w-full shadow-2xl">
                 <div className="flex justify-between items-center mb-6">
                     <h3 className="text-lg font-bold text-white flex items-center gap-2">
-                        <Cloud className="text-blue-400" /> Configurar Nuvem (Firebase)
+                        <Cloud className="text-blue-400" /> Configurar Nuvem
                     </h3>
                     <button onClick={() => setShowCloudModal(false)} className="text-slate-400 hover:text-white">
                         <X size={20} />
@@ -525,15 +1512,57 @@ const App: React.FC = () => {
 
                 {!isCloudConnected ? (
                     <>
-                        <p className="text-slate-400 text-sm mb-4">
-                            Cole o JSON de configuração do seu projeto Firebase para ativar a sincronização em tempo real entre dispositivos.
-                        </p>
-                        <textarea
-                            value={configInput}
-                            onChange={(e) => setConfigInput(e.target.value)}
-                            placeholder='{"apiKey": "...", "authDomain": "..."}'
-                            className="w-full h-40 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 font-mono mb-4 focus:outline-none focus:border-blue-500"
-                        />
+                        <select
+                            value={cloudKind}
+                            onChange={(e) => setCloudKind(e.target.value as CloudConfig['kind'])}
+                            className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm mb-4 focus:outline-none focus:border-blue-500"
+                        >
+                            {(Object.keys(CLOUD_KIND_LABELS) as CloudConfig['kind'][]).map(k => (
+                                <option key={k} value={k}>{CLOUD_KIND_LABELS[k]}</option>
+                            ))}
+                        </select>
+                        {cloudKind === 'firestore' && (
+                            <>
+                                <p className="text-slate-400 text-sm mb-4">
+                                    Cole o JSON de configuração do seu projeto Firebase para ativar a sincronização em tempo real entre dispositivos. Cada conta (e-mail e senha) tem seus próprios dados.
+                                </p>
+                                <p className="text-slate-500 text-xs mb-4">
+                                    Para testar com os emuladores locais, inclua <span className="font-mono">"emulatorHost": "127.0.0.1"</span>.
+                                </p>
+                                <textarea
+                                    value={configInput}
+                                    onChange={(e) => setConfigInput(e.target.value)}
+                                    placeholder='{"apiKey": "...", "authDomain": "..."}'
+                                    className="w-full h-40 bg-slate-950 border border-slate-800 rounded-lg p-3 text-xs text-slate-300 font-mono mb-4 focus:outline-none focus:border-blue-500"
+                                />
+                            </>
+                        )}
+                        {cloudKind === 'rest' && (
+                            <>
+                                <p className="text-slate-400 text-sm mb-4">
+                                    Endereço de um servidor que responda GET/PUT/DELETE em <span className="font-mono">/clients</span> e <span className="font-mono">/borrowers</span>.
+                                </p>
+                                <input
+                                    type="url"
+                                    value={restUrl}
+                                    onChange={(e) => setRestUrl(e.target.value)}
+                                    placeholder="https://meuservidor.com/api"
+                                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-300 font-mono mb-3 focus:outline-none focus:border-blue-500"
+                                />
+                                <input
+                                    type="password"
+                                    value={restToken}
+                                    onChange={(e) => setRestToken(e.target.value)}
+                                    placeholder="Token de acesso (opcional)"
+                                    className="w-full bg-slate-950 border border-slate-800 rounded-lg px-3 py-2 text-sm text-slate-300 font-mono mb-4 focus:outline-none focus:border-blue-500"
+                                />
+                            </>
+                        )}
+                        {cloudKind === 'indexeddb' && (
+                            <p className="text-slate-400 text-sm mb-4">
+                                Os dados ficam no banco do navegador e são compartilhados entre abas. Não sincroniza com outros dispositivos.
+                            </p>
+                        )}
                         <button 
                             onClick={handleCloudConfigSubmit}
                             className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
@@ -547,6 +1576,7 @@ const App: React.FC = () => {
                             <Cloud size={48} className="text-emerald-400 mx-auto mb-2" />
                             <p className="text-emerald-300 font-bold">Conectado com Sucesso</p>
                             <p className="text-xs text-emerald-500/70 mt-1">Sincronização em tempo real ativa.</p>
+                            {authUser && <p className="text-xs text-slate-400 mt-2 font-mono">{authUser.email}</p>}
                         </div>
                         <button 
                             onClick={handleDisconnectCloud}
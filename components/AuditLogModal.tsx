@@ -0,0 +1,85 @@
+import React from 'react';
+import { AuditEvent } from '../types';
+import { X, History, Undo2, User } from 'lucide-react';
+
+interface AuditLogModalProps {
+  title: string;
+  events: AuditEvent[]; // Newest first
+  undoneGroupIds: Set<string>;
+  canUndo: (groupId: string) => boolean;
+  onUndo: (groupId: string) => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(2);
+  if (Array.isArray(value)) return value.join(', ') || '—';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+const formatTimestamp = (timestamp: number): string => {
+  return new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+export const AuditLogModal: React.FC<AuditLogModalProps> = ({ title, events, undoneGroupIds, canUndo, onUndo, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <History className="text-blue-400" /> Histórico · {title}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {events.length === 0 ? (
+          <div className="p-4 text-center text-slate-500 text-sm border border-slate-800 rounded-lg">Nenhuma alteração registrada.</div>
+        ) : (
+          <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+            {events.map(event => {
+              const undone = undoneGroupIds.has(event.groupId);
+              const undoable = canUndo(event.groupId);
+              return (
+                <div key={event.id} className={`p-3 ${undone ? 'opacity-50' : ''}`}>
+                  <div className="flex justify-between items-start gap-3">
+                    <div className="min-w-0">
+                      <p className={`text-sm text-white font-bold ${undone ? 'line-through' : ''}`}>{event.summary}</p>
+                      <p className="text-[10px] text-slate-500 font-mono flex items-center gap-1">
+                        {formatTimestamp(event.timestamp)} · <User size={10} /> {event.actor}
+                        {undone && <span className="text-orange-400 ml-1">(desfeito)</span>}
+                      </p>
+                    </div>
+                    {event.action !== 'undo' && !undone && (
+                      <button
+                        onClick={() => onUndo(event.groupId)}
+                        disabled={!undoable}
+                        className="p-2 text-slate-400 hover:text-orange-400 hover:bg-slate-800 rounded-lg transition-colors disabled:opacity-30 disabled:hover:text-slate-400 disabled:hover:bg-transparent shrink-0"
+                        title={undoable ? 'Desfazer' : 'Houve alterações depois desta; desfaça as mais recentes primeiro'}
+                      >
+                        <Undo2 size={16} />
+                      </button>
+                    )}
+                  </div>
+                  <ul className="mt-2 space-y-0.5">
+                    {event.changes.map((change, i) => (
+                      <li key={i} className="text-xs text-slate-400">
+                        <span className="text-slate-300">{change.label}:</span>{' '}
+                        <span className="text-red-400/80 line-through">{formatValue(change.before)}</span>{' → '}
+                        <span className="text-emerald-400">{formatValue(change.after)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,169 @@
+import React, { useState } from 'react';
+import { Borrower, Client, WorkspaceMember } from '../types';
+import { formatCurrency } from '../constants';
+import { X, Save, IdCard, Merge, Split } from 'lucide-react';
+
+interface BorrowerModalProps {
+  borrower: Borrower;
+  borrowers: Borrower[]; // Other borrowers, candidates for merge / move
+  loans: Client[]; // Loans owned by this borrower
+  collectors: WorkspaceMember[]; // Empty without a team (no assignment field)
+  onSave: (borrower: Borrower) => void;
+  onMerge: (sourceId: string, targetId: string) => void;
+  onMoveLoan: (loanId: string, targetBorrowerId: string | null) => void; // null = split into a new borrower
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500";
+const labelClass = "block text-xs text-slate-400 mb-1 uppercase font-bold";
+
+export const BorrowerModal: React.FC<BorrowerModalProps> = ({ borrower, borrowers, loans, collectors, onSave, onMerge, onMoveLoan, onClose }) => {
+  const [name, setName] = useState(borrower.name);
+  const [phones, setPhones] = useState(borrower.phones.join('\n'));
+  const [cpf, setCpf] = useState(borrower.document || '');
+  const [address, setAddress] = useState(borrower.address || '');
+  const [notes, setNotes] = useState(borrower.notes || '');
+  const [collectorId, setCollectorId] = useState(borrower.collectorId || '');
+  const [mergeTargetId, setMergeTargetId] = useState('');
+
+  const otherBorrowers = borrowers
+    .filter(b => b.id !== borrower.id && !b.isDeleted)
+    .sort((a, b) => a.name.localeCompare(b.name));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    // Firestore rejects undefined, so an unassigned borrower has no collectorId field
+    const { collectorId: _previous, ...rest } = borrower;
+    onSave({
+      ...rest,
+      name: name.trim(),
+      phones: phones.split('\n').map(p => p.trim()).filter(Boolean),
+      document: cpf.trim(),
+      address: address.trim(),
+      notes: notes.trim(),
+      ...(collectorId ? { collectorId } : {})
+    });
+  };
+
+  const handleMerge = () => {
+    const target = otherBorrowers.find(b => b.id === mergeTargetId);
+    if (!target) return;
+    if (window.confirm(`Mesclar "${borrower.name}" em "${target.name}"? Todos os empréstimos serão transferidos e este cadastro será removido.`)) {
+      onMerge(borrower.id, target.id);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <IdCard className="text-blue-400" /> Cadastro do Cliente
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 mb-6">
+          <div className="col-span-2">
+            <label className={labelClass}>Nome</label>
+            <input type="text" value={name} onChange={(e) => setName(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className={labelClass}>Telefones (um por linha)</label>
+            <textarea value={phones} onChange={(e) => setPhones(e.target.value)} className={`${inputClass} h-20 resize-none`} placeholder="(00) 00000-0000" />
+          </div>
+          <div>
+            <label className={labelClass}>CPF</label>
+            <input type="text" value={cpf} onChange={(e) => setCpf(e.target.value)} className={inputClass} placeholder="000.000.000-00" />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Endereço</label>
+            <input type="text" value={address} onChange={(e) => setAddress(e.target.value)} className={inputClass} />
+          </div>
+          <div className="col-span-2">
+            <label className={labelClass}>Observações</label>
+            <textarea value={notes} onChange={(e) => setNotes(e.target.value)} className={`${inputClass} h-16 resize-none`} />
+          </div>
+          {(collectors.length > 0 || borrower.collectorId) && (
+            <div className="col-span-2">
+              <label className={labelClass}>Cobrador responsável</label>
+              <select value={collectorId} onChange={(e) => setCollectorId(e.target.value)} className={inputClass}>
+                <option value="">Nenhum (somente o proprietário)</option>
+                {collectors.map(c => (
+                  <option key={c.id} value={c.id}>{c.name || c.email}</option>
+                ))}
+                {borrower.collectorId && !collectors.some(c => c.id === borrower.collectorId) && (
+                  <option value={borrower.collectorId}>Removido da equipe</option>
+                )}
+              </select>
+            </div>
+          )}
+          <button
+            type="submit"
+            className="col-span-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+          >
+            <Save size={16} /> Salvar Cadastro
+          </button>
+        </form>
+
+        {/* Split: move individual loans to another borrower */}
+        <div className="mb-6">
+          <h4 className="text-sm font-bold text-slate-300 flex items-center gap-2 mb-2">
+            <Split size={14} className="text-orange-400" /> Empréstimos deste cliente
+          </h4>
+          <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+            {loans.map(loan => (
+              <div key={loan.id} className="p-3 flex items-center justify-between gap-3">
+                <div>
+                  <p className="text-sm text-white font-bold">{formatCurrency(loan.principal)}</p>
+                  <p className="text-xs text-slate-400 font-mono">{loan.startDate.split('-').reverse().join('/')} · {loan.installments}x</p>
+                </div>
+                <select
+                  value=""
+                  onChange={(e) => {
+                    if (!e.target.value) return;
+                    onMoveLoan(loan.id, e.target.value === '__new__' ? null : e.target.value);
+                  }}
+                  className="bg-slate-950 border border-slate-800 text-slate-300 rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-orange-500 max-w-[180px]"
+                  disabled={loans.length < 2 && otherBorrowers.length === 0}
+                >
+                  <option value="">Mover para...</option>
+                  {loans.length > 1 && <option value="__new__">Novo cliente (separar)</option>}
+                  {otherBorrowers.map(b => <option key={b.id} value={b.id}>{b.name}</option>)}
+                </select>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {/* Merge: fold this borrower into another */}
+        <div>
+          <h4 className="text-sm font-bold text-slate-300 flex items-center gap-2 mb-2">
+            <Merge size={14} className="text-purple-400" /> Mesclar com outro cliente
+          </h4>
+          <div className="flex gap-2">
+            <select
+              value={mergeTargetId}
+              onChange={(e) => setMergeTargetId(e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Selecione o cadastro que permanece...</option>
+              {otherBorrowers.map(b => <option key={b.id} value={b.id}>{b.name}{b.document ? ` (${b.document})` : ''}</option>)}
+            </select>
+            <button
+              onClick={handleMerge}
+              disabled={!mergeTargetId}
+              className="bg-purple-600 hover:bg-purple-500 disabled:opacity-40 text-white font-bold px-4 rounded-lg transition-colors"
+            >
+              Mesclar
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -1,59 +1,98 @@
-import React from 'react';
-import { ProgressionPoint } from '../types';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend } from 'recharts';
-import { formatCurrency } from '../constants';
+import React, { useMemo, useState } from 'react';
+import { CashFlowPoint } from '../types';
+import { BarChart, Bar, AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine } from 'recharts';
+import { formatCurrency, toISODate } from '../constants';
+import { accumulateCashFlow, formatMonthLabel, getMonthKey } from '../services/cashFlowService';
 
 interface ChartSectionProps {
-  data: ProgressionPoint[];
+  data: CashFlowPoint[]; // Per calendar month, see calculateCashFlow
 }
 
+type ChartView = 'monthly' | 'cumulative';
+
+const tooltipStyle = { backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' };
+
 export const ChartSection: React.FC<ChartSectionProps> = ({ data }) => {
+  const [view, setView] = useState<ChartView>('monthly');
+
+  const chartData = useMemo(() => view === 'cumulative' ? accumulateCashFlow(data) : data, [data, view]);
+
+  // "How much comes in next month?"
+  const today = new Date();
+  const currentMonthLabel = formatMonthLabel(getMonthKey(toISODate(today)));
+  const nextMonthKey = getMonthKey(toISODate(new Date(today.getFullYear(), today.getMonth() + 1, 1)));
+  const nextMonth = data.find(p => p.month === nextMonthKey);
+  const hasCurrentMonth = data.some(p => p.name === currentMonthLabel);
+
+  const viewButtonClass = (active: boolean) => `px-3 py-1 rounded-md text-xs font-bold transition-colors ${active ? 'bg-slate-700 text-white' : 'text-slate-400 hover:text-white'}`;
+
+  const axes = (
+    <>
+      <XAxis dataKey="name" stroke="#94a3b8" />
+      <YAxis stroke="#94a3b8" tickFormatter={(val) => `R$${val/1000}k`} />
+      <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
+      <Tooltip
+        contentStyle={tooltipStyle}
+        formatter={(value: number, name: string) => [formatCurrency(value), name]}
+      />
+      <Legend />
+      {hasCurrentMonth && <ReferenceLine x={currentMonthLabel} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: 'Hoje', fill: '#f59e0b', fontSize: 11, position: 'top' }} />}
+    </>
+  );
+
   return (
     <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-lg mb-8">
-      <h2 className="text-xl font-bold text-white mb-6">Projeção de Recebimentos (Acumulado)</h2>
+      <div className="flex flex-wrap justify-between items-start gap-4 mb-6">
+        <div>
+          <h2 className="text-xl font-bold text-white">Fluxo de Caixa {view === 'cumulative' ? '(Acumulado)' : '(Por Mês)'}</h2>
+          <p className="text-xs text-slate-400 mt-1">
+            Previsto para {formatMonthLabel(nextMonthKey)}: <b className="text-blue-400">{formatCurrency(nextMonth ? nextMonth.expected : 0)}</b>
+          </p>
+        </div>
+        <div className="flex bg-slate-900 border border-slate-700 rounded-lg p-1">
+          <button onClick={() => setView('monthly')} className={viewButtonClass(view === 'monthly')}>Por mês</button>
+          <button onClick={() => setView('cumulative')} className={viewButtonClass(view === 'cumulative')}>Acumulado</button>
+        </div>
+      </div>
       <div className="h-[350px] w-full">
         <ResponsiveContainer width="100%" height="100%">
-          <AreaChart
-            data={data}
-            margin={{ top: 10, right: 30, left: 0, bottom: 0 }}
-          >
-            <defs>
-              <linearGradient id="colorPrincipal" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
-                <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-              </linearGradient>
-              <linearGradient id="colorInterest" x1="0" y1="0" x2="0" y2="1">
-                <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
-                <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
-              </linearGradient>
-            </defs>
-            <XAxis dataKey="name" stroke="#94a3b8" />
-            <YAxis stroke="#94a3b8" tickFormatter={(val) => `R$${val/1000}k`} />
-            <CartesianGrid strokeDasharray="3 3" stroke="#334155" />
-            <Tooltip 
-              contentStyle={{ backgroundColor: '#1e293b', borderColor: '#334155', color: '#f1f5f9' }}
-              formatter={(value: number) => [formatCurrency(value), '']}
-            />
-            <Legend />
-            <Area 
-              type="monotone" 
-              dataKey="principal" 
-              stackId="1" 
-              stroke="#3b82f6" 
-              fill="url(#colorPrincipal)" 
-              name="Capital Recuperado" 
-            />
-            <Area 
-              type="monotone" 
-              dataKey="interest" 
-              stackId="1" 
-              stroke="#10b981" 
-              fill="url(#colorInterest)" 
-              name="Lucro (Juros)" 
-            />
-          </AreaChart>
+          {view === 'monthly' ? (
+            <BarChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              {axes}
+              <Bar dataKey="receivedPrincipal" stackId="1" fill="#10b981" name="Capital Recuperado" />
+              <Bar dataKey="receivedInterest" stackId="1" fill="#a855f7" name="Lucro (Juros)" />
+              <Bar dataKey="overdue" stackId="1" fill="#ef4444" name="Em Atraso" />
+              <Bar dataKey="expected" stackId="1" fill="#3b82f6" name="A Receber" />
+            </BarChart>
+          ) : (
+            <AreaChart data={chartData} margin={{ top: 10, right: 30, left: 0, bottom: 0 }}>
+              <defs>
+                <linearGradient id="colorPrincipal" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#10b981" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#10b981" stopOpacity={0}/>
+                </linearGradient>
+                <linearGradient id="colorInterest" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#a855f7" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#a855f7" stopOpacity={0}/>
+                </linearGradient>
+                <linearGradient id="colorOverdue" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#ef4444" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#ef4444" stopOpacity={0}/>
+                </linearGradient>
+                <linearGradient id="colorExpected" x1="0" y1="0" x2="0" y2="1">
+                  <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
+                  <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                </linearGradient>
+              </defs>
+              {axes}
+              <Area type="monotone" dataKey="receivedPrincipal" stackId="1" stroke="#10b981" fill="url(#colorPrincipal)" name="Capital Recuperado" />
+              <Area type="monotone" dataKey="receivedInterest" stackId="1" stroke="#a855f7" fill="url(#colorInterest)" name="Lucro (Juros)" />
+              <Area type="monotone" dataKey="overdue" stackId="1" stroke="#ef4444" fill="url(#colorOverdue)" name="Em Atraso" />
+              <Area type="monotone" dataKey="expected" stackId="1" stroke="#3b82f6" fill="url(#colorExpected)" name="A Receber" />
+            </AreaChart>
+          )}
         </ResponsiveContainer>
       </div>
     </div>
   );
-};
\ No newline at end of file
+};
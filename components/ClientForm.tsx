@@ -1,30 +1,51 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Client, Installment } from '../types';
-import { generateId, formatCurrency } from '../constants';
-import { Plus, Save, X, Calculator, StickyNote } from 'lucide-react';
+import { AmortizationMethod, Borrower, Client, Installment, LoanType, PaymentFrequency } from '../types';
+import { generateId, formatCurrency, toISODate } from '../constants';
+import { createBorrower, getPrimaryPhone, normalizeName } from '../services/borrowerService';
+import { FREQUENCY_LABELS, generateDueDates, getEquivalentMonthlyRate } from '../services/scheduleService';
+import { AMORTIZATION_LABELS, buildAmortizationSchedule } from '../services/amortizationService';
+import { syncRevolvingCharges } from '../services/revolvingService';
+import { BorrowerRisk, describeRisk, isHighRisk } from '../services/riskService';
+import { Plus, Save, X, Calculator, StickyNote, RefreshCw, AlertTriangle } from 'lucide-react';
 
 interface ClientFormProps {
-  onAddClient: (client: Client) => void;
+  onAddClient: (client: Client, newBorrower?: Borrower) => void; // newBorrower is set when the loan is for someone not yet registered
+  borrowers: Borrower[];
   onCancel: () => void;
   initialData?: Client | null;
+  renegotiateFrom?: Client | null; // Loan being renegotiated, its open balance becomes the new principal
+  renegotiationBalance?: number;
+  borrowerRisks: Map<string, BorrowerRisk>; // By borrower key, to warn before lending again to a high-risk borrower
 }
 
-export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, initialData }) => {
+export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, borrowers, onCancel, initialData, renegotiateFrom, renegotiationBalance = 0, borrowerRisks }) => {
+  const [borrowerId, setBorrowerId] = useState(''); // '' = new borrower
   const [name, setName] = useState('');
   const [amount, setAmount] = useState('');
   const [installments, setInstallments] = useState('');
   const [phone, setPhone] = useState('');
+  const [loanType, setLoanType] = useState<LoanType>('installment');
   const [installmentValue, setInstallmentValue] = useState('');
-  const [startDate, setStartDate] = useState(new Date().toISOString().split('T')[0]);
+  const [frequency, setFrequency] = useState<PaymentFrequency>('monthly');
+  const [frequencyDays, setFrequencyDays] = useState('10');
+  const [amortization, setAmortization] = useState<AmortizationMethod>('flat');
+  const [periodRate, setPeriodRate] = useState(''); // Rate per installment, for every method except flat
+  const [startDate, setStartDate] = useState(toISODate(new Date()));
   const [annotation, setAnnotation] = useState('');
 
   // Pre-fill form if duplicating
   useEffect(() => {
     if (initialData) {
+      setBorrowerId(initialData.borrowerId || '');
       setName(initialData.name);
       setPhone(initialData.phone);
       setAmount(initialData.principal.toString());
+      setLoanType(initialData.loanType || 'installment');
       setInstallments(initialData.installments.toString());
+      setFrequency(initialData.frequency || 'monthly');
+      setFrequencyDays((initialData.frequencyDays || 10).toString());
+      setAmortization(initialData.amortization || 'flat');
+      setPeriodRate(initialData.periodRate !== undefined ? initialData.periodRate.toString() : '');
       setAnnotation(initialData.annotation || '');
       
       // Try to get the installment value from the list
@@ -37,63 +58,155 @@ export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, i
     }
   }, [initialData]);
 
+  // Pre-fill form if renegotiating: borrower data is kept, the open balance becomes the principal
+  useEffect(() => {
+    if (renegotiateFrom) {
+      setBorrowerId(renegotiateFrom.borrowerId || '');
+      setName(renegotiateFrom.name);
+      setPhone(renegotiateFrom.phone);
+      setAmount(renegotiationBalance.toFixed(2));
+      setLoanType(renegotiateFrom.loanType || 'installment');
+      setFrequency(renegotiateFrom.frequency || 'monthly');
+      setFrequencyDays((renegotiateFrom.frequencyDays || 10).toString());
+      setAmortization(renegotiateFrom.amortization || 'flat');
+      setPeriodRate(renegotiateFrom.periodRate !== undefined ? renegotiateFrom.periodRate.toString() : '');
+      setInstallments('');
+      setInstallmentValue('');
+      setAnnotation(renegotiateFrom.annotation || '');
+    }
+  }, [renegotiateFrom, renegotiationBalance]);
+
+  const handleBorrowerSelect = (id: string) => {
+    setBorrowerId(id);
+    const borrower = borrowers.find(b => b.id === id);
+    if (borrower) {
+      setName(borrower.name);
+      setPhone(getPrimaryPhone(borrower));
+    }
+  };
+
+  const isRevolvingLoan = loanType === 'revolving';
+
+  // A typed name may belong to a registered borrower or to loans still grouped by name
+  const riskKey = borrowerId || (name.trim()
+    ? borrowers.find(b => normalizeName(b.name) === normalizeName(name))?.id || normalizeName(name)
+    : '');
+  const selectedRisk = riskKey ? borrowerRisks.get(riskKey) : undefined;
+
   // Real-time calculations
   const calculationStats = useMemo(() => {
     const principal = parseFloat(amount) || 0;
-    const inst = parseFloat(installments) || 0;
+    const inst = parseInt(installments, 10) || 0;
     const valParcela = parseFloat(installmentValue) || 0;
+    const rateInput = parseFloat(periodRate) || 0;
 
-    if (principal === 0 || inst === 0 || valParcela === 0) {
-      return { rate: 0, total: 0, profit: 0 };
+    // Revolving: no term, the preview is the interest of a single period
+    if (isRevolvingLoan) {
+      const charge = principal * rateInput / 100;
+      return { rate: rateInput, monthlyRate: getEquivalentMonthlyRate(rateInput, 1, frequency, parseInt(frequencyDays, 10) || 1), total: principal + charge, profit: charge, schedule: [] };
     }
 
-    const totalReceivable = valParcela * inst;
+    const isFlat = amortization === 'flat';
+    if (principal === 0 || inst === 0 || (isFlat && valParcela === 0)) {
+      return { rate: 0, monthlyRate: 0, total: 0, profit: 0, schedule: [] };
+    }
+
+    const schedule = buildAmortizationSchedule(principal, inst, amortization, rateInput, valParcela);
+    const totalReceivable = schedule.reduce((sum, row) => sum + row.value, 0);
     const profit = totalReceivable - principal;
     const rate = (profit / principal) * 100;
 
     return {
       rate: rate, // Can be negative if losing money
+      monthlyRate: getEquivalentMonthlyRate(rate, inst, frequency, parseInt(frequencyDays, 10) || 1),
       total: totalReceivable,
-      profit: profit
+      profit: profit,
+      schedule
     };
-  }, [amount, installments, installmentValue]);
+  }, [amount, installments, installmentValue, periodRate, amortization, frequency, frequencyDays, isRevolvingLoan]);
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
     const principal = parseFloat(amount);
     const inst = parseInt(installments);
     const valParcela = parseFloat(installmentValue);
+    const rateInput = parseFloat(periodRate);
+    const customDays = parseInt(frequencyDays, 10) || 1;
+
+    // Link to the selected borrower or register a new one
+    const existingBorrower = borrowers.find(b => b.id === borrowerId);
+
+    // Revolving ("juros mensais"): only interest is charged each period until the principal is repaid;
+    // the charges are generated as they come due
+    if (isRevolvingLoan) {
+      if (!name || isNaN(principal) || principal <= 0 || isNaN(rateInput)) return;
+      const newBorrower = existingBorrower ? undefined : createBorrower(name, phone);
+
+      const revolvingLoan: Client = {
+        id: generateId(),
+        borrowerId: existingBorrower ? existingBorrower.id : newBorrower!.id,
+        name: existingBorrower ? existingBorrower.name : name.trim(),
+        phone,
+        principal,
+        loanType: 'revolving',
+        principalPayments: [],
+        installments: 0,
+        frequency,
+        periodRate: rateInput,
+        interestRate: 0,
+        startDate: startDate,
+        status: 'Active',
+        installmentsList: [],
+        annotation: annotation,
+        isDeleted: false,
+        lastUpdated: Date.now()
+      };
+
+      if (frequency === 'custom') {
+        revolvingLoan.frequencyDays = customDays;
+      }
+
+      if (renegotiateFrom) {
+        revolvingLoan.renegotiatedFrom = renegotiateFrom.id;
+        revolvingLoan.rolledOverAmount = Math.min(renegotiationBalance, principal);
+      }
+
+      onAddClient(syncRevolvingCharges(revolvingLoan), newBorrower);
+      return;
+    }
+
+    // The schedule is empty without a positive principal and term, and the rate divides by the principal
+    if (!name || isNaN(principal) || isNaN(inst) || principal <= 0 || inst <= 0) return;
+    if (amortization === 'flat' ? isNaN(valParcela) : isNaN(rateInput)) return;
 
-    if (!name || isNaN(principal) || isNaN(inst) || isNaN(valParcela)) return;
+    // Principal/interest split per installment for the chosen amortization method
+    const schedule = buildAmortizationSchedule(principal, inst, amortization, rateInput || 0, valParcela || 0);
 
     // Calculate final rate to store in the standardized Client model
-    const totalReceivable = valParcela * inst;
+    const totalReceivable = schedule.reduce((sum, row) => sum + row.value, 0);
     const calculatedRate = ((totalReceivable - principal) / principal) * 100;
 
-    // Generate Installments List
-    const generatedInstallments: Installment[] = [];
-    const initialDate = new Date(startDate);
+    // Generate Installments List spaced by the chosen frequency
+    const generatedInstallments: Installment[] = generateDueDates(startDate, inst, frequency, customDays).map((dueDate, index) => ({
+        number: index + 1,
+        dueDate,
+        value: schedule[index].value,
+        isPaid: false,
+        principalPart: schedule[index].principalPart,
+        interestPart: schedule[index].interestPart
+    }));
 
-    for (let i = 1; i <= inst; i++) {
-        // Create a new date object for each month to avoid reference issues
-        const dueDate = new Date(initialDate);
-        // Assuming 1 month gap between installments
-        dueDate.setMonth(initialDate.getMonth() + i);
-        
-        generatedInstallments.push({
-            number: i,
-            dueDate: dueDate.toISOString().split('T')[0],
-            value: valParcela,
-            isPaid: false
-        });
-    }
+    const newBorrower = existingBorrower ? undefined : createBorrower(name, phone);
 
     const newClient: Client = {
       id: generateId(),
-      name,
+      borrowerId: existingBorrower ? existingBorrower.id : newBorrower!.id,
+      name: existingBorrower ? existingBorrower.name : name.trim(),
       phone,
       principal,
       installments: inst,
+      frequency,
+      amortization,
       interestRate: calculatedRate, // Storing the derived rate
       startDate: startDate,
       status: 'Active',
@@ -103,32 +216,79 @@ export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, i
       lastUpdated: Date.now()
     };
 
-    onAddClient(newClient);
+    if (frequency === 'custom') {
+      newClient.frequencyDays = customDays;
+    }
+
+    if (amortization !== 'flat') {
+      newClient.periodRate = rateInput;
+    }
+
+    if (renegotiateFrom) {
+      newClient.renegotiatedFrom = renegotiateFrom.id;
+      // Anything above the old balance is new money; a lower principal is a discount on the old loan
+      newClient.rolledOverAmount = Math.min(renegotiationBalance, principal);
+    }
+
+    onAddClient(newClient, newBorrower);
   };
 
   return (
     <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 mb-8 shadow-lg animate-fade-in">
       <div className="flex justify-between items-center mb-4">
         <h3 className="text-lg font-bold text-white flex items-center gap-2">
-          <Plus size={20} className="text-emerald-400" /> {initialData ? 'Duplicar Empréstimo' : 'Novo Cliente'}
+          {renegotiateFrom ? (
+            <><RefreshCw size={20} className="text-purple-400" /> Renegociar Empréstimo</>
+          ) : (
+            <><Plus size={20} className="text-emerald-400" /> {initialData ? 'Duplicar Empréstimo' : 'Novo Cliente'}</>
+          )}
         </h3>
         <button onClick={onCancel} className="text-slate-400 hover:text-white">
           <X size={20} />
         </button>
       </div>
+
+      {renegotiateFrom && (
+        <div className="bg-purple-500/10 border border-purple-500/30 text-purple-300 text-sm p-3 rounded-lg mb-4">
+          O saldo em aberto de <b>{formatCurrency(renegotiationBalance)}</b> do empréstimo iniciado em {renegotiateFrom.startDate.split('-').reverse().join('/')} será transferido para este novo cronograma. As parcelas restantes do empréstimo original serão encerradas como renegociadas.
+        </div>
+      )}
+
+      {selectedRisk && isHighRisk(selectedRisk) && (
+        <div className="bg-red-500/10 border border-red-500/30 text-red-300 text-sm p-3 rounded-lg mb-4 flex items-start gap-2">
+          <AlertTriangle size={16} className="shrink-0 mt-0.5" />
+          <span>
+            <b>Atenção: cliente de risco {selectedRisk.grade}.</b> {describeRisk(selectedRisk)}
+            {selectedRisk.exposure > 0 && <> · em aberto {formatCurrency(selectedRisk.exposure)}</>}.
+          </span>
+        </div>
+      )}
       
       <form onSubmit={handleSubmit} className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
         
         <div>
           <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Nome do Cliente</label>
-          <input 
-            type="text" 
-            value={name} 
-            onChange={(e) => setName(e.target.value)}
-            className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500"
-            placeholder="Ex: João Silva"
-            required
-          />
+          <select
+            value={borrowerId}
+            onChange={(e) => handleBorrowerSelect(e.target.value)}
+            className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 mb-2 focus:outline-none focus:border-emerald-500 text-sm"
+            disabled={!!renegotiateFrom}
+          >
+            <option value="">+ Novo cliente</option>
+            {[...borrowers].sort((a, b) => a.name.localeCompare(b.name)).map(b => (
+              <option key={b.id} value={b.id}>{b.name}{b.document ? ` (${b.document})` : ''}</option>
+            ))}
+          </select>
+          {!borrowerId && (
+            <input 
+              type="text" 
+              value={name} 
+              onChange={(e) => setName(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500"
+              placeholder="Ex: João Silva"
+              required
+            />
+          )}
         </div>
 
         <div>
@@ -164,38 +324,132 @@ export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, i
               className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg pl-8 pr-4 py-2 focus:outline-none focus:border-emerald-500"
               placeholder="0.00"
               step="0.01"
+              min="0.01"
               required
             />
           </div>
         </div>
 
         <div>
-          <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Qtde. Parcelas</label>
-          <input 
-            type="number" 
-            value={installments} 
-            onChange={(e) => setInstallments(e.target.value)}
+          <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Tipo de Empréstimo</label>
+          <select
+            value={loanType}
+            onChange={(e) => setLoanType(e.target.value as LoanType)}
             className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500"
-            placeholder="Ex: 10"
-            required
-          />
+          >
+            <option value="installment">Parcelado</option>
+            <option value="revolving">Juros mensais (rotativo)</option>
+          </select>
         </div>
 
+        {!isRevolvingLoan && (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Qtde. Parcelas</label>
+            <input 
+              type="number" 
+              value={installments} 
+              onChange={(e) => setInstallments(e.target.value)}
+              className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500"
+              placeholder="Ex: 10"
+              min="1"
+              step="1"
+              required
+            />
+          </div>
+        )}
+
         <div>
-          <label className="block text-xs text-emerald-400 mb-1 uppercase font-bold">Valor da Parcela</label>
-          <div className="relative">
-             <span className="absolute left-3 top-2 text-emerald-600">R$</span>
+          <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Frequência</label>
+          <div className="flex gap-2">
+            <select
+              value={frequency}
+              onChange={(e) => setFrequency(e.target.value as PaymentFrequency)}
+              className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500"
+            >
+              {(Object.keys(FREQUENCY_LABELS) as PaymentFrequency[]).map(f => (
+                <option key={f} value={f}>{FREQUENCY_LABELS[f]}</option>
+              ))}
+            </select>
+            {frequency === 'custom' && (
+              <input 
+                type="number" 
+                min="1"
+                value={frequencyDays} 
+                onChange={(e) => setFrequencyDays(e.target.value)}
+                className="w-24 bg-slate-900 border border-slate-700 text-white rounded-lg px-3 py-2 focus:outline-none focus:border-emerald-500"
+                title="Intervalo em dias"
+                required
+              />
+            )}
+          </div>
+        </div>
+
+        {!isRevolvingLoan && (
+          <div>
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Amortização</label>
+            <select
+              value={amortization}
+              onChange={(e) => setAmortization(e.target.value as AmortizationMethod)}
+              className="w-full bg-slate-900 border border-slate-700 text-white rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-500"
+            >
+              {(Object.keys(AMORTIZATION_LABELS) as AmortizationMethod[]).map(m => (
+                <option key={m} value={m}>{AMORTIZATION_LABELS[m]}</option>
+              ))}
+            </select>
+          </div>
+        )}
+
+        {isRevolvingLoan ? (
+          <div>
+            <label className="block text-xs text-emerald-400 mb-1 uppercase font-bold">Juros por Período (%)</label>
             <input 
               type="number" 
-              value={installmentValue} 
-              onChange={(e) => setInstallmentValue(e.target.value)}
-              className="w-full bg-slate-900 border border-emerald-500/50 text-emerald-300 font-bold rounded-lg pl-8 pr-4 py-2 focus:outline-none focus:border-emerald-400 focus:ring-1 focus:ring-emerald-400"
-              placeholder="0.00"
+              value={periodRate} 
+              onChange={(e) => setPeriodRate(e.target.value)}
+              className="w-full bg-slate-900 border border-emerald-500/50 text-emerald-300 font-bold rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-400 focus:ring-1 focus:ring-emerald-400"
+              placeholder="Ex: 20"
               step="0.01"
+              min="0"
               required
             />
+            <p className="text-[10px] text-slate-500 mt-1">Cobrado sobre o saldo devedor até o principal ser quitado.</p>
           </div>
-        </div>
+        ) : amortization === 'flat' ? (
+          <div>
+            <label className="block text-xs text-emerald-400 mb-1 uppercase font-bold">Valor da Parcela</label>
+            <div className="relative">
+               <span className="absolute left-3 top-2 text-emerald-600">R$</span>
+              <input 
+                type="number" 
+                value={installmentValue} 
+                onChange={(e) => setInstallmentValue(e.target.value)}
+                className="w-full bg-slate-900 border border-emerald-500/50 text-emerald-300 font-bold rounded-lg pl-8 pr-4 py-2 focus:outline-none focus:border-emerald-400 focus:ring-1 focus:ring-emerald-400"
+                placeholder="0.00"
+                step="0.01"
+                required
+              />
+            </div>
+          </div>
+        ) : (
+          <div>
+            <label className="block text-xs text-emerald-400 mb-1 uppercase font-bold">Taxa por Parcela (%)</label>
+            <input 
+              type="number" 
+              value={periodRate} 
+              onChange={(e) => setPeriodRate(e.target.value)}
+              className="w-full bg-slate-900 border border-emerald-500/50 text-emerald-300 font-bold rounded-lg px-4 py-2 focus:outline-none focus:border-emerald-400 focus:ring-1 focus:ring-emerald-400"
+              placeholder="Ex: 10"
+              step="0.01"
+              min="0"
+              required
+            />
+            {calculationStats.schedule.length > 0 && (
+              <p className="text-[10px] text-slate-500 mt-1">
+                1ª parcela {formatCurrency(calculationStats.schedule[0].value)} · última {formatCurrency(calculationStats.schedule[calculationStats.schedule.length - 1].value)}
+              </p>
+            )}
+          </div>
+        )}
 
         <div className="col-span-1 md:col-span-2 lg:col-span-3">
           <label className="block text-xs text-slate-400 mb-1 uppercase font-bold flex items-center gap-1">
@@ -216,7 +470,7 @@ export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, i
                     <Calculator size={20} className="text-purple-400" />
                 </div>
                 <div>
-                    <p className="text-xs text-slate-400 uppercase">Retorno Total</p>
+                    <p className="text-xs text-slate-400 uppercase">{isRevolvingLoan ? 'Quitação após 1 Período' : 'Retorno Total'}</p>
                     <p className="text-lg font-bold text-white">{formatCurrency(calculationStats.total)}</p>
                 </div>
             </div>
@@ -224,7 +478,7 @@ export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, i
             <div className="h-8 w-px bg-slate-700 hidden md:block"></div>
 
             <div>
-                <p className="text-xs text-slate-400 uppercase">Lucro Previsto</p>
+                <p className="text-xs text-slate-400 uppercase">{isRevolvingLoan ? 'Juros por Período' : 'Lucro Previsto'}</p>
                 <p className="text-lg font-bold text-emerald-400">+{formatCurrency(calculationStats.profit)}</p>
             </div>
 
@@ -235,6 +489,7 @@ export const ClientForm: React.FC<ClientFormProps> = ({ onAddClient, onCancel, i
                 <p className={`text-lg font-bold ${calculationStats.rate >= 0 ? 'text-blue-400' : 'text-red-400'}`}>
                     {calculationStats.rate.toFixed(2)}%
                 </p>
+                <p className="text-[10px] text-slate-500">≈ {calculationStats.monthlyRate.toFixed(2)}% a.m.</p>
             </div>
 
              <div className="flex-grow flex justify-end">
@@ -1,56 +1,122 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Client, Installment } from '../types';
-import { formatCurrency, getDaysUntilDue, generateWhatsAppLink } from '../constants';
-import { Phone, User, Calendar, Trash2, ChevronDown, ChevronUp, CheckCircle, TrendingUp, Copy, Layers, AlertTriangle, MessageCircle, Clock, CalendarDays, DollarSign } from 'lucide-react';
+import { Borrower, Client, ContactAttempt, Installment, PaymentEntry, LateFeeSettings, MessageSettings, WorkspaceMember } from '../types';
+import { formatCurrency, getDaysUntilDue } from '../constants';
+import { getInstallmentPaidAmount, getInstallmentRemaining, getInstallmentPaymentStatus } from '../services/paymentService';
+import { calculateLateFee, getClientLateFeesAccrued } from '../services/lateFeeService';
+import { getLoanInvested, getLoanExpectedRevenue, getLoanProfit, getLoanOutstanding, getRenegotiationChain } from '../services/loanService';
+import { isRevolving, getOutstandingPrincipal, getPrincipalRepaid, syncRevolvingCharges } from '../services/revolvingService';
+import { getBorrowerKey } from '../services/borrowerService';
+import { Permissions } from '../services/permissionService';
+import { getReminderLink } from '../services/messageTemplateService';
+import { ContactDraft, PROMISE_STATUS_LABELS, getContactsForBorrower, getOpenPromises } from '../services/contactService';
+import { getDueSoonDays, getFrequencyLabel, getEquivalentMonthlyRate } from '../services/scheduleService';
+import { AMORTIZATION_LABELS, getInstallmentSplit, rescaleInstallmentSplits } from '../services/amortizationService';
+import { BorrowerRisk, RiskGrade, RISK_GRADES, RISK_GRADE_COLORS, describeRisk, isHighRisk } from '../services/riskService';
+import { PaymentLedgerModal } from './PaymentLedgerModal';
+import { BorrowerModal } from './BorrowerModal';
+import { PrincipalPaydownModal } from './PrincipalPaydownModal';
+import { ShareDocumentModal } from './ShareDocumentModal';
+import { ContactLogModal, PROMISE_STATUS_COLORS } from './ContactLogModal';
+import { PixQrModal } from './PixQrModal';
+import { LoanDocument, buildReceipt, buildStatement } from '../services/receiptService';
+import { Phone, User, Calendar, Trash2, ChevronDown, ChevronUp, CheckCircle, TrendingUp, Copy, Layers, AlertTriangle, MessageCircle, Clock, CalendarDays, DollarSign, Wallet, RefreshCw, ArrowRight, IdCard, Landmark, History, FileText, Receipt, PhoneCall, QrCode } from 'lucide-react';
 
 interface ClientListProps {
   clients: Client[];
+  borrowerRisks: Map<string, BorrowerRisk>; // By borrower key, from all of their loans
   onDelete: (id: string) => void;
   onTogglePayment: (clientId: string, installmentNumber: number) => void;
+  onAddPayment: (clientId: string, installmentNumber: number, payment: Omit<PaymentEntry, 'id'>) => void;
+  onRemovePayment: (clientId: string, installmentNumber: number, paymentId: string) => void;
+  onAddPrincipalPayment: (clientId: string, payment: Omit<PaymentEntry, 'id'>) => void;
+  onRemovePrincipalPayment: (clientId: string, paymentId: string) => void;
   onDuplicate: (client: Client) => void;
+  onRenegotiate: (client: Client) => void;
+  borrowers: Borrower[];
+  onSaveBorrower: (borrower: Borrower) => void;
+  onMergeBorrowers: (sourceId: string, targetId: string) => void;
+  onMoveLoan: (loanId: string, targetBorrowerId: string | null) => void;
   onUpdateAnnotation: (id: string, note: string) => void;
   onUpdateClient: (client: Client) => void;
+  onShowHistory: (type: 'loan' | 'borrower', id: string) => void;
+  permissions: Permissions;
+  collectors: WorkspaceMember[]; // Candidates for borrower assignment
   warningDays: number;
-  focusTarget?: { name: string, timestamp: number } | null;
+  lateFeeSettings: LateFeeSettings;
+  messageSettings: MessageSettings; // WhatsApp reminder templates
+  contacts: ContactAttempt[];
+  onLogContact: (borrowerKey: string, name: string, draft: ContactDraft) => void;
+  focusTarget?: { borrowerId: string, timestamp: number } | null;
 }
 
 interface GroupedClient {
+  key: string; // borrowerId (see getBorrowerKey)
+  borrower?: Borrower;
   name: string;
   phone: string;
   loans: Client[];
   totalPrincipal: number;
   totalReturn: number;
   totalProfit: number;
-  overallStatus: 'Active' | 'Completed' | 'Late' | 'Warning';
+  totalOutstanding: number;
+  totalLateFees: number;
+  overallStatus: 'Active' | 'Completed' | 'Late' | 'Warning' | 'Renegotiated';
   earliestDate: string;
   totalPaidCount: number;
   totalInstallmentCount: number;
 }
 
-export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTogglePayment, onDuplicate, onUpdateAnnotation, onUpdateClient, warningDays, focusTarget }) => {
-  // Use Name as the key for expansion since we are grouping by name
+export const ClientList: React.FC<ClientListProps> = ({ clients, borrowerRisks, onDelete, onTogglePayment, onAddPayment, onRemovePayment, onAddPrincipalPayment, onRemovePrincipalPayment, onDuplicate, onRenegotiate, borrowers, onSaveBorrower, onMergeBorrowers, onMoveLoan, onUpdateAnnotation, onUpdateClient, onShowHistory, permissions, collectors, warningDays, lateFeeSettings, messageSettings, contacts, onLogContact, focusTarget }) => {
+  // Use the borrower key for expansion since we are grouping by borrower
   const [expandedClientName, setExpandedClientName] = useState<string | null>(null);
 
-  const toggleExpand = (name: string) => {
-    setExpandedClientName(expandedClientName === name ? null : name);
+  // Borrower whose registration (edit / merge / split) is open
+  const [editingBorrowerId, setEditingBorrowerId] = useState<string | null>(null);
+
+  // Installment whose payment ledger is open (looked up from props so the modal reflects live data)
+  const [ledgerTarget, setLedgerTarget] = useState<{ clientId: string, installmentNumber: number } | null>(null);
+
+  // Revolving loan whose principal paydowns are open
+  const [paydownLoanId, setPaydownLoanId] = useState<string | null>(null);
+
+  // Borrower (key) whose contact log is open
+  const [contactTarget, setContactTarget] = useState<string | null>(null);
+
+  // Installment whose PIX QR code is open
+  const [pixTarget, setPixTarget] = useState<{ clientId: string, installmentNumber: number } | null>(null);
+
+  // Generated receipt or statement being previewed / shared
+  const [sharedDocument, setSharedDocument] = useState<{ document: LoanDocument, phone: string } | null>(null);
+
+  // Row order and risk grade filter ('high' = D and E)
+  const [sortBy, setSortBy] = useState<'name' | 'risk'>('name');
+  const [riskFilter, setRiskFilter] = useState<RiskGrade | 'high' | 'all'>('all');
+
+  const toggleExpand = (key: string) => {
+    setExpandedClientName(expandedClientName === key ? null : key);
   };
 
-  // Group clients by Name
+  // Group loans by Borrower
   const groupedClients = useMemo(() => {
     const groups: Record<string, GroupedClient> = {};
+    const borrowersById = new Map<string, Borrower>(borrowers.map(b => [b.id, b]));
 
     clients.forEach(client => {
-      // Use lower case for key to unify 'Joao' and 'joao'
-      const key = client.name.trim().toLowerCase();
+      const key = getBorrowerKey(client);
       
       if (!groups[key]) {
+        const borrower = client.borrowerId ? borrowersById.get(client.borrowerId) : undefined;
         groups[key] = {
-          name: client.name, // Display the first name found (preserves casing of first entry)
+          key,
+          borrower,
+          name: borrower ? borrower.name : client.name,
           phone: client.phone,
           loans: [],
           totalPrincipal: 0,
           totalReturn: 0,
           totalProfit: 0,
+          totalOutstanding: 0,
+          totalLateFees: 0,
           overallStatus: 'Completed', // Start with Completed, downgrade based on finding
           earliestDate: client.startDate,
           totalPaidCount: 0,
@@ -61,11 +127,12 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
       const g = groups[key];
       g.loans.push(client);
       
-      // Accumulate Financials
-      const clientReturn = client.principal * (1 + client.interestRate / 100);
-      g.totalPrincipal += client.principal;
-      g.totalReturn += clientReturn;
-      g.totalProfit += (clientReturn - client.principal);
+      // Accumulate Financials (rolled over balances are not counted again)
+      g.totalPrincipal += getLoanInvested(client);
+      g.totalReturn += getLoanExpectedRevenue(client);
+      g.totalProfit += getLoanProfit(client);
+      g.totalOutstanding += getLoanOutstanding(client);
+      g.totalLateFees += getClientLateFeesAccrued(client, lateFeeSettings);
 
       // Accumulate Progress
       const paidCount = client.installmentsList ? client.installmentsList.filter(i => i.isPaid).length : 0;
@@ -83,10 +150,10 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
       let hasActive = false;
 
       client.installmentsList.forEach(inst => {
-          if (!inst.isPaid) {
+          if (!inst.isPaid && !inst.isRenegotiated) {
               const days = getDaysUntilDue(inst.dueDate);
               if (days < 0) hasOverdue = true;
-              else if (days <= 1) hasWarning = true; // Today (0) or Tomorrow (1)
+              else if (days <= getDueSoonDays(client.frequency, 1)) hasWarning = true; // Today (0) or Tomorrow (1), only today for daily loans
               else hasActive = true;
           }
       });
@@ -103,18 +170,17 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
 
     // Sort groups alphabetically
     return Object.values(groups).sort((a, b) => a.name.localeCompare(b.name));
-  }, [clients]);
+  }, [clients, borrowers, lateFeeSettings]);
 
   // Handle auto-focus/scroll from notifications
   useEffect(() => {
     if (focusTarget) {
       // 1. Expand the client
-      setExpandedClientName(focusTarget.name);
+      setExpandedClientName(focusTarget.borrowerId);
       
       // 2. Scroll to the row (wait briefly for expansion to render/state to settle)
       setTimeout(() => {
-        // We sanitize the name for ID usage just in case, though the key in the loop below matches exact name
-        const element = document.getElementById(`client-row-${focusTarget.name}`);
+        const element = document.getElementById(`client-row-${focusTarget.borrowerId}`);
         if (element) {
           element.scrollIntoView({ behavior: 'smooth', block: 'start' });
         }
@@ -122,8 +188,9 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
     }
   }, [focusTarget]);
 
-  const getInstallmentStatusColor = (installment: Installment) => {
+  const getInstallmentStatusColor = (installment: Installment, loan: Client) => {
     if (installment.isPaid) return 'bg-emerald-500/10 border-emerald-500/50 text-emerald-400';
+    if (installment.isRenegotiated) return 'bg-purple-500/5 border-purple-500/30 text-purple-300/70';
     
     const days = getDaysUntilDue(installment.dueDate);
 
@@ -131,26 +198,29 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
     if (days < 0) return 'bg-red-500/10 border-red-500/50 text-red-400'; 
     
     // 2. Urgent: Today or Tomorrow (Laranja)
-    // covers days 0 and 1
-    if (days <= 1) return 'bg-orange-500/10 border-orange-500/50 text-orange-400'; 
+    // covers days 0 and 1 (only 0 for daily loans, see getDueSoonDays)
+    if (days <= getDueSoonDays(loan.frequency, 1)) return 'bg-orange-500/10 border-orange-500/50 text-orange-400'; 
     
     // 3. Warning Setting (Amarelo)
     // This catches days > 1 but <= warningDays
-    if (days <= warningDays) return 'bg-yellow-500/10 border-yellow-500/50 text-yellow-400';
+    if (days <= getDueSoonDays(loan.frequency, warningDays)) return 'bg-yellow-500/10 border-yellow-500/50 text-yellow-400';
 
     // 4. Future (Neutro/Verde)
     return 'bg-slate-700/50 border-slate-600 text-slate-300'; 
   };
 
-  const getStatusText = (installment: Installment) => {
+  const getStatusText = (installment: Installment, loan: Client) => {
     if (installment.isPaid) return 'PAGO';
+    if (installment.isRenegotiated) return 'RENEGOCIADO';
     
     const days = getDaysUntilDue(installment.dueDate);
+    const isPartial = getInstallmentPaymentStatus(installment) === 'Partial';
 
-    if (days < 0) return 'VENCIDO';
+    if (days < 0) return isPartial ? 'VENCIDO (PARCIAL)' : 'VENCIDO';
+    if (isPartial) return 'PARCIAL';
     if (days === 0) return 'VENCE HOJE';
     if (days === 1) return 'AMANHÃ';
-    if (days > 1 && days <= warningDays) return `EM ${days} DIAS`;
+    if (days > 1 && days <= getDueSoonDays(loan.frequency, warningDays)) return `EM ${days} DIAS`;
     
     return 'ABERTO';
   }
@@ -159,6 +229,7 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
     switch(status) {
         case 'Completed': return <span className="bg-blue-500/20 text-blue-400 text-[10px] px-2 py-0.5 rounded border border-blue-500/30 uppercase font-bold">Concluído</span>;
         case 'Late': return <span className="bg-red-500/20 text-red-400 text-[10px] px-2 py-0.5 rounded border border-red-500/30 uppercase font-bold flex items-center gap-1"><AlertTriangle size={10} /> Atrasado</span>;
+        case 'Renegotiated': return <span className="bg-purple-500/20 text-purple-400 text-[10px] px-2 py-0.5 rounded border border-purple-500/30 uppercase font-bold flex items-center gap-1"><RefreshCw size={10} /> Renegociado</span>;
         case 'Warning': return <span className="bg-orange-500/20 text-orange-400 text-[10px] px-2 py-0.5 rounded border border-orange-500/30 uppercase font-bold flex items-center gap-1"><Clock size={10} /> Vence Logo</span>;
         default: return <span className="bg-emerald-500/20 text-emerald-400 text-[10px] px-2 py-0.5 rounded border border-emerald-500/30 uppercase font-bold">Ativo</span>;
     }
@@ -179,6 +250,12 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
     const newPrincipal = parseFloat(newPrincipalStr);
     if (isNaN(newPrincipal) || newPrincipal <= 0) return;
 
+    // Revolving charges follow the balance, recompute the open ones
+    if (isRevolving(loan)) {
+      onUpdateClient(syncRevolvingCharges({ ...loan, principal: newPrincipal, installmentsList: loan.installmentsList.filter(i => i.isPaid || (i.payments || []).length > 0) }));
+      return;
+    }
+
     // Calculate total receivable based on existing installments
     const totalReceivable = loan.installmentsList.reduce((sum, inst) => sum + inst.value, 0);
     
@@ -191,10 +268,37 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
     onUpdateClient({
       ...loan,
       principal: newPrincipal,
-      interestRate: newRate
+      interestRate: newRate,
+      installmentsList: rescaleInstallmentSplits(loan, newPrincipal)
     });
   };
 
+  const openReceipt = (loan: Client, installment: Installment, paymentId?: string) => {
+    const borrower = loan.borrowerId ? borrowers.find(b => b.id === loan.borrowerId) : undefined;
+    setSharedDocument({ document: buildReceipt(loan, installment, messageSettings.senderName, borrower, paymentId), phone: loan.phone });
+  };
+
+  const openPromises = useMemo(() => getOpenPromises(contacts, clients), [contacts, clients]);
+  const contactGroup = contactTarget ? groupedClients.find(g => g.key === contactTarget) : undefined;
+
+  const visibleGroups = useMemo(() => {
+    const matches = (risk?: BorrowerRisk) => riskFilter === 'all' || (!!risk && (riskFilter === 'high' ? isHighRisk(risk) : risk.grade === riskFilter));
+    const filtered = groupedClients.filter(g => matches(borrowerRisks.get(g.key)));
+    if (sortBy === 'name') return filtered;
+    // Riskiest first, groupedClients is already sorted by name for ties
+    return [...filtered].sort((a, b) => (borrowerRisks.get(b.key)?.score ?? 0) - (borrowerRisks.get(a.key)?.score ?? 0));
+  }, [groupedClients, borrowerRisks, sortBy, riskFilter]);
+
+  const editingBorrower = editingBorrowerId ? borrowers.find(b => b.id === editingBorrowerId && !b.isDeleted) : undefined;
+
+  const paydownLoan = paydownLoanId ? clients.find(c => c.id === paydownLoanId) : undefined;
+
+  const ledgerLoan = ledgerTarget ? clients.find(c => c.id === ledgerTarget.clientId) : undefined;
+  const ledgerInstallment = ledgerLoan?.installmentsList.find(i => i.number === ledgerTarget?.installmentNumber);
+
+  const pixLoan = pixTarget ? clients.find(c => c.id === pixTarget.clientId) : undefined;
+  const pixInstallment = pixLoan?.installmentsList.find(i => i.number === pixTarget?.installmentNumber);
+
   if (clients.length === 0) {
     return (
       <div className="text-center py-12 bg-slate-800/50 border border-slate-700/50 rounded-xl border-dashed">
@@ -205,11 +309,37 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
 
   return (
     <div className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-lg">
+      <div className="flex flex-wrap items-center justify-between gap-3 px-6 py-3 border-b border-slate-700 bg-slate-900/50">
+        <div className="flex items-center gap-1 text-xs">
+          <span className="text-slate-500 mr-1">Risco:</span>
+          {(['all', ...RISK_GRADES, 'high'] as const).map(option => (
+            <button
+              key={option}
+              onClick={() => setRiskFilter(option)}
+              className={`px-2 py-1 rounded border font-bold transition-colors ${riskFilter === option ? 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' : 'text-slate-400 border-slate-700 hover:text-white'}`}
+            >
+              {option === 'all' ? 'Todos' : option === 'high' ? 'Alto (D/E)' : option}
+            </button>
+          ))}
+        </div>
+        <label className="text-xs text-slate-500 flex items-center gap-2">
+          Ordenar por
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as 'name' | 'risk')}
+            className="bg-slate-950 border border-slate-800 text-white rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-emerald-500"
+          >
+            <option value="name">Nome</option>
+            <option value="risk">Maior risco</option>
+          </select>
+        </label>
+      </div>
       <div className="overflow-x-auto">
         <table className="w-full text-left text-sm">
           <thead className="bg-slate-900 text-slate-400 uppercase font-bold">
             <tr>
               <th className="px-6 py-4">Cliente</th>
+              <th className="px-6 py-4">Risco</th>
               <th className="px-6 py-4">Total Principal</th>
               <th className="px-6 py-4">Progresso Global</th>
               <th className="px-6 py-4">Retorno Total</th>
@@ -217,8 +347,14 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
             </tr>
           </thead>
           <tbody className="divide-y divide-slate-700">
-            {groupedClients.map((group) => {
-              const isExpanded = expandedClientName === group.name;
+            {visibleGroups.length === 0 && (
+              <tr>
+                <td colSpan={6} className="px-6 py-8 text-center text-slate-500">Nenhum cliente com este nível de risco.</td>
+              </tr>
+            )}
+            {visibleGroups.map((group) => {
+              const risk = borrowerRisks.get(group.key);
+              const isExpanded = expandedClientName === group.key;
               const globalProgress = group.totalInstallmentCount > 0 
                 ? (group.totalPaidCount / group.totalInstallmentCount) * 100 
                 : 0;
@@ -227,12 +363,12 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
               const isWarning = group.overallStatus === 'Warning';
 
               return (
-                <React.Fragment key={group.name}>
+                <React.Fragment key={group.key}>
                   <tr 
-                    id={`client-row-${group.name}`}
+                    id={`client-row-${group.key}`}
                     className={`transition-all border-l-4 ${getRowStyle(isLate, isWarning, isExpanded)}`}
                   >
-                    <td className="px-6 py-4 cursor-pointer" onClick={() => toggleExpand(group.name)}>
+                    <td className="px-6 py-4 cursor-pointer" onClick={() => toggleExpand(group.key)}>
                       <div className="flex flex-col">
                         <span className="font-medium text-white flex flex-wrap items-center gap-2">
                           <div className="flex items-center gap-2">
@@ -253,8 +389,28 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                             <Phone size={12} /> {group.phone}
                           </span>
                         )}
+                        {openPromises.has(group.key) && (
+                          <span className={`text-[10px] font-bold px-2 py-0.5 rounded border mt-1 self-start ${PROMISE_STATUS_COLORS[openPromises.get(group.key)!.status]}`}>
+                            {PROMISE_STATUS_LABELS[openPromises.get(group.key)!.status]} · {openPromises.get(group.key)!.promise.promisedDate!.split('-').reverse().join('/')}
+                          </span>
+                        )}
+                        {group.borrower?.document && (
+                          <span className="text-xs text-slate-500 font-mono mt-0.5">CPF {group.borrower.document}</span>
+                        )}
+                        {group.borrower?.collectorId && collectors.length > 0 && (
+                          <span className="text-xs text-blue-400/80 mt-0.5">
+                            Cobrador: {collectors.find(c => c.id === group.borrower!.collectorId)?.name || 'removido da equipe'}
+                          </span>
+                        )}
                       </div>
                     </td>
+                    <td className="px-6 py-4">
+                      {risk && (
+                        <span className={`text-xs font-bold px-2 py-0.5 rounded border ${RISK_GRADE_COLORS[risk.grade]}`} title={describeRisk(risk)}>
+                          {risk.grade}
+                        </span>
+                      )}
+                    </td>
                     <td className="px-6 py-4 text-slate-300 font-mono">
                       {formatCurrency(group.totalPrincipal)}
                     </td>
@@ -277,12 +433,54 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                           <span className="text-xs text-emerald-400">
                               Lucro: +{formatCurrency(group.totalProfit)}
                           </span>
+                          {group.totalOutstanding > 0 && (
+                            <span className="text-xs text-orange-400">
+                                Em aberto: {formatCurrency(group.totalOutstanding)}
+                            </span>
+                          )}
+                          {group.totalLateFees > 0 && (
+                            <span className="text-xs text-red-400">
+                                Encargos: +{formatCurrency(group.totalLateFees)}
+                            </span>
+                          )}
                       </div>
                     </td>
                     <td className="px-6 py-4 text-right">
                       <div className="flex items-center justify-end gap-2">
+                        {group.borrower && permissions.editBorrowers && (
+                          <button 
+                              onClick={() => setEditingBorrowerId(group.borrower!.id)}
+                              className="text-slate-400 hover:text-blue-400 p-2 bg-slate-700/50 rounded-lg hover:bg-slate-600 transition-all"
+                              title="Cadastro, mesclar ou separar"
+                          >
+                              <IdCard size={16} />
+                          </button>
+                        )}
+                        <button 
+                            onClick={() => setContactTarget(group.key)}
+                            className="text-slate-400 hover:text-blue-400 p-2 bg-slate-700/50 rounded-lg hover:bg-slate-600 transition-all"
+                            title="Contatos e promessas de pagamento"
+                        >
+                            <PhoneCall size={16} />
+                        </button>
+                        {group.borrower && permissions.viewHistory && (
+                          <button 
+                              onClick={() => onShowHistory('borrower', group.borrower!.id)}
+                              className="text-slate-400 hover:text-blue-400 p-2 bg-slate-700/50 rounded-lg hover:bg-slate-600 transition-all"
+                              title="Histórico de alterações"
+                          >
+                              <History size={16} />
+                          </button>
+                        )}
                         <button 
-                            onClick={() => toggleExpand(group.name)}
+                            onClick={() => setSharedDocument({ document: buildStatement(group.name, group.loans, lateFeeSettings, messageSettings.senderName, group.borrower), phone: group.phone })}
+                            className="text-slate-400 hover:text-blue-400 p-2 bg-slate-700/50 rounded-lg hover:bg-slate-600 transition-all"
+                            title="Extrato do cliente (PDF)"
+                        >
+                            <FileText size={16} />
+                        </button>
+                        <button 
+                            onClick={() => toggleExpand(group.key)}
                             className="text-slate-400 hover:text-white p-2 flex items-center gap-1 text-xs uppercase font-bold bg-slate-700/50 rounded-lg hover:bg-slate-600 transition-all"
                         >
                             {isExpanded ? (
@@ -298,21 +496,26 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                   {/* Expanded Details - List of Loans */}
                   {isExpanded && (
                       <tr className="bg-slate-800/80 shadow-inner">
-                          <td colSpan={5} className="p-0">
+                          <td colSpan={6} className="p-0">
                             <div className="flex flex-col gap-1 bg-slate-900/30 p-4">
                                 {group.loans.map((loan, index) => {
-                                    const loanTotalReturn = loan.principal * (1 + loan.interestRate / 100);
-                                    const loanProfit = loanTotalReturn - loan.principal;
+                                    const loanProfit = getLoanProfit(loan);
+                                    const renegotiationChain = getRenegotiationChain(loan, clients);
+                                    const canRenegotiate = loan.status !== 'Completed' && loan.status !== 'Renegotiated';
                                     
                                     // Calculate last installment date (Vencimento Final)
                                     const lastInstallment = loan.installmentsList.length > 0 ? loan.installmentsList[loan.installmentsList.length - 1] : null;
                                     const endDateFormatted = lastInstallment ? lastInstallment.dueDate.split('-').reverse().join('/') : 'N/A';
 
                                     // Next Installment Logic
-                                    const nextInstallment = loan.installmentsList.find(i => !i.isPaid);
+                                    const nextInstallment = loan.installmentsList.find(i => !i.isPaid && !i.isRenegotiated);
 
                                     const loanPaidCount = loan.installmentsList.filter(i => i.isPaid).length;
-                                    const loanProgress = (loanPaidCount / loan.installments) * 100;
+                                    const revolving = isRevolving(loan);
+                                    // Revolving loans have no fixed term, progress is the principal repaid
+                                    const loanProgress = revolving
+                                        ? (loan.principal > 0 ? (getPrincipalRepaid(loan) / loan.principal) * 100 : 0)
+                                        : (loanPaidCount / loan.installments) * 100;
 
                                     return (
                                         <div key={loan.id} className="bg-slate-800 border border-slate-700 rounded-xl overflow-hidden mb-4 last:mb-0 shadow-lg">
@@ -327,10 +530,16 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                                                             <input 
                                                                 type="text"
                                                                 defaultValue={loan.name}
+                                                                disabled={!permissions.editBorrowers}
                                                                 className="bg-transparent border-b border-dashed border-slate-600 text-white font-medium focus:outline-none focus:border-blue-500 w-48 text-sm hover:border-slate-400 transition-colors"
                                                                 onBlur={(e) => {
                                                                     if (e.target.value !== loan.name) {
-                                                                        onUpdateClient({ ...loan, name: e.target.value });
+                                                                        // The name belongs to the borrower, renaming updates all of their loans
+                                                                        if (group.borrower) {
+                                                                            onSaveBorrower({ ...group.borrower, name: e.target.value.trim() });
+                                                                        } else {
+                                                                            onUpdateClient({ ...loan, name: e.target.value });
+                                                                        }
                                                                     }
                                                                 }}
                                                             />
@@ -338,13 +547,14 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
 
                                                         <div className="flex items-center gap-3">
                                                             <div className="bg-slate-800 p-2.5 rounded-lg border border-slate-700 shadow-sm">
-                                                                <span className="text-[10px] text-slate-500 block uppercase font-bold tracking-wider mb-0.5">Valor Principal (Editável)</span>
+                                                                <span className="text-[10px] text-slate-500 block uppercase font-bold tracking-wider mb-0.5">Valor Principal{permissions.editLoans && ' (Editável)'}</span>
                                                                 <div className="flex items-center">
                                                                     <span className="text-slate-500 font-bold mr-1">R$</span>
                                                                     <input 
                                                                         type="number"
                                                                         step="0.01"
                                                                         defaultValue={loan.principal}
+                                                                        disabled={!permissions.editLoans}
                                                                         className="bg-transparent text-white font-bold text-xl w-32 focus:outline-none focus:border-b focus:border-blue-500"
                                                                         onBlur={(e) => handlePrincipalChange(loan, e.target.value)}
                                                                     />
@@ -362,39 +572,86 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                                                                 <div className="w-24 h-1.5 bg-slate-700 rounded-full overflow-hidden">
                                                                     <div className="h-full bg-blue-500 transition-all duration-500" style={{ width: `${loanProgress}%` }}></div>
                                                                 </div>
-                                                                <span className="text-xs text-blue-400 font-mono">{loanPaidCount}/{loan.installments}</span>
+                                                                <span className="text-xs text-blue-400 font-mono">{revolving ? `${Math.round(loanProgress)}%` : `${loanPaidCount}/${loan.installments}`}</span>
                                                             </div>
                                                         </div>
                                                         
                                                         <div className="flex gap-1">
-                                                            <button 
-                                                                onClick={() => onDuplicate(loan)}
-                                                                className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-lg transition-colors"
-                                                                title="Duplicar este empréstimo"
-                                                            >
-                                                                <Copy size={18} />
-                                                            </button>
-                                                            <button 
-                                                                onClick={() => onDelete(loan.id)}
-                                                                className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
-                                                                title="Excluir este empréstimo"
-                                                            >
-                                                                <Trash2 size={18} />
-                                                            </button>
+                                                            {revolving && (
+                                                                <button 
+                                                                    onClick={() => setPaydownLoanId(loan.id)}
+                                                                    className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-lg transition-colors"
+                                                                    title="Amortizar principal"
+                                                                >
+                                                                    <Landmark size={18} />
+                                                                </button>
+                                                            )}
+                                                            {canRenegotiate && permissions.createLoans && (
+                                                                <button 
+                                                                    onClick={() => onRenegotiate(loan)}
+                                                                    className="p-2 text-slate-400 hover:text-purple-400 hover:bg-slate-700 rounded-lg transition-colors"
+                                                                    title="Renegociar saldo em aberto"
+                                                                >
+                                                                    <RefreshCw size={18} />
+                                                                </button>
+                                                            )}
+                                                            {permissions.createLoans && (
+                                                                <button 
+                                                                    onClick={() => onDuplicate(loan)}
+                                                                    className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-lg transition-colors"
+                                                                    title="Duplicar este empréstimo"
+                                                                >
+                                                                    <Copy size={18} />
+                                                                </button>
+                                                            )}
+                                                            {permissions.viewHistory && (
+                                                                <button 
+                                                                    onClick={() => onShowHistory('loan', loan.id)}
+                                                                    className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-700 rounded-lg transition-colors"
+                                                                    title="Histórico de alterações"
+                                                                >
+                                                                    <History size={18} />
+                                                                </button>
+                                                            )}
+                                                            {permissions.deleteLoans && (
+                                                                <button 
+                                                                    onClick={() => onDelete(loan.id)}
+                                                                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-700 rounded-lg transition-colors"
+                                                                    title="Excluir este empréstimo"
+                                                                >
+                                                                    <Trash2 size={18} />
+                                                                </button>
+                                                            )}
                                                         </div>
                                                     </div>
                                                 </div>
 
+                                                {/* Renegotiation Chain (oldest first) */}
+                                                {renegotiationChain.length > 1 && (
+                                                    <div className="flex flex-wrap items-center gap-1.5 mb-4 text-[11px]">
+                                                        <span className="text-purple-400 uppercase font-bold flex items-center gap-1 mr-1"><RefreshCw size={12} /> Histórico</span>
+                                                        {renegotiationChain.map((link, i) => (
+                                                            <React.Fragment key={link.id}>
+                                                                {i > 0 && <ArrowRight size={12} className="text-slate-600" />}
+                                                                <span className={`px-2 py-0.5 rounded border font-mono ${link.id === loan.id ? 'bg-purple-500/20 border-purple-500/40 text-purple-200' : 'bg-slate-800 border-slate-700 text-slate-400'}`}>
+                                                                    {link.startDate.split('-').reverse().join('/')} · {formatCurrency(link.principal)}
+                                                                </span>
+                                                            </React.Fragment>
+                                                        ))}
+                                                    </div>
+                                                )}
+
                                                 {/* Detailed Breakdown Grid */}
                                                 <div className="grid grid-cols-2 sm:grid-cols-4 gap-3">
                                                     {/* Editable Start Date */}
                                                     <div className="bg-slate-800/50 p-2.5 rounded-lg border border-slate-700/50">
                                                         <span className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1.5 mb-1">
-                                                            <Calendar size={12} /> Data Início (Editável)
+                                                            <Calendar size={12} /> Data Início{permissions.editLoans && ' (Editável)'}
                                                         </span>
                                                         <input 
                                                             type="date"
                                                             defaultValue={loan.startDate}
+                                                            disabled={!permissions.editLoans}
                                                             className="bg-transparent text-sm text-slate-200 font-mono font-medium focus:outline-none focus:text-blue-400 w-full"
                                                             onBlur={(e) => {
                                                                 if (e.target.value !== loan.startDate) {
@@ -409,13 +666,27 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                                                         <span className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1.5 mb-1">
                                                             <TrendingUp size={12} /> Taxa de Juros
                                                         </span>
-                                                        <span className="text-sm text-blue-400 font-bold">{loan.interestRate.toFixed(2)}%</span>
+                                                        {revolving ? (
+                                                            <>
+                                                                <span className="text-sm text-blue-400 font-bold">{(loan.periodRate || 0).toFixed(2)}% por período</span>
+                                                                <span className="text-[10px] text-slate-500 block">
+                                                                    Juros mensais (rotativo) · {getFrequencyLabel(loan)} · Saldo devedor {formatCurrency(getOutstandingPrincipal(loan))}
+                                                                </span>
+                                                            </>
+                                                        ) : (
+                                                            <>
+                                                                <span className="text-sm text-blue-400 font-bold">{loan.interestRate.toFixed(2)}%</span>
+                                                                <span className="text-[10px] text-slate-500 block">
+                                                                    {AMORTIZATION_LABELS[loan.amortization || 'flat']} · {getFrequencyLabel(loan)} · ≈ {getEquivalentMonthlyRate(loan.interestRate, loan.installments, loan.frequency, loan.frequencyDays).toFixed(2)}% a.m.
+                                                                </span>
+                                                            </>
+                                                        )}
                                                     </div>
 
                                                     {/* Total Profit */}
                                                     <div className="bg-slate-800/50 p-2.5 rounded-lg border border-slate-700/50">
                                                         <span className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1.5 mb-1">
-                                                            <DollarSign size={12} /> Lucro Total
+                                                            <DollarSign size={12} /> {revolving ? 'Juros até Hoje' : 'Lucro Total'}
                                                         </span>
                                                         <span className="text-sm text-emerald-400 font-bold">+{formatCurrency(loanProfit)}</span>
                                                     </div>
@@ -444,18 +715,22 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                                             <div className="p-4 bg-slate-900/50">
                                                 <div className="flex items-center justify-between mb-3">
                                                     <h4 className="text-xs font-bold text-slate-500 uppercase flex items-center gap-2">
-                                                        <Calendar size={14} /> Parcelas do Empréstimo
+                                                        <Calendar size={14} /> {revolving ? 'Cobranças de Juros' : 'Parcelas do Empréstimo'}
                                                     </h4>
                                                 </div>
 
                                                 <div className="grid grid-cols-1 sm:grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
                                                     {loan.installmentsList?.map((inst) => {
-                                                        const statusColor = getInstallmentStatusColor(inst);
-                                                        const statusText = getStatusText(inst);
+                                                        const statusColor = getInstallmentStatusColor(inst, loan);
+                                                        const statusText = getStatusText(inst, loan);
                                                         const displayDate = inst.dueDate.split('-').reverse().join('/');
                                                         // Critical check for button visibility: Overdue (days < 0) or Today (days == 0) or Tomorrow (days == 1)
                                                         const days = getDaysUntilDue(inst.dueDate);
-                                                        const showWhatsAppButton = days <= 1 && !inst.isPaid;
+                                                        const showWhatsAppButton = days <= getDueSoonDays(loan.frequency, 1) && !inst.isPaid && !inst.isRenegotiated;
+                                                        const remaining = getInstallmentRemaining(inst);
+                                                        const isPartial = getInstallmentPaymentStatus(inst) === 'Partial';
+                                                        const lateFee = calculateLateFee(inst, lateFeeSettings);
+                                                        const split = getInstallmentSplit(loan, inst);
 
                                                         return (
                                                             <div key={inst.number} className={`border rounded-lg p-3 transition-all ${statusColor}`}>
@@ -470,12 +745,23 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                                                                     <div>
                                                                         <div className="text-xs opacity-70">Vencimento</div>
                                                                         <div className="font-mono text-sm">{displayDate}</div>
-                                                                        <div className="font-bold text-lg mt-1">{formatCurrency(inst.value)}</div>
+                                                                        <div className={`font-bold text-lg mt-1 ${inst.isRenegotiated ? 'line-through' : ''}`}>{formatCurrency(inst.isPaid || inst.isRenegotiated ? inst.value : remaining)}</div>
+                                                                        <div className="text-[10px] opacity-60" title="Amortização do principal · Juros contratados">
+                                                                            Amort. {formatCurrency(split.principalPart)} · Juros {formatCurrency(split.interestPart)}
+                                                                        </div>
+                                                                        {isPartial && (
+                                                                            <div className="text-[10px] opacity-70">Pago {formatCurrency(getInstallmentPaidAmount(inst))} de {formatCurrency(inst.value)}</div>
+                                                                        )}
+                                                                        {lateFee.total > 0 && (
+                                                                            <div className="text-[10px] font-bold" title={`Multa ${formatCurrency(lateFee.fine)} + Juros ${formatCurrency(lateFee.interest)} (${lateFee.daysLate} dias)`}>
+                                                                                + {formatCurrency(lateFee.total)} encargos = {formatCurrency(remaining + lateFee.total)}
+                                                                            </div>
+                                                                        )}
                                                                     </div>
                                                                     <div className="flex items-center gap-2">
                                                                         {showWhatsAppButton && loan.phone && (
                                                                            <a 
-                                                                             href={generateWhatsAppLink(loan.phone, loan.name, inst.number, inst.value, inst.dueDate)}
+                                                                             href={getReminderLink(messageSettings, loan, inst, lateFee.total)}
                                                                              target="_blank"
                                                                              rel="noopener noreferrer"
                                                                              className="p-2 rounded-full bg-green-500/20 text-green-400 border border-green-500/30 hover:bg-green-500 hover:text-white transition-all shadow-lg"
@@ -484,13 +770,42 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
                                                                              <MessageCircle size={20} />
                                                                            </a>
                                                                         )}
-                                                                        <button 
-                                                                            onClick={() => onTogglePayment(loan.id, inst.number)}
-                                                                            className={`p-2 rounded-full transition-all ${inst.isPaid ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/30' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
-                                                                            title={inst.isPaid ? "Marcar como não pago" : "Marcar como pago"}
-                                                                        >
-                                                                            <CheckCircle size={20} />
-                                                                        </button>
+                                                                        {(inst.isPaid || getInstallmentPaidAmount(inst) > 0) && (
+                                                                            <button 
+                                                                                onClick={() => openReceipt(loan, inst)}
+                                                                                className="p-2 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-all"
+                                                                                title="Recibo (PDF)"
+                                                                            >
+                                                                                <Receipt size={20} />
+                                                                            </button>
+                                                                        )}
+                                                                        {!inst.isPaid && !inst.isRenegotiated && (
+                                                                            <button
+                                                                                onClick={() => setPixTarget({ clientId: loan.id, installmentNumber: inst.number })}
+                                                                                className="p-2 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-all"
+                                                                                title="QR code PIX"
+                                                                            >
+                                                                                <QrCode size={20} />
+                                                                            </button>
+                                                                        )}
+                                                                        {!inst.isRenegotiated && (
+                                                                            <>
+                                                                                <button 
+                                                                                    onClick={() => setLedgerTarget({ clientId: loan.id, installmentNumber: inst.number })}
+                                                                                    className="p-2 rounded-full bg-slate-800 text-slate-400 hover:bg-slate-700 hover:text-white transition-all"
+                                                                                    title="Pagamentos parciais"
+                                                                                >
+                                                                                    <Wallet size={20} />
+                                                                                </button>
+                                                                                <button 
+                                                                                    onClick={() => onTogglePayment(loan.id, inst.number)}
+                                                                                    className={`p-2 rounded-full transition-all ${inst.isPaid ? 'bg-emerald-500 text-white shadow-lg shadow-emerald-500/30' : 'bg-slate-800 text-slate-400 hover:bg-slate-700'}`}
+                                                                                    title={inst.isPaid ? "Marcar como não pago" : "Marcar como pago"}
+                                                                                >
+                                                                                    <CheckCircle size={20} />
+                                                                                </button>
+                                                                            </>
+                                                                        )}
                                                                     </div>
                                                                 </div>
                                                             </div>
@@ -511,6 +826,76 @@ export const ClientList: React.FC<ClientListProps> = ({ clients, onDelete, onTog
           </tbody>
         </table>
       </div>
+
+      {ledgerLoan && ledgerInstallment && (
+        <PaymentLedgerModal
+          clientName={ledgerLoan.name}
+          installment={ledgerInstallment}
+          lateFeeSettings={lateFeeSettings}
+          onAddPayment={(payment) => onAddPayment(ledgerLoan.id, ledgerInstallment.number, payment)}
+          onRemovePayment={(paymentId) => onRemovePayment(ledgerLoan.id, ledgerInstallment.number, paymentId)}
+          onReceipt={(paymentId) => openReceipt(ledgerLoan, ledgerInstallment, paymentId)}
+          onClose={() => setLedgerTarget(null)}
+        />
+      )}
+
+      {sharedDocument && (
+        <ShareDocumentModal
+          document={sharedDocument.document}
+          phone={sharedDocument.phone}
+          onClose={() => setSharedDocument(null)}
+        />
+      )}
+
+      {paydownLoan && (
+        <PrincipalPaydownModal
+          loan={paydownLoan}
+          onAddPayment={(payment) => onAddPrincipalPayment(paydownLoan.id, payment)}
+          onRemovePayment={(paymentId) => onRemovePrincipalPayment(paydownLoan.id, paymentId)}
+          onClose={() => setPaydownLoanId(null)}
+        />
+      )}
+
+      {pixLoan && pixInstallment && (
+        <PixQrModal
+          loan={pixLoan}
+          installment={pixInstallment}
+          lateFee={calculateLateFee(pixInstallment, lateFeeSettings).total}
+          messageSettings={messageSettings}
+          onClose={() => setPixTarget(null)}
+        />
+      )}
+
+      {contactGroup && (
+        <ContactLogModal
+          name={contactGroup.name}
+          loans={contactGroup.loans}
+          contacts={getContactsForBorrower(contacts, contactGroup.key)}
+          clients={clients}
+          onLog={(draft) => onLogContact(contactGroup.key, contactGroup.name, draft)}
+          onClose={() => setContactTarget(null)}
+        />
+      )}
+
+      {editingBorrower && (
+        <BorrowerModal
+          key={editingBorrower.id + (editingBorrower.lastUpdated || 0)}
+          borrower={editingBorrower}
+          borrowers={borrowers}
+          loans={clients.filter(c => c.borrowerId === editingBorrower.id)}
+          collectors={collectors}
+          onSave={(borrower) => {
+            onSaveBorrower(borrower);
+            setEditingBorrowerId(null);
+          }}
+          onMerge={(sourceId, targetId) => {
+            onMergeBorrowers(sourceId, targetId);
+            setEditingBorrowerId(null);
+          }}
+          onMoveLoan={onMoveLoan}
+          onClose={() => setEditingBorrowerId(null)}
+        />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,305 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Borrower, Client, CollectionContact, ContactAttempt, CollectionOutcome, CollectionProgress, LateFeeSettings, MessageSettings, PaymentEntry } from '../types';
+import { formatCurrency, getWhatsAppUrl, toISODate } from '../constants';
+import { COLLECTION_OUTCOME_LABELS, CollectionQueueItem, buildCollectionQueue, loadCollectionProgress, saveCollectionProgress } from '../services/collectionQueueService';
+import { ContactDraft, getWaitingBorrowerKeys } from '../services/contactService';
+import { LoanDocument, buildReceipt } from '../services/receiptService';
+import { PaymentLedgerModal } from './PaymentLedgerModal';
+import { ShareDocumentModal } from './ShareDocumentModal';
+import { X, Route, MessageCircle, SkipForward, CircleCheck, Handshake, PhoneMissed, PhoneOff, Undo2, ExternalLink } from 'lucide-react';
+
+interface CollectionQueueModalProps {
+  clients: Client[];
+  borrowers: Borrower[];
+  lateFeeSettings: LateFeeSettings;
+  warningDays: number;
+  messageSettings: MessageSettings;
+  contacts: ContactAttempt[];
+  onLogContact: (borrowerKey: string, name: string, draft: ContactDraft) => void;
+  onAddPayment: (clientId: string, installmentNumber: number, payment: Omit<PaymentEntry, 'id'>) => void;
+  onRemovePayment: (clientId: string, installmentNumber: number, paymentId: string) => void;
+  onOpenBorrower: (borrowerKey: string) => void;
+  onClose: () => void;
+}
+
+const OUTCOME_BUTTONS: { outcome: CollectionOutcome, icon: React.ReactNode, className: string }[] = [
+  { outcome: 'paid', icon: <CircleCheck size={16} />, className: 'bg-emerald-600 hover:bg-emerald-500 text-white' },
+  { outcome: 'promised', icon: <Handshake size={16} />, className: 'bg-blue-600 hover:bg-blue-500 text-white' },
+  { outcome: 'noAnswer', icon: <PhoneMissed size={16} />, className: 'bg-slate-700 hover:bg-slate-600 text-slate-200' },
+  { outcome: 'wrongNumber', icon: <PhoneOff size={16} />, className: 'bg-red-600/80 hover:bg-red-500 text-white' }
+];
+
+const OUTCOME_COLORS: Record<CollectionOutcome, string> = {
+  paid: 'text-emerald-400',
+  promised: 'text-blue-400',
+  noAnswer: 'text-slate-400',
+  wrongNumber: 'text-red-400'
+};
+
+const getDueText = (item: CollectionQueueItem): string => {
+  if (item.daysLate > 0) return `${item.daysLate} ${item.daysLate === 1 ? 'dia' : 'dias'} de atraso`;
+  if (item.daysLate === 0) return 'Vence hoje';
+  return item.daysLate === -1 ? 'Vence amanhã' : `Vence em ${-item.daysLate} dias`;
+};
+
+const getTomorrow = (): string => {
+  const date = new Date();
+  date.setDate(date.getDate() + 1);
+  return toISODate(date);
+};
+
+const openWhatsApp = (item: CollectionQueueItem) => {
+  window.open(getWhatsAppUrl(item.phone, item.message), '_blank', 'noopener,noreferrer');
+};
+
+// Today's collection route: one borrower at a time, WhatsApp in sequence and the outcome of each contact
+export const CollectionQueueModal: React.FC<CollectionQueueModalProps> = ({ clients, borrowers, lateFeeSettings, warningDays, messageSettings, contacts, onLogContact, onAddPayment, onRemovePayment, onOpenBorrower, onClose }) => {
+  const [progress, setProgress] = useState<CollectionProgress>(loadCollectionProgress);
+  const [currentKey, setCurrentKey] = useState<string | null>(null);
+  const [autoOpen, setAutoOpen] = useState(false);
+  const [ledgerTarget, setLedgerTarget] = useState<{ clientId: string, installmentNumber: number } | null>(null);
+  const [sharedDocument, setSharedDocument] = useState<{ document: LoanDocument, phone: string } | null>(null);
+  // Date and amount asked for before a promise is recorded
+  const [promiseForm, setPromiseForm] = useState<{ date: string, amount: string } | null>(null);
+
+  useEffect(() => saveCollectionProgress(progress), [progress]);
+
+  const queue = useMemo(
+    () => buildCollectionQueue(clients, lateFeeSettings, warningDays, messageSettings, getWaitingBorrowerKeys(contacts, clients)),
+    [clients, lateFeeSettings, warningDays, messageSettings, contacts]
+  );
+  // Paid borrowers drop out of the queue, so the worked ones are counted from the saved outcomes
+  const pending = queue.filter(item => !progress.outcomes[item.key]);
+  const worked = (Object.entries(progress.outcomes) as [string, CollectionContact][]).sort((a, b) => b[1].at - a[1].at);
+  const total = pending.length + worked.length;
+  const current = pending.find(item => item.key === currentKey) || pending[0];
+
+  const getNext = (item: CollectionQueueItem): CollectionQueueItem | undefined => {
+    const rest = pending.filter(p => p.key !== item.key);
+    const index = pending.indexOf(item);
+    // The item right after the current one, wrapping around to the start
+    return rest.find(p => pending.indexOf(p) > index) || rest[0];
+  };
+
+  const selectItem = (key: string | null) => {
+    setCurrentKey(key);
+    setPromiseForm(null);
+  };
+
+  // The outcome goes to today's progress and to the borrower's contact log
+  const recordOutcome = (item: CollectionQueueItem, outcome: CollectionOutcome, promise?: { date: string, amount: number }) => {
+    const draft: ContactDraft = { channel: 'WhatsApp', date: toISODate(new Date()), outcome, loanId: item.loanId, installmentNumber: item.installmentNumber };
+    if (promise) {
+      draft.promisedDate = promise.date;
+      if (promise.amount > 0) draft.promisedAmount = promise.amount;
+    }
+    onLogContact(item.key, item.name, draft);
+    setPromiseForm(null);
+    setProgress(prev => ({ ...prev, outcomes: { ...prev.outcomes, [item.key]: { outcome, at: Date.now(), name: item.name } } }));
+    if (outcome === 'paid') {
+      setLedgerTarget({ clientId: item.loanId, installmentNumber: item.installmentNumber });
+      setCurrentKey(getNext(item)?.key || null);
+      return;
+    }
+    const next = getNext(item);
+    setCurrentKey(next?.key || null);
+    if (autoOpen && next?.phone) openWhatsApp(next);
+  };
+
+  const clearOutcome = (key: string) => {
+    setProgress(prev => {
+      const { [key]: _removed, ...outcomes } = prev.outcomes;
+      return { ...prev, outcomes };
+    });
+  };
+
+  const ledgerLoan = ledgerTarget ? clients.find(c => c.id === ledgerTarget.clientId) : undefined;
+  const ledgerInstallment = ledgerLoan?.installmentsList.find(i => i.number === ledgerTarget?.installmentNumber);
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-2xl w-full shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Route className="text-emerald-400" /> Rota de Cobrança
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* Progress */}
+        <div className="mb-4">
+          <div className="flex justify-between text-xs text-slate-400 mb-1">
+            <span>{worked.length} de {total} contatos feitos hoje</span>
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="checkbox" checked={autoOpen} onChange={(e) => setAutoOpen(e.target.checked)} className="accent-emerald-500" />
+              Abrir o próximo WhatsApp ao registrar
+            </label>
+          </div>
+          <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+            <div className="h-full bg-emerald-500 transition-all" style={{ width: `${total ? (worked.length / total) * 100 : 0}%` }} />
+          </div>
+        </div>
+
+        {/* Current Borrower */}
+        {current ? (
+          <div className="bg-slate-800 border border-slate-700 rounded-xl p-4 mb-4">
+            <div className="flex justify-between items-start mb-3">
+              <div>
+                <button onClick={() => onOpenBorrower(current.key)} className="text-white font-bold text-lg flex items-center gap-2 hover:text-emerald-400">
+                  {current.name} <ExternalLink size={12} />
+                </button>
+                <p className={`text-xs font-bold ${current.daysLate > 0 ? 'text-red-400' : 'text-orange-400'}`}>{getDueText(current)}</p>
+                <p className="text-xs text-slate-400">
+                  {current.installmentCount} {current.installmentCount === 1 ? 'parcela' : 'parcelas'} em aberto
+                  {current.latePaidCount > 0 && ` · ${current.latePaidCount} já pagas com atraso`}
+                </p>
+              </div>
+              <span className="text-xl font-bold text-white">{formatCurrency(current.amountDue)}</span>
+            </div>
+
+            <div className="flex gap-2 mb-3">
+              {current.phone ? (
+                <button
+                  onClick={() => openWhatsApp(current)}
+                  className="flex-1 bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+                >
+                  <MessageCircle size={16} /> Abrir WhatsApp
+                </button>
+              ) : (
+                <p className="flex-1 text-xs text-slate-500 self-center">Sem telefone cadastrado.</p>
+              )}
+              {pending.length > 1 && (
+                <button
+                  onClick={() => selectItem(getNext(current)?.key || null)}
+                  className="bg-slate-700 hover:bg-slate-600 text-slate-200 py-2 px-3 rounded-lg transition-colors flex items-center gap-2 text-sm"
+                  title="Deixar para depois"
+                >
+                  <SkipForward size={16} /> Pular
+                </button>
+              )}
+            </div>
+
+            <div className="grid grid-cols-2 sm:grid-cols-4 gap-2">
+              {OUTCOME_BUTTONS.map(({ outcome, icon, className }) => (
+                <button
+                  key={outcome}
+                  onClick={() => outcome === 'promised'
+                    ? setPromiseForm({ date: getTomorrow(), amount: current.amountDue.toFixed(2) })
+                    : recordOutcome(current, outcome)}
+                  className={`${className} font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-1 text-xs`}
+                >
+                  {icon} {COLLECTION_OUTCOME_LABELS[outcome]}
+                </button>
+              ))}
+            </div>
+
+            {promiseForm && (
+              <div className="mt-3 flex items-end gap-2">
+                <div className="flex-1">
+                  <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Pagar até</label>
+                  <input
+                    type="date"
+                    value={promiseForm.date}
+                    min={toISODate(new Date())}
+                    onChange={(e) => setPromiseForm({ ...promiseForm, date: e.target.value })}
+                    className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                <div className="flex-1">
+                  <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Valor</label>
+                  <input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    value={promiseForm.amount}
+                    onChange={(e) => setPromiseForm({ ...promiseForm, amount: e.target.value })}
+                    className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                  />
+                </div>
+                <button
+                  onClick={() => promiseForm.date && recordOutcome(current, 'promised', { date: promiseForm.date, amount: parseFloat(promiseForm.amount) || 0 })}
+                  className="bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 px-3 rounded-lg transition-colors text-sm"
+                >
+                  Confirmar
+                </button>
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 mb-4 text-center text-slate-400 text-sm">
+            {total === 0 ? 'Nenhuma cobrança para hoje.' : 'Rota concluída! Todos os clientes de hoje foram contatados.'}
+          </div>
+        )}
+
+        {/* Rest of the Queue */}
+        {pending.length > 1 && (
+          <div className="mb-4">
+            <h4 className="text-xs text-slate-400 uppercase font-bold mb-2">Próximos ({pending.length - 1})</h4>
+            <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg max-h-48 overflow-y-auto">
+              {pending.filter(item => item !== current).map(item => (
+                <button
+                  key={item.key}
+                  onClick={() => selectItem(item.key)}
+                  className="w-full p-2 flex justify-between items-center text-left hover:bg-slate-800/50"
+                >
+                  <span className="text-sm text-white">{item.name}</span>
+                  <span className="text-xs text-slate-400">{getDueText(item)} · {formatCurrency(item.amountDue)}</span>
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {/* Worked Today */}
+        {worked.length > 0 && (
+          <div>
+            <h4 className="text-xs text-slate-400 uppercase font-bold mb-2">Contatados hoje ({worked.length})</h4>
+            <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg max-h-48 overflow-y-auto">
+              {worked.map(([key, entry]) => (
+                <div key={key} className="p-2 flex justify-between items-center">
+                  <span className="text-sm text-slate-300">{entry.name}</span>
+                  <div className="flex items-center gap-2">
+                    <span className={`text-xs font-bold ${OUTCOME_COLORS[entry.outcome]}`}>{COLLECTION_OUTCOME_LABELS[entry.outcome]}</span>
+                    <span className="text-[10px] text-slate-500 font-mono">{new Date(entry.at).toLocaleTimeString('pt-BR', { hour: '2-digit', minute: '2-digit' })}</span>
+                    <button
+                      onClick={() => clearOutcome(key)}
+                      className="p-1 text-slate-500 hover:text-white"
+                      title="Voltar para a fila"
+                    >
+                      <Undo2 size={14} />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+
+      {ledgerLoan && ledgerInstallment && (
+        <PaymentLedgerModal
+          clientName={ledgerLoan.name}
+          installment={ledgerInstallment}
+          lateFeeSettings={lateFeeSettings}
+          onAddPayment={(payment) => onAddPayment(ledgerLoan.id, ledgerInstallment.number, payment)}
+          onRemovePayment={(paymentId) => onRemovePayment(ledgerLoan.id, ledgerInstallment.number, paymentId)}
+          onReceipt={(paymentId) => {
+            const borrower = ledgerLoan.borrowerId ? borrowers.find(b => b.id === ledgerLoan.borrowerId) : undefined;
+            setSharedDocument({ document: buildReceipt(ledgerLoan, ledgerInstallment, messageSettings.senderName, borrower, paymentId), phone: ledgerLoan.phone });
+          }}
+          onClose={() => setLedgerTarget(null)}
+        />
+      )}
+
+      {sharedDocument && (
+        <ShareDocumentModal
+          document={sharedDocument.document}
+          phone={sharedDocument.phone}
+          onClose={() => setSharedDocument(null)}
+        />
+      )}
+    </div>
+  );
+};
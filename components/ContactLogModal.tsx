@@ -0,0 +1,158 @@
+import React, { useState } from 'react';
+import { Client, CollectionOutcome, ContactAttempt, ContactChannel, PromiseStatus } from '../types';
+import { formatCurrency, toISODate } from '../constants';
+import { CONTACT_CHANNELS, PROMISE_STATUS_LABELS, ContactDraft, getPromiseStatus } from '../services/contactService';
+import { COLLECTION_OUTCOME_LABELS } from '../services/collectionQueueService';
+import { X, PhoneCall, Plus } from 'lucide-react';
+
+interface ContactLogModalProps {
+  name: string;
+  loans: Client[]; // The borrower's loans, to point the contact at one installment
+  contacts: ContactAttempt[]; // Newest first
+  clients: Client[]; // Payments that decide whether each promise was kept
+  onLog: (draft: ContactDraft) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500";
+const labelClass = "block text-xs text-slate-400 mb-1 uppercase font-bold";
+
+export const PROMISE_STATUS_COLORS: Record<PromiseStatus, string> = {
+  pending: 'bg-blue-500/20 text-blue-400 border-blue-500/30',
+  kept: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  broken: 'bg-red-500/20 text-red-400 border-red-500/30'
+};
+
+const formatDate = (isoDate: string) => isoDate.split('-').reverse().join('/');
+
+// Contact attempts with a borrower ("ligou terça, prometeu pagar sexta") and the form to log a new one
+export const ContactLogModal: React.FC<ContactLogModalProps> = ({ name, loans, contacts, clients, onLog, onClose }) => {
+  const today = toISODate(new Date());
+  const [channel, setChannel] = useState<ContactChannel>('WhatsApp');
+  const [date, setDate] = useState(today);
+  const [outcome, setOutcome] = useState<CollectionOutcome>('promised');
+  const [target, setTarget] = useState(''); // "loanId" or "loanId#installment", empty = the borrower
+  const [promisedDate, setPromisedDate] = useState('');
+  const [promisedAmount, setPromisedAmount] = useState('');
+  const [note, setNote] = useState('');
+
+  const openInstallments = loans.flatMap(loan => loan.installmentsList
+    .filter(inst => !inst.isPaid && !inst.isRenegotiated)
+    .map(inst => ({ value: `${loan.id}#${inst.number}`, label: `Parcela #${inst.number} · ${formatDate(inst.dueDate)} · ${formatCurrency(inst.value)}` })));
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (outcome === 'promised' && !promisedDate) return;
+    const [loanId, installment] = target.split('#');
+    const amount = parseFloat(promisedAmount);
+    onLog({
+      channel,
+      date,
+      outcome,
+      loanId: loanId || undefined,
+      installmentNumber: installment ? Number(installment) : undefined,
+      promisedDate: outcome === 'promised' ? promisedDate : undefined,
+      promisedAmount: outcome === 'promised' && amount > 0 ? amount : undefined,
+      note: note.trim() || undefined
+    });
+    setNote('');
+    setPromisedDate('');
+    setPromisedAmount('');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <PhoneCall className="text-blue-400" /> Contatos - {name}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {/* New Contact */}
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3 mb-4">
+          <div>
+            <label className={labelClass}>Canal</label>
+            <select value={channel} onChange={(e) => setChannel(e.target.value as ContactChannel)} className={inputClass}>
+              {CONTACT_CHANNELS.map(c => <option key={c} value={c}>{c}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Data</label>
+            <input type="date" value={date} max={today} onChange={(e) => setDate(e.target.value)} className={inputClass} required />
+          </div>
+          <div>
+            <label className={labelClass}>Resultado</label>
+            <select value={outcome} onChange={(e) => setOutcome(e.target.value as CollectionOutcome)} className={inputClass}>
+              {(Object.keys(COLLECTION_OUTCOME_LABELS) as CollectionOutcome[]).map(o => <option key={o} value={o}>{COLLECTION_OUTCOME_LABELS[o]}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Referente a</label>
+            <select value={target} onChange={(e) => setTarget(e.target.value)} className={inputClass}>
+              <option value="">Cliente (todos os contratos)</option>
+              {openInstallments.map(i => <option key={i.value} value={i.value}>{i.label}</option>)}
+            </select>
+          </div>
+          {outcome === 'promised' && (
+            <>
+              <div>
+                <label className={labelClass}>Pagar até</label>
+                <input type="date" value={promisedDate} min={date} onChange={(e) => setPromisedDate(e.target.value)} className={inputClass} required />
+              </div>
+              <div>
+                <label className={labelClass}>Valor prometido</label>
+                <input type="number" step="0.01" min="0" value={promisedAmount} onChange={(e) => setPromisedAmount(e.target.value)} placeholder="Opcional" className={inputClass} />
+              </div>
+            </>
+          )}
+          <div className="col-span-2">
+            <label className={labelClass}>Observação</label>
+            <input type="text" value={note} onChange={(e) => setNote(e.target.value)} placeholder="Opcional" className={inputClass} />
+          </div>
+          <button
+            type="submit"
+            className="col-span-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus size={16} /> Registrar Contato
+          </button>
+        </form>
+
+        {/* Log */}
+        <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg max-h-64 overflow-y-auto">
+          {contacts.length === 0 ? (
+            <div className="p-3 text-center text-slate-500 text-sm">Nenhum contato registrado.</div>
+          ) : (
+            contacts.map(contact => {
+              const status = contact.outcome === 'promised' && contact.promisedDate ? getPromiseStatus(contact, clients) : null;
+              return (
+                <div key={contact.id} className="p-3">
+                  <div className="flex justify-between items-center">
+                    <p className="text-sm text-white font-bold">
+                      {COLLECTION_OUTCOME_LABELS[contact.outcome]} <span className="text-xs text-slate-500 font-normal">· {contact.channel}</span>
+                    </p>
+                    <span className="text-xs text-slate-400 font-mono">{formatDate(contact.date)}</span>
+                  </div>
+                  {status && (
+                    <p className="mt-1 flex items-center gap-2">
+                      <span className={`text-[10px] font-bold px-2 py-0.5 rounded border ${PROMISE_STATUS_COLORS[status]}`}>{PROMISE_STATUS_LABELS[status]}</span>
+                      <span className="text-xs text-slate-300">
+                        {contact.promisedAmount ? formatCurrency(contact.promisedAmount) : 'Pagamento'} até {formatDate(contact.promisedDate!)}
+                      </span>
+                    </p>
+                  )}
+                  {contact.installmentNumber && <p className="text-xs text-slate-500">Parcela #{contact.installmentNumber}</p>}
+                  {contact.note && <p className="text-xs text-slate-500 italic">{contact.note}</p>}
+                  <p className="text-[10px] text-slate-600">por {contact.actor}</p>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
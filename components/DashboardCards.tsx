@@ -1,13 +1,13 @@
 import React from 'react';
 import { FinancialSummary } from '../types';
 import { formatCurrency } from '../constants';
-import { TrendingUp, DollarSign, Users, Wallet } from 'lucide-react';
+import { TrendingUp, DollarSign, Users, Wallet, Hourglass } from 'lucide-react';
 
 interface DashboardCardsProps {
   summary: FinancialSummary;
 }
 
-const Card: React.FC<{ title: string; value: string; icon: React.ReactNode; color: string }> = ({ title, value, icon, color }) => (
+const Card: React.FC<{ title: string; value: string; icon: React.ReactNode; color: string; subtitle?: string }> = ({ title, value, icon, color, subtitle }) => (
   <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 shadow-lg hover:shadow-xl transition-shadow duration-300">
     <div className="flex items-center justify-between mb-4">
       <h3 className="text-slate-400 text-sm font-medium uppercase tracking-wider">{title}</h3>
@@ -16,12 +16,13 @@ const Card: React.FC<{ title: string; value: string; icon: React.ReactNode; colo
       </div>
     </div>
     <div className="text-2xl font-bold text-white">{value}</div>
+    {subtitle && <div className="text-xs text-slate-500 mt-1">{subtitle}</div>}
   </div>
 );
 
 export const DashboardCards: React.FC<DashboardCardsProps> = ({ summary }) => {
   return (
-    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+    <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6 mb-8">
       <Card 
         title="Total Investido" 
         value={formatCurrency(summary.totalInvested)} 
@@ -37,9 +38,17 @@ export const DashboardCards: React.FC<DashboardCardsProps> = ({ summary }) => {
       <Card 
         title="Lucro Total" 
         value={formatCurrency(summary.totalProfit)} 
+        subtitle={`Realizado: ${formatCurrency(summary.realizedProfit)}${summary.totalLateFeesReceived > 0 ? ` + ${formatCurrency(summary.totalLateFeesReceived)} em multas/juros` : ''}`}
         icon={<TrendingUp className="text-purple-400" size={24} />}
         color="bg-purple-500/20 text-purple-400"
       />
+      <Card 
+        title="Saldo a Receber" 
+        value={formatCurrency(summary.totalOutstanding)} 
+        subtitle={summary.totalLateFeesAccrued > 0 ? `+ ${formatCurrency(summary.totalLateFeesAccrued)} em encargos de atraso` : undefined}
+        icon={<Hourglass className="text-yellow-400" size={24} />}
+        color="bg-yellow-500/20 text-yellow-400"
+      />
       <Card 
         title="Clientes Ativos" 
         value={summary.activeClients.toString()} 
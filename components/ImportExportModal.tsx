@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { Borrower, Client } from '../types';
+import { ImportMode, ImportPlan, parseImportFiles, findImportDuplicates, exportPortfolioJson, exportLoansCsv, exportInstallmentsCsv, getBackupFileName, toBackupBlob } from '../services/backupService';
+import { downloadFile } from '../constants';
+import { X, ArrowDownUp, Download, Upload, AlertTriangle, Copy } from 'lucide-react';
+
+interface ImportExportModalProps {
+  clients: Client[]; // Including soft-deleted ones, the JSON backup keeps them
+  borrowers: Borrower[];
+  onImport: (plan: ImportPlan, mode: ImportMode) => void;
+  onClose: () => void;
+}
+
+const MAX_LISTED = 50;
+
+export const ImportExportModal: React.FC<ImportExportModalProps> = ({ clients, borrowers, onImport, onClose }) => {
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [fileNames, setFileNames] = useState<string[]>([]);
+  const [mode, setMode] = useState<ImportMode>('merge');
+
+  const duplicates = plan ? findImportDuplicates(plan, clients, borrowers) : [];
+  const activeLoans = clients.filter(c => !c.isDeleted).length;
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = ''; // Allow picking the same file again after fixing it
+    if (files.length === 0) return;
+    const contents = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+    setFileNames(files.map(f => f.name));
+    setPlan(parseImportFiles(contents));
+  };
+
+  const handleConfirm = () => {
+    if (!plan) return;
+    if (mode === 'replace' && !window.confirm(`Substituir a carteira? Os ${activeLoans} empréstimos atuais que não estão no arquivo serão excluídos.`)) return;
+    onImport(plan, mode);
+  };
+
+  const handleExport = (content: string, fileName: string) => downloadFile(toBackupBlob(content, fileName), fileName);
+
+  const exportButtonClass = "flex-1 bg-slate-800 hover:bg-slate-700 text-slate-200 font-bold py-2 rounded-lg transition-colors border border-slate-700 text-xs flex items-center justify-center gap-1";
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <ArrowDownUp className="text-blue-400" /> Importar / Exportar
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Exportar</h4>
+        <div className="flex gap-2 mb-1">
+          <button onClick={() => handleExport(exportPortfolioJson(clients, borrowers), getBackupFileName('backup', 'json'))} className={exportButtonClass}>
+            <Download size={14} /> Backup JSON
+          </button>
+          <button onClick={() => handleExport(exportLoansCsv(clients, borrowers), getBackupFileName('emprestimos', 'csv'))} className={exportButtonClass}>
+            <Download size={14} /> CSV empréstimos
+          </button>
+          <button onClick={() => handleExport(exportInstallmentsCsv(clients), getBackupFileName('parcelas', 'csv'))} className={exportButtonClass}>
+            <Download size={14} /> CSV parcelas
+          </button>
+        </div>
+        <p className="text-[10px] text-slate-500 mb-6">
+          O JSON guarda todos os dados e é o formato para backup. Os CSVs abrem no Excel/Planilhas; importe os dois juntos para manter os pagamentos (cada parcela vira um pagamento único).
+        </p>
+
+        <h4 className="text-xs font-bold text-slate-400 uppercase mb-2">Importar</h4>
+        <label className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm cursor-pointer">
+          <Upload size={16} /> Escolher arquivos (.json ou .csv)
+          <input type="file" accept=".json,.csv,.txt" multiple onChange={handleFiles} className="hidden" />
+        </label>
+        <p className="text-[10px] text-slate-500 mt-1 mb-4">
+          Planilhas antigas: uma linha por empréstimo com as colunas nome, valor_principal, data_inicio, parcelas e valor_parcela (ou taxa_periodo). Opcionais: telefone, cpf, frequencia, amortizacao, parcelas_pagas, anotacao.
+        </p>
+
+        {plan && (
+          <div className="space-y-3">
+            <div className="bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm">
+              <p className="text-[10px] text-slate-500 font-mono truncate mb-1">{fileNames.join(', ')}</p>
+              <p className="text-white">
+                <span className="font-bold">{plan.clients.length}</span> empréstimos e <span className="font-bold">{plan.borrowers.length}</span> clientes válidos
+              </p>
+            </div>
+
+            {plan.issues.length > 0 && (
+              <div className="border border-red-500/30 bg-red-500/5 rounded-lg p-3">
+                <p className="text-xs font-bold text-red-400 flex items-center gap-1 mb-2">
+                  <AlertTriangle size={14} /> {plan.issues.length} {plan.issues.length === 1 ? 'linha ignorada' : 'linhas ignoradas'}
+                </p>
+                <ul className="text-xs text-slate-300 space-y-1 max-h-40 overflow-y-auto">
+                  {plan.issues.slice(0, MAX_LISTED).map((issue, index) => (
+                    <li key={index}>
+                      <span className="text-slate-500 font-mono">{issue.file}{issue.row > 0 ? ` · linha ${issue.row}` : ''}:</span> {issue.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            {duplicates.length > 0 && (
+              <div className="border border-orange-500/30 bg-orange-500/5 rounded-lg p-3">
+                <p className="text-xs font-bold text-orange-400 flex items-center gap-1 mb-2">
+                  <Copy size={14} /> {duplicates.length} {duplicates.length === 1 ? 'registro já existe' : 'registros já existem'}
+                </p>
+                <ul className="text-xs text-slate-300 space-y-1 max-h-40 overflow-y-auto">
+                  {duplicates.slice(0, MAX_LISTED).map(d => (
+                    <li key={`${d.entityType}-${d.importedId}`}>
+                      <span className="text-slate-500">{d.entityType === 'client' ? 'Empréstimo' : 'Cliente'} {d.kind === 'id' ? '(mesmo id)' : d.entityType === 'client' ? '(mesmo cliente, data e valor)' : '(mesmo CPF ou nome)'}:</span> {d.label}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={() => setMode('merge')}
+                className={`p-3 rounded-lg border text-left transition-colors ${mode === 'merge' ? 'border-blue-500 bg-blue-500/10' : 'border-slate-700 hover:border-slate-600'}`}
+              >
+                <p className="text-sm font-bold text-white">Mesclar</p>
+                <p className="text-[10px] text-slate-400">Mantém a carteira atual. Mesmo id é atualizado, mesmo cliente é unificado e empréstimos repetidos são ignorados.</p>
+              </button>
+              <button
+                onClick={() => setMode('replace')}
+                className={`p-3 rounded-lg border text-left transition-colors ${mode === 'replace' ? 'border-red-500 bg-red-500/10' : 'border-slate-700 hover:border-slate-600'}`}
+              >
+                <p className="text-sm font-bold text-white">Substituir</p>
+                <p className="text-[10px] text-slate-400">O arquivo vira a carteira inteira. O que não estiver nele é excluído.</p>
+              </button>
+            </div>
+
+            <button
+              onClick={handleConfirm}
+              disabled={plan.clients.length === 0 && plan.borrowers.length === 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Upload size={16} /> Importar {plan.clients.length} empréstimos
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
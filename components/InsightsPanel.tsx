@@ -0,0 +1,138 @@
+import React, { useMemo, useState } from 'react';
+import { Client, LateFeeSettings } from '../types';
+import { formatCurrency } from '../constants';
+import { CachedInsights, InsightPriority, PRIORITY_LABELS, analyzePortfolio, buildPortfolioSnapshot, getInsightsProviders, getSnapshotHash, loadCachedInsights } from '../services/aiService';
+import { Sparkles, RefreshCw, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react';
+
+interface InsightsPanelProps {
+  clients: Client[]; // Whole portfolio, regardless of the search filter
+  lateFeeSettings: LateFeeSettings;
+  onSelectBorrower: (borrowerKey: string) => void;
+}
+
+const PRIORITY_COLORS: Record<InsightPriority, string> = {
+  high: 'bg-red-500/20 text-red-400 border-red-500/30',
+  medium: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  low: 'bg-slate-700/50 text-slate-300 border-slate-600'
+};
+
+export const InsightsPanel: React.FC<InsightsPanelProps> = ({ clients, lateFeeSettings, onSelectBorrower }) => {
+  const providers = useMemo(() => getInsightsProviders(), []);
+  const [providerId, setProviderId] = useState(providers[0].id);
+  const [cached, setCached] = useState<CachedInsights | null>(() => loadCachedInsights());
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isExpanded, setIsExpanded] = useState(true);
+
+  const snapshot = useMemo(() => buildPortfolioSnapshot(clients, lateFeeSettings), [clients, lateFeeSettings]);
+  const isStale = !!cached && cached.snapshotHash !== getSnapshotHash(snapshot);
+  const cachedProvider = cached ? providers.find(p => p.id === cached.providerId) : undefined;
+
+  const handleAnalyze = async () => {
+    const provider = providers.find(p => p.id === providerId) || providers[0];
+    setIsLoading(true);
+    setError(null);
+    try {
+      setCached(await analyzePortfolio(provider, snapshot));
+    } catch (e) {
+      console.error("AI Error:", e);
+      setError('Não foi possível gerar a análise agora. Tente novamente ou use a simulação local.');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const borrowerButton = (borrowerKey: string, name: string) => (
+    <button onClick={() => onSelectBorrower(borrowerKey)} className="text-white font-bold hover:text-emerald-400 text-left">
+      {name}
+    </button>
+  );
+
+  return (
+    <div className="bg-slate-800 border border-slate-700 rounded-xl p-6 mb-8 shadow-lg">
+      <div className="flex flex-wrap justify-between items-center gap-3">
+        <button onClick={() => setIsExpanded(!isExpanded)} className="text-lg font-bold text-white flex items-center gap-2">
+          <Sparkles size={20} className="text-purple-400" /> Análise da Carteira
+          {isExpanded ? <ChevronUp size={16} className="text-slate-400" /> : <ChevronDown size={16} className="text-slate-400" />}
+        </button>
+        <div className="flex items-center gap-2">
+          {providers.length > 1 && (
+            <select
+              value={providerId}
+              onChange={(e) => setProviderId(e.target.value)}
+              className="bg-slate-950 border border-slate-800 text-white rounded-lg px-2 py-1.5 text-xs focus:outline-none focus:border-emerald-500"
+            >
+              {providers.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          )}
+          <button
+            onClick={handleAnalyze}
+            disabled={isLoading || snapshot.borrowers.length === 0}
+            className="bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white text-xs font-bold px-3 py-1.5 rounded-lg transition-colors flex items-center gap-2"
+          >
+            <RefreshCw size={14} className={isLoading ? 'animate-spin' : ''} /> {isLoading ? 'Analisando...' : cached ? 'Atualizar análise' : 'Gerar análise'}
+          </button>
+        </div>
+      </div>
+
+      {isExpanded && (
+        <div className="mt-4 space-y-4">
+          {error && (
+            <p className="bg-red-500/10 border border-red-500/30 text-red-300 text-sm p-3 rounded-lg flex items-center gap-2">
+              <AlertTriangle size={16} /> {error}
+            </p>
+          )}
+
+          {!cached ? (
+            <p className="text-sm text-slate-500">
+              Gere uma análise com resumo de risco, maiores exposições e ações sugeridas por cliente, a partir dos saldos, atrasos e notas de risco da carteira.
+            </p>
+          ) : (
+            <>
+              <p className="text-[10px] text-slate-500 font-mono">
+                Gerada em {new Date(cached.generatedAt).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' })} · {cachedProvider?.label || cached.providerId}
+                {isStale && <span className="text-orange-400"> · a carteira mudou desde esta análise</span>}
+              </p>
+
+              <p className="text-sm text-slate-300 leading-relaxed">{cached.insights.riskSummary}</p>
+
+              <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+                <div>
+                  <h4 className="text-xs text-slate-400 uppercase font-bold mb-2">Maiores exposições</h4>
+                  <div className="divide-y divide-slate-700 border border-slate-700 rounded-lg">
+                    {cached.insights.topExposures.length === 0 && <p className="p-3 text-sm text-slate-500">Nenhuma exposição relevante.</p>}
+                    {cached.insights.topExposures.map((exposure, i) => (
+                      <div key={`${exposure.borrowerKey}-${i}`} className="p-3 text-sm">
+                        <div className="flex justify-between gap-2">
+                          {borrowerButton(exposure.borrowerKey, exposure.name)}
+                          <span className="text-orange-400 font-mono">{formatCurrency(exposure.amount)}</span>
+                        </div>
+                        <p className="text-xs text-slate-400">{exposure.reason}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+
+                <div>
+                  <h4 className="text-xs text-slate-400 uppercase font-bold mb-2">Ações sugeridas</h4>
+                  <div className="divide-y divide-slate-700 border border-slate-700 rounded-lg">
+                    {cached.insights.actions.length === 0 && <p className="p-3 text-sm text-slate-500">Nenhuma ação necessária.</p>}
+                    {cached.insights.actions.map((action, i) => (
+                      <div key={`${action.borrowerKey}-${i}`} className="p-3 text-sm">
+                        <div className="flex justify-between gap-2">
+                          {borrowerButton(action.borrowerKey, action.name)}
+                          <span className={`text-[10px] font-bold px-2 py-0.5 rounded border self-start ${PRIORITY_COLORS[action.priority]}`}>{PRIORITY_LABELS[action.priority]}</span>
+                        </div>
+                        <p className="text-xs text-slate-400">{action.action}</p>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
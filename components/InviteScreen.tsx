@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { CollectorInvite } from '../types';
+import { resendEmailVerification } from '../services/authService';
+import { UserPlus, X, AlertTriangle, MailCheck } from 'lucide-react';
+
+interface InviteScreenProps {
+  invite: CollectorInvite;
+  email: string;
+  emailVerified: boolean;
+  onAccept: () => Promise<void>;
+  onDecline: (remember: boolean) => void; // remember: do not ask again on this device
+}
+
+// Asked after sign-in when the account has a pending collector invitation; nothing loads until it is answered
+export const InviteScreen: React.FC<InviteScreenProps> = ({ invite, email, emailVerified, onAccept, onDecline }) => {
+  const [confirmed, setConfirmed] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+
+  const handleAccept = async () => {
+    setError('');
+    setBusy(true);
+    try {
+      await onAccept();
+    } catch (err) {
+      console.error("Accept invite error:", err);
+      setError('Não foi possível aceitar o convite. Tente novamente.');
+      setBusy(false);
+    }
+  };
+
+  const handleResend = async () => {
+    setError('');
+    try {
+      await resendEmailVerification();
+      setInfo(`Enviamos um novo link de confirmação para ${email}.`);
+    } catch (err) {
+      console.error("Email verification error:", err);
+      setError('Não foi possível reenviar o link agora.');
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950 flex items-center justify-center z-[90] p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-sm w-full shadow-2xl">
+        <h3 className="text-lg font-bold text-white flex items-center gap-2 mb-2">
+          <UserPlus className="text-blue-400" /> Convite para equipe de cobrança
+        </h3>
+        <p className="text-sm text-slate-300 mb-4">
+          {invite.invitedBy ? <b>{invite.invitedBy}</b> : 'Uma carteira'} convidou <b>{email}</b> para trabalhar como cobrador.
+          Cobradores veem apenas os clientes atribuídos a eles e não criam nem editam empréstimos.
+        </p>
+
+        {!emailVerified ? (
+          <>
+            <p className="bg-orange-500/10 border border-orange-500/30 text-orange-300 text-xs p-3 rounded-lg mb-3 flex items-start gap-2">
+              <MailCheck size={16} className="shrink-0" /> Confirme o seu e-mail pelo link enviado ao criar a conta e entre de novo para aceitar o convite.
+            </p>
+            <button onClick={handleResend} className="w-full text-xs text-blue-400 hover:text-blue-300 mb-3">
+              Reenviar link de confirmação
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="bg-red-500/10 border border-red-500/30 text-red-300 text-xs p-3 rounded-lg mb-3 flex items-start gap-2">
+              <AlertTriangle size={16} className="shrink-0" />
+              <span>
+                Ao aceitar, os dados desta conta salvos neste aparelho (empréstimos, histórico e alterações ainda não enviadas) serão removidos dele.
+                A sua própria carteira continua na nuvem e volta a aparecer se você deixar a equipe.
+              </span>
+            </p>
+            <label className="flex items-start gap-2 text-xs text-slate-300 mb-3">
+              <input type="checkbox" checked={confirmed} onChange={(e) => setConfirmed(e.target.checked)} className="mt-0.5" />
+              Entendi e quero entrar na equipe como cobrador.
+            </label>
+          </>
+        )}
+
+        {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+        {info && <p className="text-xs text-emerald-400 mb-2">{info}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => onDecline(emailVerified)}
+            disabled={busy}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-2 rounded-lg transition-colors border border-slate-700 text-xs flex items-center justify-center gap-1"
+          >
+            <X size={14} /> {emailVerified ? 'Recusar' : 'Agora não'}
+          </button>
+          {emailVerified && (
+            <button
+              onClick={handleAccept}
+              disabled={!confirmed || busy}
+              className="flex-1 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition-colors text-xs flex items-center justify-center gap-1"
+            >
+              <UserPlus size={14} /> {busy ? 'Entrando...' : 'Aceitar convite'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { signIn, signUp, resetPassword, getAuthErrorMessage } from '../services/authService';
+import { LayoutDashboard, LogIn, Cloud, CloudOff } from 'lucide-react';
+
+interface LoginScreenProps {
+  checking: boolean; // Restoring a previous session
+  projectId: string;
+  onOpenCloudSettings: () => void;
+  onUseOffline: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500";
+
+// Blocks the app until the user signs in to the Firebase project; the session itself is picked up by App
+export const LoginScreen: React.FC<LoginScreenProps> = ({ checking, projectId, onOpenCloudSettings, onUseOffline }) => {
+  const [mode, setMode] = useState<'signin' | 'signup'>('signin');
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [error, setError] = useState('');
+  const [info, setInfo] = useState('');
+  const [busy, setBusy] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    setInfo('');
+    setBusy(true);
+    try {
+      if (mode === 'signin') await signIn(email, password);
+      else await signUp(email, password);
+    } catch (err) {
+      setError(getAuthErrorMessage(err));
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleResetPassword = async () => {
+    setError('');
+    setInfo('');
+    if (!email.trim()) {
+      setError('Informe o e-mail para redefinir a senha.');
+      return;
+    }
+    try {
+      await resetPassword(email);
+      setInfo('Enviamos um link de redefinição para o seu e-mail.');
+    } catch (err) {
+      setError(getAuthErrorMessage(err));
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-950 flex items-center justify-center z-[90] p-4">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-sm w-full shadow-2xl">
+        <div className="flex items-center gap-3 mb-6">
+          <div className="bg-emerald-500 p-2 rounded-lg shadow-lg shadow-emerald-500/20">
+            <LayoutDashboard className="text-white" size={24} />
+          </div>
+          <div>
+            <h1 className="text-xl font-bold text-white tracking-tight">Giliarde <span className="text-emerald-400">AGI</span></h1>
+            <p className="text-xs text-slate-500 font-mono flex items-center gap-1"><Cloud size={10} /> {projectId}</p>
+          </div>
+        </div>
+
+        {checking ? (
+          <p className="text-center text-slate-400 text-sm py-8">Verificando sessão...</p>
+        ) : (
+          <>
+            <form onSubmit={handleSubmit} className="space-y-3">
+              <input
+                type="email"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                placeholder="E-mail"
+                autoComplete="email"
+                className={inputClass}
+                required
+              />
+              <input
+                type="password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                placeholder="Senha"
+                autoComplete={mode === 'signin' ? 'current-password' : 'new-password'}
+                className={inputClass}
+                required
+              />
+              {error && <p className="text-xs text-red-400">{error}</p>}
+              {info && <p className="text-xs text-emerald-400">{info}</p>}
+              <button
+                type="submit"
+                disabled={busy}
+                className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+              >
+                <LogIn size={16} /> {mode === 'signin' ? 'Entrar' : 'Criar conta'}
+              </button>
+            </form>
+
+            <div className="flex justify-between mt-3 text-xs">
+              <button onClick={() => setMode(mode === 'signin' ? 'signup' : 'signin')} className="text-blue-400 hover:text-blue-300">
+                {mode === 'signin' ? 'Criar uma conta' : 'Já tenho conta'}
+              </button>
+              {mode === 'signin' && (
+                <button onClick={handleResetPassword} className="text-slate-400 hover:text-white">
+                  Esqueci a senha
+                </button>
+              )}
+            </div>
+          </>
+        )}
+
+        <div className="border-t border-slate-800 mt-6 pt-4 flex gap-2">
+          <button
+            onClick={onOpenCloudSettings}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-2 rounded-lg transition-colors border border-slate-700 text-xs flex items-center justify-center gap-1"
+          >
+            <Cloud size={14} /> Trocar servidor
+          </button>
+          <button
+            onClick={onUseOffline}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-2 rounded-lg transition-colors border border-slate-700 text-xs flex items-center justify-center gap-1"
+          >
+            <CloudOff size={14} /> Usar sem nuvem
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,196 @@
+import React, { useRef, useState } from 'react';
+import { MessageSettings, ReminderStage } from '../types';
+import { DEFAULT_MESSAGE_SETTINGS, REMINDER_STAGE_LABELS, TEMPLATE_PLACEHOLDERS, getPreviewValues, getUnknownPlaceholders, renderTemplate } from '../services/messageTemplateService';
+import { X, Save, MessageCircle, RotateCcw, AlertTriangle } from 'lucide-react';
+
+interface MessageTemplatesModalProps {
+  settings: MessageSettings;
+  readOnly: boolean; // Collectors see the team's wording but cannot change it
+  onSave: (settings: MessageSettings) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500 disabled:opacity-60";
+const labelClass = "block text-xs text-slate-400 mb-1 uppercase font-bold";
+
+const STAGES = Object.keys(REMINDER_STAGE_LABELS) as ReminderStage[];
+
+export const MessageTemplatesModal: React.FC<MessageTemplatesModalProps> = ({ settings, readOnly, onSave, onClose }) => {
+  // Edit a local copy, nothing is applied until "Salvar"
+  const [draft, setDraft] = useState<MessageSettings>(settings);
+  const [stage, setStage] = useState<ReminderStage>('upcoming');
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+
+  const template = draft.templates[stage];
+  const unknown = getUnknownPlaceholders(template);
+
+  const setTemplate = (value: string) => {
+    setDraft(prev => ({ ...prev, templates: { ...prev.templates, [stage]: value } }));
+  };
+
+  // Insert the placeholder at the cursor
+  const insertPlaceholder = (key: string) => {
+    const token = `{${key}}`;
+    const textarea = textareaRef.current;
+    const start = textarea ? textarea.selectionStart : template.length;
+    const end = textarea ? textarea.selectionEnd : template.length;
+    setTemplate(template.slice(0, start) + token + template.slice(end));
+    requestAnimationFrame(() => {
+      textarea?.focus();
+      textarea?.setSelectionRange(start + token.length, start + token.length);
+    });
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave({ ...draft, senderName: draft.senderName.trim(), pixKey: draft.pixKey.trim(), pixName: draft.pixName.trim(), pixCity: draft.pixCity.trim() });
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[110] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-2xl w-full shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <MessageCircle className="text-green-400" /> Mensagens de Cobrança
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {readOnly && (
+          <p className="bg-slate-800 border border-slate-700 text-slate-400 text-xs p-2 rounded-lg mb-4">
+            Somente o proprietário pode alterar os modelos. Eles valem para toda a equipe.
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit}>
+          <div className="grid grid-cols-2 gap-3 mb-4">
+            <div>
+              <label className={labelClass}>Remetente</label>
+              <input
+                type="text"
+                value={draft.senderName}
+                onChange={(e) => setDraft(prev => ({ ...prev, senderName: e.target.value }))}
+                disabled={readOnly}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Chave PIX</label>
+              <input
+                type="text"
+                value={draft.pixKey}
+                onChange={(e) => setDraft(prev => ({ ...prev, pixKey: e.target.value }))}
+                disabled={readOnly}
+                placeholder="CPF, e-mail, telefone ou chave aleatória"
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Nome do recebedor (PIX)</label>
+              <input
+                type="text"
+                value={draft.pixName}
+                onChange={(e) => setDraft(prev => ({ ...prev, pixName: e.target.value }))}
+                disabled={readOnly}
+                maxLength={25}
+                placeholder={draft.senderName}
+                className={inputClass}
+              />
+            </div>
+            <div>
+              <label className={labelClass}>Cidade (PIX)</label>
+              <input
+                type="text"
+                value={draft.pixCity}
+                onChange={(e) => setDraft(prev => ({ ...prev, pixCity: e.target.value }))}
+                disabled={readOnly}
+                maxLength={15}
+                placeholder="Ex: São Paulo"
+                className={inputClass}
+              />
+            </div>
+          </div>
+
+          {/* Stage Tabs */}
+          <div className="flex flex-wrap gap-1 mb-3">
+            {STAGES.map(s => (
+              <button
+                key={s}
+                type="button"
+                onClick={() => setStage(s)}
+                className={`text-xs px-3 py-1.5 rounded-lg border transition-colors ${s === stage ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-slate-800 border-slate-700 text-slate-400 hover:text-white'}`}
+              >
+                {REMINDER_STAGE_LABELS[s]}
+              </button>
+            ))}
+          </div>
+
+          <div className="flex justify-between items-center mb-1">
+            <label className={labelClass}>Modelo - {REMINDER_STAGE_LABELS[stage]}</label>
+            {!readOnly && template !== DEFAULT_MESSAGE_SETTINGS.templates[stage] && (
+              <button
+                type="button"
+                onClick={() => setTemplate(DEFAULT_MESSAGE_SETTINGS.templates[stage])}
+                className="text-[10px] text-slate-400 hover:text-white flex items-center gap-1"
+              >
+                <RotateCcw size={10} /> Restaurar padrão
+              </button>
+            )}
+          </div>
+          <textarea
+            ref={textareaRef}
+            value={template}
+            onChange={(e) => setTemplate(e.target.value)}
+            disabled={readOnly}
+            rows={4}
+            className={`${inputClass} resize-y`}
+          />
+
+          {!readOnly && (
+            <div className="flex flex-wrap gap-1 mt-2">
+              {Object.entries(TEMPLATE_PLACEHOLDERS).map(([key, description]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => insertPlaceholder(key)}
+                  title={description}
+                  className="text-[10px] font-mono px-2 py-1 rounded bg-slate-800 border border-slate-700 text-emerald-400 hover:bg-slate-700"
+                >
+                  {`{${key}}`}
+                </button>
+              ))}
+            </div>
+          )}
+
+          {unknown.length > 0 && (
+            <p className="text-[10px] text-orange-400 mt-2 flex items-center gap-1">
+              <AlertTriangle size={10} /> Campos desconhecidos: {unknown.map(k => `{${k}}`).join(', ')}
+            </p>
+          )}
+
+          {/* Live Preview */}
+          <div className="mt-4 mb-6">
+            <span className={labelClass}>Pré-visualização</span>
+            <div className="bg-[#0b3d2e] border border-green-900 text-green-50 text-sm rounded-lg p-3 whitespace-pre-wrap">
+              {renderTemplate(template, getPreviewValues(draft, stage))}
+            </div>
+            {draft.pixKey.trim() && stage !== 'promise' && (
+              <p className="text-[10px] text-slate-500 mt-2">O código PIX copia e cola da parcela, com o valor atualizado, é adicionado ao final da mensagem.</p>
+            )}
+          </div>
+
+          {!readOnly && (
+            <button
+              type="submit"
+              className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Save size={16} /> Salvar
+            </button>
+          )}
+        </form>
+      </div>
+    </div>
+  );
+};
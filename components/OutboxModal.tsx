@@ -0,0 +1,88 @@
+import React from 'react';
+import { OutboxEntry } from '../types';
+import { X, CloudUpload, RotateCcw, Trash2 } from 'lucide-react';
+
+interface OutboxModalProps {
+  entries: OutboxEntry[];
+  onRetry: (id: string) => void;
+  onDiscard: (id: string) => void;
+  onOpenCloudSettings: () => void;
+  onClose: () => void;
+}
+
+const COLLECTION_LABELS: Record<OutboxEntry['collection'], string> = {
+  clients: 'Empréstimo',
+  borrowers: 'Cadastro',
+  auditLog: 'Histórico',
+  settings: 'Configurações',
+  contacts: 'Contato'
+};
+
+export const OutboxModal: React.FC<OutboxModalProps> = ({ entries, onRetry, onDiscard, onOpenCloudSettings, onClose }) => {
+  const failed = entries.filter(e => e.status === 'failed');
+  const pending = entries.filter(e => e.status === 'pending');
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <CloudUpload className="text-blue-400" /> Fila de Sincronização
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">
+          {pending.length > 0
+            ? `${pending.length} ${pending.length === 1 ? 'alteração aguardando' : 'alterações aguardando'} envio. Elas são reenviadas automaticamente quando a conexão voltar.`
+            : 'Nenhuma alteração aguardando envio.'}
+        </p>
+
+        <h4 className="text-sm font-bold text-slate-300 mb-2">Falhas ({failed.length})</h4>
+        {failed.length === 0 ? (
+          <div className="p-4 text-center text-slate-500 text-sm border border-slate-800 rounded-lg mb-4">Nenhuma gravação com falha.</div>
+        ) : (
+          <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg mb-4">
+            {failed.map(entry => (
+              <div key={entry.id} className="p-3 flex items-center justify-between gap-3">
+                <div className="min-w-0">
+                  <p className="text-sm text-white font-bold truncate">{entry.label}</p>
+                  <p className="text-xs text-slate-400">
+                    {COLLECTION_LABELS[entry.collection]} · {entry.operation === 'delete' ? 'Exclusão' : 'Gravação'} · {entry.attempts} tentativas
+                  </p>
+                  {entry.lastError && <p className="text-[10px] text-red-400 truncate" title={entry.lastError}>{entry.lastError}</p>}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => onRetry(entry.id)}
+                    className="p-2 text-slate-400 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Tentar novamente"
+                  >
+                    <RotateCcw size={16} />
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (window.confirm(`Descartar a alteração de "${entry.label}"? Ela não será enviada para a nuvem.`)) onDiscard(entry.id);
+                    }}
+                    className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Descartar"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <button
+          onClick={onOpenCloudSettings}
+          className="w-full bg-slate-800 hover:bg-slate-700 text-slate-300 font-bold py-2 rounded-lg transition-colors border border-slate-700 text-sm"
+        >
+          Configurar Nuvem
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Installment, LateFeeSettings, PaymentEntry, PaymentMethod } from '../types';
+import { formatCurrency, parseISODate, toISODate } from '../constants';
+import { getInstallmentPaidAmount, getInstallmentRemaining, allocatePayment } from '../services/paymentService';
+import { calculateLateFee } from '../services/lateFeeService';
+import { X, Wallet, Plus, Trash2, Receipt } from 'lucide-react';
+
+interface PaymentLedgerModalProps {
+  clientName: string;
+  installment: Installment;
+  lateFeeSettings: LateFeeSettings; // Outstanding late charges are settled before the installment balance
+  onAddPayment: (payment: Omit<PaymentEntry, 'id'>) => void;
+  onRemovePayment: (paymentId: string) => void;
+  onReceipt: (paymentId?: string) => void; // Receipt for one payment, or for the whole installment
+  onClose: () => void;
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['Pix', 'Dinheiro', 'Transferência', 'Outro'];
+
+export const PaymentLedgerModal: React.FC<PaymentLedgerModalProps> = ({ clientName, installment, lateFeeSettings, onAddPayment, onRemovePayment, onReceipt, onClose }) => {
+  const remaining = getInstallmentRemaining(installment);
+  const paid = getInstallmentPaidAmount(installment);
+
+  const [date, setDate] = useState(toISODate(new Date()));
+
+  // Charges as of the payment date, so a payment recorded late is not charged the mora accrued since
+  const lateFee = date ? calculateLateFee(installment, lateFeeSettings, parseISODate(date)).total : 0;
+  const amountDue = remaining + lateFee;
+
+  const [amount, setAmount] = useState(amountDue > 0 ? amountDue.toFixed(2) : '');
+  const [method, setMethod] = useState<PaymentMethod>('Pix');
+  const [note, setNote] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) return;
+
+    const allocation = allocatePayment(value, lateFee);
+    const payment: Omit<PaymentEntry, 'id'> = { amount: value, date, method, lateFee: allocation.lateFee };
+    // Firestore rejects undefined fields, so the note is only set when filled in
+    if (note) payment.note = note;
+    onAddPayment(payment);
+
+    // Prefill the next entry with whatever is still open
+    const nextRemaining = Math.max(0, amountDue - value);
+    setAmount(nextRemaining > 0 ? nextRemaining.toFixed(2) : '');
+    setNote('');
+  };
+
+  const payments = installment.payments || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-md w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Wallet className="text-emerald-400" /> Pagamentos - Parcela #{installment.number}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex justify-between items-center mb-4">
+          <p className="text-xs text-slate-400">{clientName} · Vencimento {installment.dueDate.split('-').reverse().join('/')}</p>
+          {(paid > 0 || installment.isPaid) && (
+            <button onClick={() => onReceipt()} className="text-xs text-blue-400 hover:text-blue-300 flex items-center gap-1" title="Recibo de tudo o que foi pago nesta parcela">
+              <Receipt size={14} /> Recibo da parcela
+            </button>
+          )}
+        </div>
+
+        {/* Balance Summary */}
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <div className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block">Parcela</span>
+            <span className="text-sm text-white font-bold">{formatCurrency(installment.value)}</span>
+          </div>
+          <div className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block">Pago</span>
+            <span className="text-sm text-emerald-400 font-bold">{formatCurrency(paid)}</span>
+          </div>
+          <div className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block">Restante</span>
+            <span className="text-sm text-orange-400 font-bold">{formatCurrency(remaining)}</span>
+          </div>
+        </div>
+
+        {lateFee > 0 && (
+          <div className="bg-red-500/10 border border-red-500/30 text-red-400 text-xs p-2 rounded-lg mb-4">
+            Encargos de atraso: <b>{formatCurrency(lateFee)}</b> · Total atualizado: <b>{formatCurrency(amountDue)}</b>
+          </div>
+        )}
+
+        {/* Ledger */}
+        <div className="max-h-48 overflow-y-auto mb-4 divide-y divide-slate-800 border border-slate-800 rounded-lg">
+          {payments.length === 0 ? (
+            <div className="p-3 text-center text-slate-500 text-sm">
+              {installment.isPaid ? 'Marcada como paga (sem lançamentos).' : 'Nenhum pagamento registrado.'}
+            </div>
+          ) : (
+            payments.map(p => (
+              <div key={p.id} className="p-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-white font-bold">{formatCurrency(p.amount)} <span className="text-xs text-slate-500 font-normal">· {p.method}</span></p>
+                  {!!p.lateFee && <p className="text-[10px] text-red-400">Encargos: {formatCurrency(p.lateFee)}</p>}
+                  <p className="text-xs text-slate-400 font-mono">{p.date.split('-').reverse().join('/')}</p>
+                  {p.note && <p className="text-xs text-slate-500 italic">{p.note}</p>}
+                </div>
+                <div className="flex items-center">
+                  <button
+                    onClick={() => onReceipt(p.id)}
+                    className="p-2 text-slate-500 hover:text-blue-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Recibo deste pagamento"
+                  >
+                    <Receipt size={16} />
+                  </button>
+                  <button
+                    onClick={() => onRemovePayment(p.id)}
+                    className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+                    title="Remover lançamento"
+                  >
+                    <Trash2 size={16} />
+                  </button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* New Entry */}
+        <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Valor</label>
+            <input
+              type="number"
+              step="0.01"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+              placeholder="0.00"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Data</label>
+            <input
+              type="date"
+              value={date}
+              onChange={(e) => setDate(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+              required
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Forma</label>
+            <select
+              value={method}
+              onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+              className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+            >
+              {PAYMENT_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Observação</label>
+            <input
+              type="text"
+              value={note}
+              onChange={(e) => setNote(e.target.value)}
+              className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500"
+              placeholder="Opcional"
+            />
+          </div>
+          <button
+            type="submit"
+            className="col-span-2 bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+          >
+            <Plus size={16} /> Registrar Pagamento
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
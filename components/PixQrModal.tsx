@@ -0,0 +1,102 @@
+import React, { useMemo, useState } from 'react';
+import { Client, Installment, MessageSettings } from '../types';
+import { formatCurrency } from '../constants';
+import { getInstallmentPixAmount, getInstallmentPixCode, getInstallmentTxid } from '../services/pixService';
+import { getReminderLink } from '../services/messageTemplateService';
+import { encodeQrCode } from '../services/qrCodeService';
+import { X, QrCode, Copy, CheckCircle, MessageCircle } from 'lucide-react';
+
+interface PixQrModalProps {
+  loan: Client;
+  installment: Installment;
+  lateFee: number;
+  messageSettings: MessageSettings;
+  onClose: () => void;
+}
+
+// Quiet zone around the symbol, in modules
+const QUIET_ZONE = 4;
+
+// PIX QR code and "copia e cola" of one installment, for the exact amount due today
+export const PixQrModal: React.FC<PixQrModalProps> = ({ loan, installment, lateFee, messageSettings, onClose }) => {
+  const [copied, setCopied] = useState(false);
+  const code = getInstallmentPixCode(messageSettings, loan, installment, lateFee);
+
+  // One path with a 1x1 square per dark module
+  const qr = useMemo(() => {
+    if (!code) return null;
+    const modules = encodeQrCode(code);
+    const path = modules.flatMap((row, y) => row.map((dark, x) => dark ? `M${x + QUIET_ZONE},${y + QUIET_ZONE}h1v1h-1z` : '')).join('');
+    return { size: modules.length + QUIET_ZONE * 2, path };
+  }, [code]);
+
+  const handleCopy = async () => {
+    if (!code) return;
+    try {
+      await navigator.clipboard.writeText(code);
+      setCopied(true);
+    } catch (error) {
+      console.error("Clipboard error:", error);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-sm w-full shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <QrCode className="text-emerald-400" /> PIX - Parcela #{installment.number}
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!code || !qr ? (
+          <p className="bg-slate-800 border border-slate-700 text-slate-400 text-sm p-3 rounded-lg">
+            Configure a chave PIX em Configurações → Mensagens de cobrança para gerar o código.
+          </p>
+        ) : (
+          <>
+            <p className="text-sm text-slate-300 mb-1">{loan.name}</p>
+            <p className="text-2xl font-bold text-white mb-1">{formatCurrency(getInstallmentPixAmount(installment, lateFee))}</p>
+            {lateFee > 0 && <p className="text-[10px] text-slate-500 mb-1">Inclui {formatCurrency(lateFee)} de multa e juros de atraso</p>}
+            <p className="text-[10px] text-slate-500 font-mono mb-4">Identificador: {getInstallmentTxid(loan, installment)}</p>
+
+            <div className="bg-white rounded-lg p-2 mb-4">
+              <svg viewBox={`0 0 ${qr.size} ${qr.size}`} className="w-full h-auto" shapeRendering="crispEdges">
+                <path d={qr.path} fill="#000" />
+              </svg>
+            </div>
+
+            <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">PIX copia e cola</label>
+            <textarea
+              readOnly
+              value={code}
+              rows={3}
+              onFocus={(e) => e.target.select()}
+              className="w-full bg-slate-950 border border-slate-800 text-slate-300 rounded-lg px-3 py-2 text-xs font-mono break-all resize-none mb-3"
+            />
+
+            <div className="grid grid-cols-2 gap-2">
+              <button
+                onClick={handleCopy}
+                className="bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+              >
+                {copied ? <CheckCircle size={16} /> : <Copy size={16} />} {copied ? 'Copiado' : 'Copiar'}
+              </button>
+              <a
+                href={getReminderLink(messageSettings, loan, installment, lateFee)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={`bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm ${loan.phone ? '' : 'opacity-50 pointer-events-none'}`}
+              >
+                <MessageCircle size={16} /> WhatsApp
+              </a>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,152 @@
+import React, { useState } from 'react';
+import { Client, PaymentEntry, PaymentMethod } from '../types';
+import { formatCurrency, toISODate } from '../constants';
+import { getOutstandingPrincipal, getPrincipalRepaid } from '../services/revolvingService';
+import { X, Landmark, Plus, Trash2 } from 'lucide-react';
+
+interface PrincipalPaydownModalProps {
+  loan: Client; // Revolving loan ("juros mensais")
+  onAddPayment: (payment: Omit<PaymentEntry, 'id'>) => void;
+  onRemovePayment: (paymentId: string) => void;
+  onClose: () => void;
+}
+
+const PAYMENT_METHODS: PaymentMethod[] = ['Pix', 'Dinheiro', 'Transferência', 'Outro'];
+
+export const PrincipalPaydownModal: React.FC<PrincipalPaydownModalProps> = ({ loan, onAddPayment, onRemovePayment, onClose }) => {
+  const outstanding = getOutstandingPrincipal(loan);
+  const repaid = getPrincipalRepaid(loan);
+
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(toISODate(new Date()));
+  const [method, setMethod] = useState<PaymentMethod>('Pix');
+  const [note, setNote] = useState('');
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0 || value > outstanding) return;
+
+    const payment: Omit<PaymentEntry, 'id'> = { amount: value, date, method };
+    // Firestore rejects undefined fields, so the note is only set when filled in
+    if (note) payment.note = note;
+    onAddPayment(payment);
+
+    setAmount('');
+    setNote('');
+  };
+
+  const payments = loan.principalPayments || [];
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-md w-full shadow-2xl">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Landmark className="text-blue-400" /> Amortizar Principal
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <p className="text-xs text-slate-400 mb-4">{loan.name} · Juros de {loan.periodRate || 0}% por período sobre o saldo devedor</p>
+
+        {/* Balance Summary */}
+        <div className="grid grid-cols-3 gap-2 mb-4">
+          <div className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block">Emprestado</span>
+            <span className="text-sm text-white font-bold">{formatCurrency(loan.principal)}</span>
+          </div>
+          <div className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block">Amortizado</span>
+            <span className="text-sm text-emerald-400 font-bold">{formatCurrency(repaid)}</span>
+          </div>
+          <div className="bg-slate-800 p-2 rounded-lg border border-slate-700">
+            <span className="text-[10px] text-slate-500 uppercase font-bold block">Saldo Devedor</span>
+            <span className="text-sm text-orange-400 font-bold">{formatCurrency(outstanding)}</span>
+          </div>
+        </div>
+
+        {/* Paydowns */}
+        <div className="max-h-48 overflow-y-auto mb-4 divide-y divide-slate-800 border border-slate-800 rounded-lg">
+          {payments.length === 0 ? (
+            <div className="p-3 text-center text-slate-500 text-sm">Nenhuma amortização registrada.</div>
+          ) : (
+            payments.map(p => (
+              <div key={p.id} className="p-3 flex items-center justify-between">
+                <div>
+                  <p className="text-sm text-white font-bold">{formatCurrency(p.amount)} <span className="text-xs text-slate-500 font-normal">· {p.method}</span></p>
+                  <p className="text-xs text-slate-400 font-mono">{p.date.split('-').reverse().join('/')}</p>
+                  {p.note && <p className="text-xs text-slate-500 italic">{p.note}</p>}
+                </div>
+                <button
+                  onClick={() => onRemovePayment(p.id)}
+                  className="p-2 text-slate-500 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors"
+                  title="Remover amortização"
+                >
+                  <Trash2 size={16} />
+                </button>
+              </div>
+            ))
+          )}
+        </div>
+
+        {/* New Paydown */}
+        {outstanding > 0 && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Valor</label>
+              <input
+                type="number"
+                step="0.01"
+                max={outstanding}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                placeholder={outstanding.toFixed(2)}
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Data</label>
+              <input
+                type="date"
+                value={date}
+                onChange={(e) => setDate(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                required
+              />
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Forma</label>
+              <select
+                value={method}
+                onChange={(e) => setMethod(e.target.value as PaymentMethod)}
+                className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+              >
+                {PAYMENT_METHODS.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-xs text-slate-400 mb-1 uppercase font-bold">Observação</label>
+              <input
+                type="text"
+                value={note}
+                onChange={(e) => setNote(e.target.value)}
+                className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500"
+                placeholder="Opcional"
+              />
+            </div>
+            <button
+              type="submit"
+              className="col-span-2 bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <Plus size={16} /> Registrar Amortização
+            </button>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
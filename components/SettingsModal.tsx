@@ -0,0 +1,228 @@
+import React, { useState } from 'react';
+import { DailyReminderSettings, LateFeeSettings } from '../types';
+import { ReminderDelivery, requestNotificationPermission } from '../services/dailyReminderService';
+import { X, Save, Settings, Percent, User, MessageCircle, ChevronRight, Bell } from 'lucide-react';
+
+interface SettingsModalProps {
+  lateFeeSettings: LateFeeSettings;
+  actorName: string;
+  signedInEmail?: string; // With an account, the history records it instead of the name
+  dailyReminder: DailyReminderSettings;
+  reminderDelivery: ReminderDelivery;
+  onSave: (lateFeeSettings: LateFeeSettings, actorName: string, dailyReminder: DailyReminderSettings) => void;
+  onOpenTemplates: () => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-emerald-500";
+const labelClass = "block text-xs text-slate-400 mb-1 uppercase font-bold";
+
+export const SettingsModal: React.FC<SettingsModalProps> = ({ lateFeeSettings, actorName, signedInEmail, dailyReminder, reminderDelivery, onSave, onOpenTemplates, onClose }) => {
+  // Edit a local copy, nothing is applied until "Salvar"
+  const [lateFees, setLateFees] = useState<LateFeeSettings>(lateFeeSettings);
+  const [name, setName] = useState(actorName);
+  const [reminder, setReminder] = useState<DailyReminderSettings>(dailyReminder);
+  const [permissionDenied, setPermissionDenied] = useState(false);
+
+  // Turning the summary on asks for the notification permission right away, while there is a user gesture
+  const handleToggleReminder = async (enabled: boolean) => {
+    if (enabled && !(await requestNotificationPermission())) {
+      setPermissionDenied(true);
+      return;
+    }
+    setPermissionDenied(false);
+    setReminder(prev => ({ ...prev, enabled }));
+  };
+
+  const updateLateFees = <K extends keyof LateFeeSettings>(key: K, value: LateFeeSettings[K]) => {
+    setLateFees(prev => ({ ...prev, [key]: value }));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    onSave(lateFees, name.trim(), reminder);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-md w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-6">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Settings className="text-slate-400" /> Configurações
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <form onSubmit={handleSubmit}>
+          {/* Author shown in the change history */}
+          <div className="mb-6">
+            <h4 className="text-sm font-bold text-slate-300 flex items-center gap-2 mb-3">
+              <User size={14} className="text-blue-400" /> Histórico de Alterações
+            </h4>
+            {signedInEmail ? (
+              <p className="text-xs text-slate-400">Alterações registradas em nome da conta conectada, <span className="text-white font-mono">{signedInEmail}</span>.</p>
+            ) : (
+              <>
+                <label className={labelClass}>Seu nome</label>
+                <input
+                  type="text"
+                  value={name}
+                  onChange={(e) => setName(e.target.value)}
+                  placeholder="Ex: João"
+                  className={inputClass}
+                />
+                <p className="text-[10px] text-slate-500 mt-2">Registrado como autor de cada alteração feita neste aparelho.</p>
+              </>
+            )}
+          </div>
+
+          {/* WhatsApp reminder wording, shared by the team */}
+          <button
+            type="button"
+            onClick={onOpenTemplates}
+            className="w-full mb-6 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg px-3 py-2 text-sm text-slate-300 flex items-center justify-between transition-colors"
+          >
+            <span className="flex items-center gap-2"><MessageCircle size={14} className="text-green-400" /> Mensagens de cobrança (WhatsApp)</span>
+            <ChevronRight size={16} className="text-slate-500" />
+          </button>
+
+          {/* Daily summary notification */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-bold text-slate-300 flex items-center gap-2">
+                <Bell size={14} className="text-orange-400" /> Lembrete Diário
+              </h4>
+              <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={reminder.enabled}
+                  onChange={(e) => handleToggleReminder(e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                Ativo
+              </label>
+            </div>
+            <div className={reminder.enabled ? '' : 'opacity-50 pointer-events-none'}>
+              <label className={labelClass}>Horário</label>
+              <select
+                value={reminder.hour}
+                onChange={(e) => setReminder(prev => ({ ...prev, hour: parseInt(e.target.value, 10) }))}
+                className={inputClass}
+              >
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <option key={hour} value={hour}>{String(hour).padStart(2, '0')}:00</option>
+                ))}
+              </select>
+            </div>
+            {permissionDenied ? (
+              <p className="text-[10px] text-red-400 mt-2">Notificações bloqueadas neste navegador. Libere-as nas permissões do site.</p>
+            ) : reminderDelivery === 'unsupported' ? (
+              <p className="text-[10px] text-red-400 mt-2">Este navegador não permite lembretes do app; o resumo não será mostrado aqui.</p>
+            ) : reminderDelivery === 'open-only' ? (
+              <p className="text-[10px] text-orange-400 mt-2">Neste aparelho o resumo só chega com o app aberto. Para recebê-lo com o app fechado, instale o app (Chrome/Android: menu › Instalar app) e abra-o pelo ícone.</p>
+            ) : (
+              <p className="text-[10px] text-slate-500 mt-2">Resumo das parcelas do dia neste aparelho, também com o app fechado.</p>
+            )}
+          </div>
+
+          {/* Late Fees (Multa e Mora) */}
+          <div className="mb-6">
+            <div className="flex items-center justify-between mb-3">
+              <h4 className="text-sm font-bold text-slate-300 flex items-center gap-2">
+                <Percent size={14} className="text-red-400" /> Multa e Juros de Atraso
+              </h4>
+              <label className="flex items-center gap-2 text-xs text-slate-400 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={lateFees.enabled}
+                  onChange={(e) => updateLateFees('enabled', e.target.checked)}
+                  className="accent-emerald-500"
+                />
+                Ativo
+              </label>
+            </div>
+
+            <div className={`grid grid-cols-2 gap-3 ${lateFees.enabled ? '' : 'opacity-50 pointer-events-none'}`}>
+              <div>
+                <label className={labelClass}>Tipo de Multa</label>
+                <select
+                  value={lateFees.fineType}
+                  onChange={(e) => updateLateFees('fineType', e.target.value as LateFeeSettings['fineType'])}
+                  className={inputClass}
+                >
+                  <option value="percent">Percentual (%)</option>
+                  <option value="fixed">Valor Fixo (R$)</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Multa</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={lateFees.fineValue}
+                  onChange={(e) => updateLateFees('fineValue', parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Juros de Mora (%)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={lateFees.interestRate}
+                  onChange={(e) => updateLateFees('interestRate', parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Período</label>
+                <select
+                  value={lateFees.interestPeriod}
+                  onChange={(e) => updateLateFees('interestPeriod', e.target.value as LateFeeSettings['interestPeriod'])}
+                  className={inputClass}
+                >
+                  <option value="daily">Ao dia</option>
+                  <option value="monthly">Ao mês (pro rata)</option>
+                </select>
+              </div>
+              <div>
+                <label className={labelClass}>Carência (dias)</label>
+                <input
+                  type="number"
+                  min="0"
+                  value={lateFees.graceDays}
+                  onChange={(e) => updateLateFees('graceDays', parseInt(e.target.value, 10) || 0)}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label className={labelClass}>Teto (% do saldo)</label>
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={lateFees.capPercent}
+                  onChange={(e) => updateLateFees('capPercent', parseFloat(e.target.value) || 0)}
+                  className={inputClass}
+                  title="0 = sem teto"
+                />
+              </div>
+            </div>
+            <p className="text-[10px] text-slate-500 mt-2">Teto 0 = sem limite. Encargos são calculados sobre o saldo em aberto desde o vencimento.</p>
+          </div>
+
+          <button
+            type="submit"
+            className="w-full bg-emerald-600 hover:bg-emerald-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+          >
+            <Save size={16} /> Salvar
+          </button>
+        </form>
+      </div>
+    </div>
+  );
+};
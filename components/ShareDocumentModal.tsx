@@ -0,0 +1,72 @@
+import React, { useEffect, useState } from 'react';
+import { downloadFile, getWhatsAppUrl } from '../constants';
+import { LoanDocument, shareDocument } from '../services/receiptService';
+import { X, FileText, Download, MessageCircle } from 'lucide-react';
+
+interface ShareDocumentModalProps {
+  document: LoanDocument;
+  phone: string;
+  onClose: () => void;
+}
+
+// Preview of a generated receipt or statement, with download and WhatsApp sending
+export const ShareDocumentModal: React.FC<ShareDocumentModalProps> = ({ document, phone, onClose }) => {
+  const [previewUrl, setPreviewUrl] = useState('');
+  const [hint, setHint] = useState('');
+
+  useEffect(() => {
+    const url = URL.createObjectURL(document.pdf);
+    setPreviewUrl(url);
+    return () => URL.revokeObjectURL(url);
+  }, [document]);
+
+  // Phones can receive the PDF itself; elsewhere the file is downloaded and the chat opens with the message
+  const handleWhatsApp = async () => {
+    setHint('');
+    try {
+      if (await shareDocument(document)) return;
+    } catch (error) {
+      console.error("Share error:", error);
+    }
+    downloadFile(document.pdf, document.fileName);
+    window.open(getWhatsAppUrl(phone, document.message), '_blank', 'noopener,noreferrer');
+    setHint('O PDF foi baixado. Anexe o arquivo na conversa do WhatsApp.');
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[110] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-2xl w-full shadow-2xl max-h-[95vh] flex flex-col">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2 min-w-0">
+            <FileText className="text-blue-400 shrink-0" /> <span className="truncate">{document.title}</span>
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        {previewUrl && (
+          <iframe src={previewUrl} title={document.title} className="w-full flex-1 min-h-[50vh] bg-white rounded-lg mb-4" />
+        )}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => downloadFile(document.pdf, document.fileName)}
+            className="flex-1 bg-slate-800 hover:bg-slate-700 text-slate-200 font-bold py-2 rounded-lg transition-colors border border-slate-700 flex items-center justify-center gap-2 text-sm"
+          >
+            <Download size={16} /> Baixar PDF
+          </button>
+          {phone && (
+            <button
+              onClick={handleWhatsApp}
+              className="flex-1 bg-green-600 hover:bg-green-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+            >
+              <MessageCircle size={16} /> Enviar no WhatsApp
+            </button>
+          )}
+        </div>
+        {hint && <p className="text-xs text-slate-400 mt-2">{hint}</p>}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,176 @@
+import React, { useState } from 'react';
+import { Client, LateFeeSettings } from '../types';
+import { formatCurrency } from '../constants';
+import { ReconciledPayment, ReconciliationItem, StatementParseResult, buildReconciledPayment, matchTransactions, parseStatementFiles } from '../services/reconciliationService';
+import { X, Landmark, Upload, AlertTriangle, CheckCircle } from 'lucide-react';
+
+interface StatementImportModalProps {
+  clients: Client[];
+  lateFeeSettings: LateFeeSettings;
+  onConfirm: (payments: ReconciledPayment[]) => void;
+  onClose: () => void;
+}
+
+const formatDate = (isoDate: string) => isoDate.split('-').reverse().join('/');
+
+const candidateValue = (clientId: string, installmentNumber: number) => `${clientId}#${installmentNumber}`;
+
+// Bank statement review: each credit with the installment it was matched to, which can be changed or cleared
+export const StatementImportModal: React.FC<StatementImportModalProps> = ({ clients, lateFeeSettings, onConfirm, onClose }) => {
+  const [parsed, setParsed] = useState<StatementParseResult | null>(null);
+  const [items, setItems] = useState<ReconciliationItem[]>([]);
+  const [selection, setSelection] = useState<Record<string, string>>({}); // Transaction id -> "clientId#installment", '' = ignore
+  const [recorded, setRecorded] = useState<number | null>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files: File[] = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    const contents = await Promise.all(files.map(async file => ({ name: file.name, text: await file.text() })));
+    const result = parseStatementFiles(contents);
+    const matched = matchTransactions(result.transactions, clients, lateFeeSettings);
+    setParsed(result);
+    setItems(matched);
+    setSelection(Object.fromEntries(matched.map(item => [
+      item.transaction.id,
+      item.suggested ? candidateValue(item.suggested.clientId, item.suggested.installmentNumber) : ''
+    ])));
+    setRecorded(null);
+  };
+
+  const selectedItems = items.filter(item => !item.alreadyRecorded && selection[item.transaction.id]);
+  const unmatched = items.filter(item => !item.alreadyRecorded && !selection[item.transaction.id]).length;
+  const alreadyRecorded = items.filter(item => item.alreadyRecorded).length;
+
+  const handleConfirm = () => {
+    const payments = selectedItems.flatMap(item => {
+      const [clientId, number] = selection[item.transaction.id].split('#');
+      const loan = clients.find(c => c.id === clientId);
+      const inst = loan?.installmentsList.find(i => i.number === Number(number));
+      return loan && inst ? [buildReconciledPayment(item.transaction, loan, inst, lateFeeSettings)] : [];
+    });
+    if (payments.length === 0) return;
+    onConfirm(payments);
+    setRecorded(payments.length);
+    setParsed(null);
+    setItems([]);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-3xl w-full shadow-2xl max-h-[95vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Landmark className="text-blue-400" /> Conciliação Bancária
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <label className="w-full bg-blue-600 hover:bg-blue-500 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm cursor-pointer">
+          <Upload size={16} /> Escolher extrato (.ofx ou .csv)
+          <input type="file" accept=".ofx,.csv,.txt" multiple onChange={handleFiles} className="hidden" />
+        </label>
+        <p className="text-[10px] text-slate-500 mt-1 mb-4">
+          Somente as entradas são consideradas. No CSV são necessárias as colunas data e valor (ou crédito); descrição e nome do pagador ajudam a encontrar o cliente.
+        </p>
+
+        {recorded !== null && (
+          <p className="bg-emerald-500/10 border border-emerald-500/30 text-emerald-400 text-sm p-3 rounded-lg mb-4 flex items-center gap-2">
+            <CheckCircle size={16} /> {recorded} {recorded === 1 ? 'pagamento registrado' : 'pagamentos registrados'}.
+          </p>
+        )}
+
+        {parsed && (
+          <>
+            {parsed.issues.length > 0 && (
+              <div className="bg-orange-500/10 border border-orange-500/30 text-orange-300 text-xs p-3 rounded-lg mb-4 space-y-1">
+                {parsed.issues.map((issue, i) => (
+                  <p key={i} className="flex items-center gap-1">
+                    <AlertTriangle size={12} /> {issue.file}{issue.row > 0 ? ` (linha ${issue.row})` : ''}: {issue.message}
+                  </p>
+                ))}
+              </div>
+            )}
+
+            <p className="text-xs text-slate-400 mb-2">
+              {items.length} {items.length === 1 ? 'entrada' : 'entradas'} · {selectedItems.length} para registrar · {unmatched} sem correspondência
+              {alreadyRecorded > 0 && ` · ${alreadyRecorded} já registradas`}
+              {parsed.debits > 0 && ` · ${parsed.debits} saídas ignoradas`}
+            </p>
+
+            <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg mb-4">
+              {items.length === 0 && <div className="p-3 text-center text-slate-500 text-sm">Nenhuma entrada no extrato.</div>}
+              {items.map(item => {
+                const { transaction } = item;
+                const value = selection[transaction.id] || '';
+                const selected = item.candidates.find(c => candidateValue(c.clientId, c.installmentNumber) === value);
+                const suggestions = item.candidates.filter(c => c.score > 0);
+                const others = item.candidates.filter(c => c.score === 0);
+                const badge = item.alreadyRecorded
+                  ? { text: 'Já registrado', className: 'bg-slate-700/50 text-slate-400 border-slate-600' }
+                  : !value
+                    ? { text: 'Sem correspondência', className: 'bg-red-500/20 text-red-400 border-red-500/30' }
+                    : value === (item.suggested && candidateValue(item.suggested.clientId, item.suggested.installmentNumber))
+                      ? item.confidence === 'high'
+                        ? { text: 'Alta confiança', className: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30' }
+                        : { text: 'Confirme', className: 'bg-orange-500/20 text-orange-400 border-orange-500/30' }
+                      : { text: 'Manual', className: 'bg-blue-500/20 text-blue-400 border-blue-500/30' };
+
+                return (
+                  <div key={transaction.id} className={`p-3 ${item.alreadyRecorded ? 'opacity-50' : ''}`}>
+                    <div className="flex justify-between items-start gap-2 mb-2">
+                      <div className="min-w-0">
+                        <p className="text-sm text-white font-bold truncate">{transaction.payerName || 'Sem descrição'}</p>
+                        <p className="text-[10px] text-slate-500 truncate">{formatDate(transaction.date)} · {transaction.description}</p>
+                      </div>
+                      <div className="text-right shrink-0">
+                        <p className="text-sm font-bold text-emerald-400 font-mono">{formatCurrency(transaction.amount)}</p>
+                        <span className={`text-[10px] font-bold px-2 py-0.5 rounded border ${badge.className}`}>{badge.text}</span>
+                      </div>
+                    </div>
+                    {!item.alreadyRecorded && (
+                      <>
+                        <select
+                          value={value}
+                          onChange={(e) => setSelection(prev => ({ ...prev, [transaction.id]: e.target.value }))}
+                          className="w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-xs focus:outline-none focus:border-emerald-500"
+                        >
+                          <option value="">Não registrar</option>
+                          {[{ label: 'Sugestões', list: suggestions }, { label: 'Outras parcelas em aberto', list: others }].map(group => group.list.length > 0 && (
+                            <optgroup key={group.label} label={group.label}>
+                              {group.list.map(c => (
+                                <option key={candidateValue(c.clientId, c.installmentNumber)} value={candidateValue(c.clientId, c.installmentNumber)}>
+                                  {c.name} · Parcela #{c.installmentNumber} · {formatDate(c.dueDate)} · {formatCurrency(c.amountDue)}
+                                </option>
+                              ))}
+                            </optgroup>
+                          ))}
+                        </select>
+                        {selected && (
+                          <p className="text-[10px] text-slate-500 mt-1">
+                            Coincide: {selected.reasons.length > 0 ? selected.reasons.join(', ') : 'nada'}
+                            {Math.abs(selected.amountDue - transaction.amount) >= 0.01 && ` · em aberto ${formatCurrency(selected.amountDue)}`}
+                          </p>
+                        )}
+                      </>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+
+            <button
+              onClick={handleConfirm}
+              disabled={selectedItems.length === 0}
+              className="w-full bg-emerald-600 hover:bg-emerald-500 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2"
+            >
+              <CheckCircle size={16} /> Registrar {selectedItems.length} {selectedItems.length === 1 ? 'pagamento' : 'pagamentos'}
+            </button>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
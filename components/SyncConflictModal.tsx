@@ -0,0 +1,66 @@
+import React from 'react';
+import { SyncConflict } from '../types';
+import { X, GitMerge, Smartphone, Cloud } from 'lucide-react';
+
+interface SyncConflictModalProps {
+  conflicts: SyncConflict[];
+  onResolve: (conflict: SyncConflict, keepLocal: boolean) => void;
+  onClose: () => void;
+}
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '(vazio)';
+  if (typeof value === 'boolean') return value ? 'Sim' : 'Não';
+  if (Array.isArray(value)) return value.join(', ') || '(vazio)';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+export const SyncConflictModal: React.FC<SyncConflictModalProps> = ({ conflicts, onResolve, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <GitMerge className="text-orange-400" /> Conflitos de Sincronização
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">
+          Estes campos foram alterados neste aparelho e em outro ao mesmo tempo. A versão mais recente foi aplicada; escolha qual manter.
+        </p>
+
+        {conflicts.length === 0 ? (
+          <div className="p-4 text-center text-slate-500 text-sm">Nenhum conflito pendente.</div>
+        ) : (
+          <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="p-3">
+                <p className="text-sm text-white font-bold">{conflict.recordName}</p>
+                <p className="text-xs text-slate-400 mb-2">{conflict.label}</p>
+                <div className="grid grid-cols-2 gap-2">
+                  <button
+                    onClick={() => onResolve(conflict, true)}
+                    className="text-left bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg p-2 transition-colors"
+                  >
+                    <span className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1"><Smartphone size={10} /> Este aparelho</span>
+                    <span className="text-sm text-slate-200 break-words">{formatValue(conflict.localValue)}</span>
+                  </button>
+                  <button
+                    onClick={() => onResolve(conflict, false)}
+                    className="text-left bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg p-2 transition-colors"
+                  >
+                    <span className="text-[10px] text-slate-500 uppercase font-bold flex items-center gap-1"><Cloud size={10} /> Nuvem</span>
+                    <span className="text-sm text-slate-200 break-words">{formatValue(conflict.remoteValue)}</span>
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
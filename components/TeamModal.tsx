@@ -0,0 +1,112 @@
+import React, { useState } from 'react';
+import { Borrower, CollectorInvite, WorkspaceMember } from '../types';
+import { X, Users, UserPlus, Trash2, Clock } from 'lucide-react';
+
+interface TeamModalProps {
+  members: WorkspaceMember[]; // Collectors who already signed in
+  invites: CollectorInvite[];
+  borrowers: Borrower[];
+  emailVerified: boolean; // Invitations are only accepted from a confirmed email
+  onInvite: (email: string, name: string) => Promise<void>;
+  onRemove: (email: string, memberId?: string) => void;
+  onClose: () => void;
+}
+
+const inputClass = "w-full bg-slate-950 border border-slate-800 text-white rounded-lg px-3 py-2 text-sm focus:outline-none focus:border-blue-500";
+
+export const TeamModal: React.FC<TeamModalProps> = ({ members, invites, borrowers, emailVerified, onInvite, onRemove, onClose }) => {
+  const [email, setEmail] = useState('');
+  const [name, setName] = useState('');
+  const [error, setError] = useState('');
+
+  const memberEmails = new Set(members.map(m => m.email.toLowerCase()));
+  const pending = invites.filter(i => !memberEmails.has(i.email));
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError('');
+    try {
+      await onInvite(email, name);
+      setEmail('');
+      setName('');
+    } catch (err) {
+      console.error("Invite error:", err);
+      setError('Não foi possível enviar o convite.');
+    }
+  };
+
+  const confirmRemove = (label: string, memberEmail: string, memberId?: string) => {
+    if (window.confirm(`Remover "${label}" da equipe? O acesso aos dados é revogado imediatamente.`)) onRemove(memberEmail, memberId);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-2">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Users className="text-blue-400" /> Equipe de Cobrança
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+        <p className="text-xs text-slate-400 mb-4">
+          Cobradores veem apenas os clientes atribuídos a eles (no cadastro do cliente), registram pagamentos e enviam lembretes. Não veem os totais da carteira nem editam ou excluem empréstimos.
+        </p>
+
+        <form onSubmit={handleInvite} className="grid grid-cols-2 gap-2 mb-2">
+          <input type="text" value={name} onChange={(e) => setName(e.target.value)} placeholder="Nome" className={inputClass} required />
+          <input type="email" value={email} onChange={(e) => setEmail(e.target.value)} placeholder="E-mail da conta" className={inputClass} required />
+          <button
+            type="submit"
+            disabled={!emailVerified}
+            className="col-span-2 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white font-bold py-2 rounded-lg transition-colors flex items-center justify-center gap-2 text-sm"
+          >
+            <UserPlus size={16} /> Convidar cobrador
+          </button>
+        </form>
+        {error && <p className="text-xs text-red-400 mb-2">{error}</p>}
+        {!emailVerified && <p className="text-xs text-orange-400 mb-2">Confirme o seu e-mail (pelo link enviado ao criar a conta) e entre de novo para convidar cobradores.</p>}
+        <p className="text-[10px] text-slate-500 mb-4">O cobrador entra com esse e-mail (criando a conta se preciso), confirma o endereço e aceita o convite para acessar esta carteira.</p>
+
+        <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+          {members.length === 0 && pending.length === 0 && (
+            <div className="p-4 text-center text-slate-500 text-sm">Nenhum cobrador na equipe.</div>
+          )}
+          {members.map(member => (
+            <div key={member.id} className="p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-white font-bold truncate">{member.name || member.email}</p>
+                <p className="text-xs text-slate-400 truncate">
+                  {member.email} · {borrowers.filter(b => !b.isDeleted && b.collectorId === member.id).length} clientes
+                </p>
+              </div>
+              <button
+                onClick={() => confirmRemove(member.name || member.email, member.email, member.id)}
+                className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors shrink-0"
+                title="Remover da equipe"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+          {pending.map(invite => (
+            <div key={invite.id} className="p-3 flex items-center justify-between gap-3">
+              <div className="min-w-0">
+                <p className="text-sm text-slate-300 font-bold truncate">{invite.name || invite.email}</p>
+                <p className="text-xs text-slate-500 truncate flex items-center gap-1"><Clock size={10} /> {invite.email} · aguardando aceite</p>
+              </div>
+              <button
+                onClick={() => confirmRemove(invite.name || invite.email, invite.email)}
+                className="p-2 text-slate-400 hover:text-red-400 hover:bg-slate-800 rounded-lg transition-colors shrink-0"
+                title="Cancelar convite"
+              >
+                <Trash2 size={16} />
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
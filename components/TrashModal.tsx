@@ -0,0 +1,105 @@
+import React from 'react';
+import { formatCurrency } from '../constants';
+import { TRASH_RETENTION_OPTIONS, TrashedLoan, getDaysUntilPurge } from '../services/trashService';
+import { X, Trash2, Undo2, User } from 'lucide-react';
+
+interface TrashModalProps {
+  trashed: TrashedLoan[]; // Newest deletions first
+  retentionDays: number; // 0 = no auto-purge
+  onChangeRetention: (days: number) => void;
+  onRestore: (loanId: string) => void;
+  onPurge: (loanIds: string[]) => void;
+  onClose: () => void;
+}
+
+const formatTimestamp = (timestamp: number): string => {
+  if (!timestamp) return 'data desconhecida';
+  return new Date(timestamp).toLocaleString('pt-BR', { day: '2-digit', month: '2-digit', year: '2-digit', hour: '2-digit', minute: '2-digit' });
+};
+
+export const TrashModal: React.FC<TrashModalProps> = ({ trashed, retentionDays, onChangeRetention, onRestore, onPurge, onClose }) => {
+  const handlePurge = (loanIds: string[], label: string) => {
+    if (window.confirm(`Excluir definitivamente ${label}? Esta ação não pode ser desfeita.`)) onPurge(loanIds);
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/80 flex items-center justify-center z-[100] p-4 backdrop-blur-sm">
+      <div className="bg-slate-900 border border-slate-700 rounded-xl p-6 max-w-lg w-full shadow-2xl max-h-[90vh] overflow-y-auto">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="text-lg font-bold text-white flex items-center gap-2">
+            <Trash2 className="text-red-400" /> Lixeira
+          </h3>
+          <button onClick={onClose} className="text-slate-400 hover:text-white">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between gap-3 mb-4">
+          <label className="text-xs text-slate-400 flex items-center gap-2">
+            Excluir definitivamente após
+            <select
+              value={retentionDays}
+              onChange={(e) => onChangeRetention(parseInt(e.target.value, 10))}
+              className="bg-slate-950 border border-slate-800 text-white rounded-lg px-2 py-1 text-xs focus:outline-none focus:border-emerald-500"
+            >
+              {TRASH_RETENTION_OPTIONS.map(days => (
+                <option key={days} value={days}>{days === 0 ? 'Nunca' : `${days} dias`}</option>
+              ))}
+            </select>
+          </label>
+          {trashed.length > 0 && (
+            <button
+              onClick={() => handlePurge(trashed.map(t => t.loan.id), `os ${trashed.length} empréstimos da lixeira`)}
+              className="text-xs text-red-400 hover:text-red-300 font-bold"
+            >
+              Esvaziar lixeira
+            </button>
+          )}
+        </div>
+
+        {trashed.length === 0 ? (
+          <div className="p-4 text-center text-slate-500 text-sm border border-slate-800 rounded-lg">A lixeira está vazia.</div>
+        ) : (
+          <div className="divide-y divide-slate-800 border border-slate-800 rounded-lg">
+            {trashed.map(({ loan, deletedAt, deletedBy }) => {
+              const daysLeft = getDaysUntilPurge(deletedAt, retentionDays);
+              return (
+                <div key={loan.id} className="p-3 flex justify-between items-start gap-3">
+                  <div className="min-w-0">
+                    <p className="text-sm text-white font-bold truncate">{loan.name}</p>
+                    <p className="text-xs text-slate-400">
+                      {formatCurrency(loan.principal)} · {loan.installments}x · início {loan.startDate.split('-').reverse().join('/')}
+                    </p>
+                    <p className="text-[10px] text-slate-500 font-mono flex items-center gap-1">
+                      Excluído em {formatTimestamp(deletedAt)} · <User size={10} /> {deletedBy}
+                    </p>
+                    {daysLeft !== null && (
+                      <p className="text-[10px] text-orange-400">
+                        {daysLeft === 0 ? 'Será excluído definitivamente hoje' : `Exclusão definitiva em ${daysLeft} ${daysLeft === 1 ? 'dia' : 'dias'}`}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-1 shrink-0">
+                    <button
+                      onClick={() => onRestore(loan.id)}
+                      className="text-xs px-2 py-1 rounded border border-emerald-500/30 text-emerald-400 hover:bg-emerald-500/10 flex items-center gap-1"
+                    >
+                      <Undo2 size={12} /> Restaurar
+                    </button>
+                    <button
+                      onClick={() => handlePurge([loan.id], `o empréstimo de ${loan.name}`)}
+                      className="p-1.5 rounded border border-red-500/30 text-red-400 hover:bg-red-500/10"
+                      title="Excluir definitivamente"
+                    >
+                      <Trash2 size={12} />
+                    </button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+// Service worker for the daily collection summary. The app sends the summaries of the next days
+// (see services/dailyReminderService.ts); the worker shows the current day's one as a local
+// notification once the configured hour has passed. No push server is involved: the checks come
+// from the open app and, for installed apps, from Periodic Background Sync.
+
+const CACHE_NAME = 'daily-reminder';
+// Relative to the worker's scope, so the app also works under a base path
+const STATE_URL = new URL('__daily-reminder-state', self.registration.scope).href;
+
+const DEFAULT_STATE = { enabled: false, hour: 8, schedule: [], lastShown: '' };
+
+// Service workers have no localStorage; the state is kept as a cached JSON response
+const readState = async () => {
+  const cache = await caches.open(CACHE_NAME);
+  const response = await cache.match(STATE_URL);
+  return response ? { ...DEFAULT_STATE, ...(await response.json()) } : DEFAULT_STATE;
+};
+
+const writeState = async (state) => {
+  const cache = await caches.open(CACHE_NAME);
+  await cache.put(STATE_URL, new Response(JSON.stringify(state), { headers: { 'Content-Type': 'application/json' } }));
+};
+
+// Same YYYY-MM-DD local date as toISODate in constants.ts
+const toISODate = (date) => {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+// At most one notification a day, after the configured hour
+const showDailySummary = async () => {
+  const state = await readState();
+  const now = new Date();
+  const today = toISODate(now);
+  if (!state.enabled || state.lastShown === today || now.getHours() < state.hour) return;
+
+  const summary = state.schedule.find(s => s.date === today);
+  await writeState({ ...state, lastShown: today });
+  if (!summary) return;
+
+  await self.registration.showNotification(summary.title, {
+    body: summary.body,
+    tag: 'daily-summary',
+    data: { borrowerKey: summary.borrowerKey }
+  });
+};
+
+self.addEventListener('install', () => self.skipWaiting());
+
+self.addEventListener('activate', (event) => event.waitUntil(self.clients.claim()));
+
+self.addEventListener('message', (event) => {
+  const message = event.data || {};
+  if (message.type === 'schedule') {
+    event.waitUntil(readState()
+      .then(state => writeState({ ...state, enabled: message.enabled, hour: message.hour, schedule: message.schedule }))
+      .then(showDailySummary));
+  } else if (message.type === 'check') {
+    event.waitUntil(showDailySummary());
+  }
+});
+
+self.addEventListener('periodicsync', (event) => {
+  if (event.tag === 'daily-reminder') event.waitUntil(showDailySummary());
+});
+
+// Open the most urgent borrower: in the app if it is open, otherwise through ?borrower=<key>
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const borrowerKey = event.notification.data && event.notification.data.borrowerKey;
+  const url = new URL(borrowerKey ? `?borrower=${encodeURIComponent(borrowerKey)}` : '.', self.registration.scope).href;
+
+  event.waitUntil(self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then(windows => {
+    const open = windows[0];
+    if (!open) return self.clients.openWindow(url);
+    if (borrowerKey) open.postMessage({ type: 'open-borrower', borrowerKey });
+    return open.focus();
+  }));
+});
@@ -1,48 +1,337 @@
-import { GoogleGenAI } from "@google/genai";
-import { Client } from "../types";
+import { GoogleGenAI, Type } from "@google/genai";
+import { Client, LateFeeSettings } from "../types";
+import { formatCurrency, getDaysUntilDue, hashString, roundCents, toISODate } from "../constants";
+import { getInstallmentRemaining } from "./paymentService";
+import { calculateLateFee, getClientLateFeesAccrued } from "./lateFeeService";
+import { getLoanInvested, getLoanOutstanding, getLoanReceived } from "./loanService";
+import { getBorrowerKey } from "./borrowerService";
+import { BorrowerRisk, RiskGrade, getBorrowerRisk } from "./riskService";
 
-const getAiClient = () => {
-  const apiKey = process.env.API_KEY;
-  if (!apiKey) {
-    console.warn("API Key not found");
-    return null;
+// Portfolio insights: a snapshot of the portfolio goes to an InsightsProvider, which answers with
+// structured insights. The last answer is cached on this device with when it was generated.
+
+export const AI_INSIGHTS_CACHE_KEY = 'ai_insights';
+
+const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+// What the provider sees of each borrower (no phone or CPF)
+export interface BorrowerSnapshot {
+  key: string; // See getBorrowerKey
+  name: string;
+  loans: number;
+  invested: number;
+  received: number;
+  outstanding: number; // Open balance, late charges not included
+  lateFees: number;
+  paidInstallments: number;
+  totalInstallments: number;
+  overdueInstallments: number;
+  overdueAmount: number; // Open balance of the overdue installments plus their late charges
+  maxDaysOverdue: number;
+  renegotiations: number;
+  riskGrade: RiskGrade;
+  riskScore: number;
+}
+
+export interface PortfolioSnapshot {
+  date: string; // YYYY-MM-DD
+  totals: {
+    borrowers: number;
+    invested: number;
+    received: number;
+    outstanding: number;
+    lateFees: number;
+    overdueAmount: number;
+  };
+  borrowers: BorrowerSnapshot[]; // Largest open balance first
+}
+
+export type InsightPriority = 'high' | 'medium' | 'low';
+
+export interface TopExposure {
+  borrowerKey: string;
+  name: string;
+  amount: number;
+  reason: string;
+}
+
+export interface SuggestedAction {
+  borrowerKey: string;
+  name: string;
+  priority: InsightPriority;
+  action: string;
+}
+
+export interface PortfolioInsights {
+  riskSummary: string;
+  topExposures: TopExposure[];
+  actions: SuggestedAction[]; // Most urgent first
+}
+
+export interface InsightsProvider {
+  id: string;
+  label: string;
+  analyze: (snapshot: PortfolioSnapshot) => Promise<PortfolioInsights>;
+}
+
+export interface CachedInsights {
+  insights: PortfolioInsights;
+  providerId: string;
+  generatedAt: number;
+  snapshotHash: string; // Tells whether the portfolio changed since
+}
+
+export const PRIORITY_LABELS: Record<InsightPriority, string> = {
+  high: 'Alta',
+  medium: 'Média',
+  low: 'Baixa'
+};
+
+const PRIORITY_ORDER: InsightPriority[] = ['high', 'medium', 'low'];
+
+const TOP_EXPOSURES = 5;
+
+const getBorrowerSnapshot = (key: string, loans: Client[], risk: BorrowerRisk, lateFeeSettings: LateFeeSettings, today: Date): BorrowerSnapshot => {
+  const installments = loans.flatMap(l => l.installmentsList).filter(i => !i.isRenegotiated);
+  const overdue = installments.filter(i => !i.isPaid && getDaysUntilDue(i.dueDate, today) < 0);
+  const latest = loans.reduce((a, b) => b.startDate > a.startDate ? b : a);
+  return {
+    key,
+    name: latest.name,
+    loans: loans.length,
+    invested: roundCents(loans.reduce((sum, l) => sum + getLoanInvested(l), 0)),
+    received: roundCents(loans.reduce((sum, l) => sum + getLoanReceived(l), 0)),
+    outstanding: roundCents(loans.reduce((sum, l) => sum + getLoanOutstanding(l), 0)),
+    lateFees: roundCents(loans.reduce((sum, l) => sum + getClientLateFeesAccrued(l, lateFeeSettings), 0)),
+    paidInstallments: installments.filter(i => i.isPaid).length,
+    totalInstallments: installments.length,
+    overdueInstallments: overdue.length,
+    overdueAmount: roundCents(overdue.reduce((sum, i) => sum + getInstallmentRemaining(i) + calculateLateFee(i, lateFeeSettings).total, 0)),
+    maxDaysOverdue: overdue.reduce((max, i) => Math.max(max, -getDaysUntilDue(i.dueDate, today)), 0),
+    renegotiations: risk.renegotiations,
+    riskGrade: risk.grade,
+    riskScore: risk.score
+  };
+};
+
+export const buildPortfolioSnapshot = (clients: Client[], lateFeeSettings: LateFeeSettings, today: Date = new Date()): PortfolioSnapshot => {
+  const loansByKey = new Map<string, Client[]>();
+  clients.filter(c => !c.isDeleted).forEach(c => {
+    const key = getBorrowerKey(c);
+    loansByKey.set(key, [...(loansByKey.get(key) || []), c]);
+  });
+
+  const borrowers = [...loansByKey]
+    .map(([key, loans]) => getBorrowerSnapshot(key, loans, getBorrowerRisk(loans, lateFeeSettings, today), lateFeeSettings, today))
+    .sort((a, b) => (b.outstanding + b.lateFees) - (a.outstanding + a.lateFees) || a.name.localeCompare(b.name));
+
+  const total = (field: 'invested' | 'received' | 'outstanding' | 'lateFees' | 'overdueAmount') =>
+    roundCents(borrowers.reduce((sum, b) => sum + b[field], 0));
+
+  return {
+    date: toISODate(today),
+    totals: {
+      borrowers: borrowers.length,
+      invested: total('invested'),
+      received: total('received'),
+      outstanding: total('outstanding'),
+      lateFees: total('lateFees'),
+      overdueAmount: total('overdueAmount')
+    },
+    borrowers
+  };
+};
+
+// The date is left out so an analysis only goes stale when the data changes, not overnight
+export const getSnapshotHash = (snapshot: PortfolioSnapshot): string =>
+  hashString(JSON.stringify({ totals: snapshot.totals, borrowers: snapshot.borrowers }));
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isPriority = (value: unknown): value is InsightPriority => PRIORITY_ORDER.some(p => p === value);
+const objectsIn = (value: unknown): Record<string, unknown>[] => Array.isArray(value) ? value.filter(isObject) : [];
+
+// Keeps only well-formed entries about borrowers that are in the snapshot; names come from the snapshot
+export const parseInsights = (text: string, snapshot: PortfolioSnapshot): PortfolioInsights => {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch (e) {
+    throw new Error('Resposta da análise não é um JSON válido');
   }
-  return new GoogleGenAI({ apiKey });
-};
-
-export const analyzePortfolio = async (clients: Client[]): Promise<string> => {
-  const ai = getAiClient();
-  if (!ai) return "API Key missing. Cannot generate insights.";
-
-  const portfolioData = clients.map(c => ({
-    name: c.name,
-    invested: c.principal,
-    rate: c.interestRate + "%",
-    months: c.installments,
-    totalReturn: c.principal * (1 + c.interestRate/100)
-  }));
-
-  const prompt = `
-    You are a senior financial portfolio manager. Analyze the following loan portfolio data (in JSON format).
-    
-    Data: ${JSON.stringify(portfolioData)}
-
-    Please provide a brief, high-level executive summary (max 3 paragraphs) covering:
-    1. Total risk exposure.
-    2. Projected profitability.
-    3. Advice on diversification or risk management based on the current distribution.
-    
-    Keep the tone professional, analytical, and concise. Do not use markdown bolding excessively.
+  if (!isObject(data) || typeof data.riskSummary !== 'string') throw new Error('Resposta da análise sem resumo de risco');
+
+  const byKey = new Map(snapshot.borrowers.map(b => [b.key, b]));
+  const borrowerOf = (entry: Record<string, unknown>) => typeof entry.borrowerKey === 'string' ? byKey.get(entry.borrowerKey) : undefined;
+
+  const topExposures: TopExposure[] = objectsIn(data.topExposures).flatMap(e => {
+    const borrower = borrowerOf(e);
+    if (!borrower) return [];
+    return [{
+      borrowerKey: borrower.key,
+      name: borrower.name,
+      amount: typeof e.amount === 'number' ? roundCents(e.amount) : borrower.outstanding,
+      reason: String(e.reason || '')
+    }];
+  });
+
+  const actions: SuggestedAction[] = objectsIn(data.actions).flatMap(a => {
+    const borrower = borrowerOf(a);
+    if (!borrower || typeof a.action !== 'string' || !a.action) return [];
+    return [{
+      borrowerKey: borrower.key,
+      name: borrower.name,
+      priority: isPriority(a.priority) ? a.priority : 'medium',
+      action: a.action
+    }];
+  });
+
+  return {
+    riskSummary: data.riskSummary,
+    topExposures,
+    actions: actions.sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority))
+  };
+};
+
+const INSIGHTS_SCHEMA = {
+  type: Type.OBJECT,
+  properties: {
+    riskSummary: { type: Type.STRING },
+    topExposures: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          borrowerKey: { type: Type.STRING },
+          amount: { type: Type.NUMBER },
+          reason: { type: Type.STRING }
+        },
+        required: ['borrowerKey', 'amount', 'reason']
+      }
+    },
+    actions: {
+      type: Type.ARRAY,
+      items: {
+        type: Type.OBJECT,
+        properties: {
+          borrowerKey: { type: Type.STRING },
+          priority: { type: Type.STRING, enum: PRIORITY_ORDER },
+          action: { type: Type.STRING }
+        },
+        required: ['borrowerKey', 'priority', 'action']
+      }
+    }
+  },
+  required: ['riskSummary', 'topExposures', 'actions']
+};
+
+const buildPrompt = (snapshot: PortfolioSnapshot): string => `
+    You are a senior credit portfolio manager for a small private lender in Brazil. Analyze the loan portfolio below (JSON, amounts in BRL, one entry per borrower).
+    Risk grades go from A (lowest) to E (highest) and come from the borrower's payment history.
+
+    Data: ${JSON.stringify(snapshot)}
+
+    Answer in Brazilian Portuguese with:
+    1. riskSummary: a short paragraph on total exposure, what is overdue and how concentrated the risk is.
+    2. topExposures: up to ${TOP_EXPOSURES} borrowers that concentrate the most risk, with the amount at risk and why.
+    3. actions: one concrete collection or lending action per borrower that needs attention, with priority high, medium or low.
+
+    Refer to borrowers only by their "key" in borrowerKey.
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
+export const createGeminiProvider = (apiKey: string, model: string = DEFAULT_GEMINI_MODEL): InsightsProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+  return {
+    id: 'gemini',
+    label: `Gemini (${model})`,
+    analyze: async (snapshot) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: buildPrompt(snapshot),
+        config: { responseMimeType: 'application/json', responseSchema: INSIGHTS_SCHEMA }
+      });
+      return parseInsights(response.text || '', snapshot);
+    }
+  };
+};
+
+// Rule-based insights computed locally, the same for the same snapshot. Used without an API key
+// and to work on the panel offline.
+export const mockInsightsProvider: InsightsProvider = {
+  id: 'mock',
+  label: 'Simulação local',
+  analyze: async (snapshot) => {
+    const { totals } = snapshot;
+    const exposed = snapshot.borrowers.filter(b => b.outstanding + b.lateFees > 0);
+    const overdue = snapshot.borrowers.filter(b => b.overdueInstallments > 0);
+    const highRisk = snapshot.borrowers.filter(b => b.riskGrade === 'D' || b.riskGrade === 'E');
+    const openTotal = totals.outstanding + totals.lateFees;
+    const share = (amount: number) => openTotal > 0 ? Math.round(amount / openTotal * 100) : 0;
+
+    const riskSummary = [
+      `${totals.borrowers} ${totals.borrowers === 1 ? 'cliente' : 'clientes'} com ${formatCurrency(totals.outstanding)} em aberto${totals.lateFees > 0 ? ` e ${formatCurrency(totals.lateFees)} em encargos` : ''}.`,
+      overdue.length > 0
+        ? `${formatCurrency(totals.overdueAmount)} (${share(totals.overdueAmount)}%) está vencido com ${overdue.length} ${overdue.length === 1 ? 'cliente' : 'clientes'}.`
+        : 'Nenhuma parcela vencida.',
+      highRisk.length > 0
+        ? `${highRisk.length} ${highRisk.length === 1 ? 'cliente de risco alto (D/E) concentra' : 'clientes de risco alto (D/E) concentram'} ${share(highRisk.reduce((sum, b) => sum + b.outstanding + b.lateFees, 0))}% do saldo.`
+        : 'Nenhum cliente de risco alto.',
+      exposed.length > 0 ? `O maior saldo é de ${exposed[0].name}, com ${share(exposed[0].outstanding + exposed[0].lateFees)}% do total em aberto.` : ''
+    ].filter(Boolean).join(' ');
+
+    const topExposures: TopExposure[] = exposed.slice(0, TOP_EXPOSURES).map(b => ({
+      borrowerKey: b.key,
+      name: b.name,
+      amount: roundCents(b.outstanding + b.lateFees),
+      reason: [
+        `${share(b.outstanding + b.lateFees)}% do saldo em aberto`,
+        b.overdueInstallments > 0 ? `${b.overdueInstallments} ${b.overdueInstallments === 1 ? 'parcela vencida' : 'parcelas vencidas'} há até ${b.maxDaysOverdue} dias` : 'em dia',
+        `risco ${b.riskGrade}`
+      ].join(' · ')
+    }));
+
+    const actions = snapshot.borrowers.flatMap((b): SuggestedAction[] => {
+      const base = { borrowerKey: b.key, name: b.name };
+      if (b.overdueInstallments > 0 && (b.maxDaysOverdue > 30 || b.riskGrade === 'E')) {
+        return [{ ...base, priority: 'high', action: `Cobrar pessoalmente ${formatCurrency(b.overdueAmount)} vencido há ${b.maxDaysOverdue} dias ou propor renegociação.` }];
+      }
+      if (b.overdueInstallments > 0) {
+        return [{ ...base, priority: 'medium', action: `Enviar lembrete de ${formatCurrency(b.overdueAmount)} vencido e registrar promessa de pagamento.` }];
+      }
+      if (b.riskGrade === 'D' || b.riskGrade === 'E') {
+        return [{ ...base, priority: 'low', action: `Evitar novos empréstimos até melhorar o histórico (risco ${b.riskGrade}).` }];
+      }
+      return [];
     });
-    return response.text || "No analysis generated.";
-  } catch (error) {
-    console.error("AI Error:", error);
-    return "Unable to generate analysis at this time due to an error.";
+
+    return {
+      riskSummary,
+      topExposures,
+      actions: actions.sort((a, b) => PRIORITY_ORDER.indexOf(a.priority) - PRIORITY_ORDER.indexOf(b.priority))
+    };
   }
-};
\ No newline at end of file
+};
+
+// Gemini when an API key is configured, the local mock always
+export const getInsightsProviders = (): InsightsProvider[] => {
+  const apiKey = process.env.GEMINI_API_KEY;
+  return apiKey
+    ? [createGeminiProvider(apiKey, process.env.GEMINI_MODEL || DEFAULT_GEMINI_MODEL), mockInsightsProvider]
+    : [mockInsightsProvider];
+};
+
+export const loadCachedInsights = (): CachedInsights | null => {
+  try {
+    const saved = localStorage.getItem(AI_INSIGHTS_CACHE_KEY);
+    return saved ? JSON.parse(saved) : null;
+  } catch (e) {
+    console.error("Failed to parse cached insights", e);
+    return null;
+  }
+};
+
+export const analyzePortfolio = async (provider: InsightsProvider, snapshot: PortfolioSnapshot): Promise<CachedInsights> => {
+  const insights = await provider.analyze(snapshot);
+  const result: CachedInsights = { insights, providerId: provider.id, generatedAt: Date.now(), snapshotHash: getSnapshotHash(snapshot) };
+  localStorage.setItem(AI_INSIGHTS_CACHE_KEY, JSON.stringify(result));
+  return result;
+};
@@ -0,0 +1,82 @@
+import { AmortizationMethod, Client, Installment } from '../types';
+import { roundCents } from '../constants';
+
+export const AMORTIZATION_LABELS: Record<AmortizationMethod, string> = {
+  flat: 'Parcela fixa (juros simples)',
+  price: 'Price (parcela fixa)',
+  sac: 'SAC (amortização constante)',
+  interestOnly: 'Só juros + principal no final'
+};
+
+export interface ScheduleRow {
+  value: number;
+  principalPart: number;
+  interestPart: number;
+}
+
+// Per-installment split for a loan of `count` installments.
+// `periodRate` is the rate per installment period (%); flat loans use `flatValue` instead.
+// Rounding residue is pushed into the last row so principal parts always add up to the principal.
+export const buildAmortizationSchedule = (principal: number, count: number, method: AmortizationMethod, periodRate: number, flatValue: number = 0): ScheduleRow[] => {
+  if (count <= 0 || principal <= 0) return [];
+
+  const rate = periodRate / 100;
+  const rows: ScheduleRow[] = [];
+  let balance = principal;
+
+  for (let i = 1; i <= count; i++) {
+    const isLast = i === count;
+    let principalPart: number;
+    let interestPart: number;
+
+    switch (method) {
+      case 'price': {
+        const payment = rate === 0 ? principal / count : principal * rate / (1 - Math.pow(1 + rate, -count));
+        interestPart = balance * rate;
+        principalPart = isLast ? balance : payment - interestPart;
+        break;
+      }
+      case 'sac':
+        interestPart = balance * rate;
+        principalPart = isLast ? balance : principal / count;
+        break;
+      case 'interestOnly':
+        interestPart = principal * rate;
+        principalPart = isLast ? principal : 0;
+        break;
+      default:
+        principalPart = isLast ? balance : principal / count;
+        interestPart = flatValue - principalPart;
+    }
+
+    principalPart = roundCents(principalPart);
+    interestPart = roundCents(interestPart);
+    balance = roundCents(balance - principalPart);
+    // Flat installments keep the exact value typed by the user
+    const value = method === 'flat' ? flatValue : roundCents(principalPart + interestPart);
+    rows.push({ value, principalPart, interestPart: method === 'flat' ? roundCents(value - principalPart) : interestPart });
+  }
+
+  return rows;
+};
+
+// Principal/interest split of an installment. Loans created before amortization methods existed
+// have no stored split and are treated as flat.
+export const getInstallmentSplit = (loan: Client, installment: Installment): { principalPart: number, interestPart: number } => {
+  if (installment.principalPart !== undefined && installment.interestPart !== undefined) {
+    return { principalPart: installment.principalPart, interestPart: installment.interestPart };
+  }
+  const principalPart = loan.installments > 0 ? loan.principal / loan.installments : 0;
+  return { principalPart, interestPart: installment.value - principalPart };
+};
+
+// Re-split installments after the principal is edited: values stay, principal parts scale
+// proportionally and the difference becomes interest
+export const rescaleInstallmentSplits = (loan: Client, newPrincipal: number): Installment[] => {
+  const factor = loan.principal > 0 ? newPrincipal / loan.principal : 0;
+  return loan.installmentsList.map(inst => {
+    const { principalPart } = getInstallmentSplit(loan, inst);
+    const scaled = roundCents(principalPart * factor);
+    return { ...inst, principalPart: scaled, interestPart: roundCents(inst.value - scaled) };
+  });
+};
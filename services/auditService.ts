@@ -0,0 +1,213 @@
+import { AuditAction, AuditChange, AuditEvent, Borrower, Client, Installment, PaymentEntry } from '../types';
+import { formatCurrency, generateId, hashString, stableStringify } from '../constants';
+
+const FIELD_LABELS: Record<string, string> = {
+  name: 'Nome',
+  phone: 'Telefone',
+  phones: 'Telefones',
+  document: 'CPF',
+  address: 'Endereço',
+  notes: 'Observações',
+  annotation: 'Anotações',
+  principal: 'Valor principal',
+  interestRate: 'Taxa de juros',
+  periodRate: 'Taxa por período',
+  startDate: 'Data de início',
+  status: 'Situação',
+  borrowerId: 'Cliente',
+  collectorId: 'Cobrador',
+  isDeleted: 'Excluído',
+  purged: 'Excluído definitivamente',
+  dueDate: 'Vencimento',
+  value: 'Valor da parcela',
+  isPaid: 'Pago',
+  isRenegotiated: 'Renegociada',
+  payments: 'Pagamento',
+  principalPayments: 'Amortização',
+  renegotiatedTo: 'Renegociado para',
+  renegotiatedFrom: 'Renegociação de'
+};
+
+// Human label of a record field path (field, or installmentsList.<number>.<field>)
+export const getFieldLabel = (path: string): string => {
+  const parts = path.split('.');
+  if (parts[0] === 'installmentsList') {
+    return parts.length > 2 ? `Parcela #${parts[1]} · ${FIELD_LABELS[parts[2]] || parts[2]}` : `Parcela #${parts[1]}`;
+  }
+  return FIELD_LABELS[path] || path;
+};
+
+// Bookkeeping and derived fields left out of the history
+const IGNORED_FIELDS = new Set(['lastUpdated', 'installments', 'deletedAt', 'deletedBy']);
+const same = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+const orNull = (value: unknown) => value === undefined ? null : value;
+
+const describeEntry = (p: PaymentEntry) => `${formatCurrency(p.amount)} (${p.method}, ${p.date.split('-').reverse().join('/')})`;
+
+// Ledger entries are reported as added / removed
+const diffEntries = (path: string, before: PaymentEntry[] = [], after: PaymentEntry[] = []): AuditChange[] => {
+  const beforeIds = new Set(before.map(p => p.id));
+  const afterIds = new Set(after.map(p => p.id));
+  return [
+    ...after.filter(p => !beforeIds.has(p.id)).map(p => ({ path, label: getFieldLabel(path), before: null, after: describeEntry(p) })),
+    ...before.filter(p => !afterIds.has(p.id)).map(p => ({ path, label: getFieldLabel(path), before: describeEntry(p), after: null }))
+  ];
+};
+
+const diffFields = (before: object, after: object, prefix: string, skip: string[]): AuditChange[] => {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const keys = [...new Set([...Object.keys(b), ...Object.keys(a)])];
+  return keys
+    .filter(key => !IGNORED_FIELDS.has(key) && !skip.includes(key))
+    .filter(key => !same(b[key], a[key]))
+    .map(key => ({ path: prefix + key, label: getFieldLabel(prefix + key), before: orNull(b[key]), after: orNull(a[key]) }));
+};
+
+const diffInstallments = (before: Installment[] = [], after: Installment[] = []): AuditChange[] => {
+  const beforeMap = new Map(before.map(i => [i.number, i]));
+  const afterMap = new Map(after.map(i => [i.number, i]));
+  const numbers = [...new Set([...beforeMap.keys(), ...afterMap.keys()])].sort((a, b) => a - b);
+
+  return numbers.flatMap(number => {
+    const b = beforeMap.get(number);
+    const a = afterMap.get(number);
+    const path = `installmentsList.${number}`;
+    if (!b || !a) {
+      const inst = (a || b)!;
+      const text = `${formatCurrency(inst.value)} · ${inst.dueDate.split('-').reverse().join('/')}`;
+      return [{ path, label: getFieldLabel(path), before: b ? text : null, after: a ? text : null }];
+    }
+    return [
+      ...diffFields(b, a, `${path}.`, ['payments']),
+      ...diffEntries(`${path}.payments`, b.payments, a.payments)
+    ];
+  });
+};
+
+// Field-level differences between two versions of a loan or borrower
+export const diffRecords = (before: Client | Borrower | undefined, after: Client | Borrower): AuditChange[] => {
+  // Borrowers have no installments or paydowns
+  const loanOf = (record?: Client | Borrower): Partial<Client> => record && 'installmentsList' in record ? record : {};
+  const b = loanOf(before);
+  const a = loanOf(after);
+  return [
+    ...diffFields(before || {}, after, '', ['installmentsList', 'principalPayments', 'id']),
+    ...diffInstallments(b.installmentsList, a.installmentsList),
+    ...diffEntries('principalPayments', b.principalPayments, a.principalPayments)
+  ];
+};
+
+// What undo needs to put a record back: the previous value of every top-level field that changed, null
+// for a field that did not exist. Keeps the history small compared to a copy of the whole record.
+const getUndoFields = (before: object, after: object): Record<string, unknown> => {
+  const b = before as Record<string, unknown>;
+  const a = after as Record<string, unknown>;
+  const fields: Record<string, unknown> = {};
+  [...new Set([...Object.keys(b), ...Object.keys(a)])]
+    .filter(key => key !== 'id' && key !== 'lastUpdated' && !same(b[key], a[key]))
+    .forEach(key => { fields[key] = orNull(b[key]); });
+  return fields;
+};
+
+const revertFields = <T extends object>(current: T, before: object, now: number): T => {
+  const fields = before as Record<string, unknown>;
+  // Events from older versions hold the whole record
+  if ('id' in fields) return { ...fields, lastUpdated: now } as T;
+  const restored: Record<string, unknown> = { ...current, lastUpdated: now };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value === null) delete restored[key];
+    else restored[key] = value;
+  });
+  return restored as T;
+};
+
+// Hash of a record ignoring lastUpdated, which sync may bump without changing anything
+export const hashRecord = (record: Client | Borrower): string => hashString(stableStringify({ ...record, lastUpdated: undefined }));
+
+// A purged loan no longer exists: its target carries the last version as `after`
+export type AuditTarget =
+  | { entityType: 'client', before?: Client, after: Client, purged?: boolean }
+  | { entityType: 'borrower', before?: Borrower, after: Borrower };
+
+// Events for one user action; targets that did not actually change are skipped
+export const createAuditEvents = (action: AuditAction, summary: string, targets: AuditTarget[], actor: string, undoOf?: string): AuditEvent[] => {
+  const groupId = generateId();
+  const timestamp = Date.now();
+
+  return targets.flatMap(target => {
+    const changes = target.entityType === 'client' && target.purged
+      ? [{ path: 'purged', label: getFieldLabel('purged'), before: false, after: true }]
+      : diffRecords(target.before, target.after);
+    if (changes.length === 0) return [];
+
+    const event: AuditEvent = {
+      id: generateId(),
+      groupId,
+      entityType: target.entityType,
+      entityId: target.after.id,
+      action,
+      summary,
+      changes,
+      afterHash: hashRecord(target.after),
+      actor,
+      timestamp
+    };
+    // Firestore rejects undefined fields, optional ones are only set when present.
+    // A purge keeps no copy of the loan it removed.
+    if (target.before && !(target.entityType === 'client' && target.purged)) event.before = getUndoFields(target.before, target.after);
+    if (target.entityType === 'client' && target.after.borrowerId) event.borrowerId = target.after.borrowerId;
+    if (target.entityType === 'borrower') event.borrowerId = target.after.id;
+    if (undoOf) event.undoOf = undoOf;
+    return [event];
+  });
+};
+
+// The log is append-only, so a cloud snapshot merges as a plain union by id
+export const mergeAuditLog = (local: AuditEvent[], remote: AuditEvent[]): { merged: AuditEvent[], toPush: AuditEvent[] } => {
+  const remoteIds = new Set(remote.map(e => e.id));
+  const toPush = local.filter(e => !remoteIds.has(e.id));
+  return { merged: [...remote, ...toPush], toPush };
+};
+
+export const getUndoneGroupIds = (events: AuditEvent[]): Set<string> => {
+  return new Set(events.filter(e => e.undoOf).map(e => e.undoOf!));
+};
+
+// An action can be undone while every record it touched is still exactly as the action left it;
+// anything changed afterwards has to be undone first. Undo events themselves are final.
+export const canUndoGroup = (group: AuditEvent[], clients: Client[], borrowers: Borrower[], undone: Set<string>): boolean => {
+  if (group.length === 0 || group[0].action === 'undo' || undone.has(group[0].groupId)) return false;
+  return group.every(event => {
+    const current = event.entityType === 'client'
+      ? clients.find(c => c.id === event.entityId)
+      : borrowers.find(b => b.id === event.entityId);
+    return !!current && hashRecord(current) === event.afterHash;
+  });
+};
+
+// Record versions that revert an action: the previous version, or a soft delete for a creation
+export const buildUndoTargets = (group: AuditEvent[], clients: Client[], borrowers: Borrower[]): AuditTarget[] => {
+  const now = Date.now();
+  return group.flatMap((event): AuditTarget[] => {
+    if (event.entityType === 'client') {
+      const current = clients.find(c => c.id === event.entityId);
+      if (!current) return [];
+      const restored = event.before ? revertFields(current, event.before, now) : { ...current, isDeleted: true, lastUpdated: now };
+      return [{ entityType: 'client', before: current, after: restored }];
+    }
+    const current = borrowers.find(b => b.id === event.entityId);
+    if (!current) return [];
+    const restored = event.before ? revertFields(current, event.before, now) : { ...current, isDeleted: true, lastUpdated: now };
+    return [{ entityType: 'borrower', before: current, after: restored }];
+  });
+};
+
+// History of a loan, or of a borrower including all of their loans; newest first
+export const getEventsForLoan = (events: AuditEvent[], loanId: string): AuditEvent[] => {
+  return events.filter(e => e.entityType === 'client' && e.entityId === loanId).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const getEventsForBorrower = (events: AuditEvent[], borrowerId: string): AuditEvent[] => {
+  return events.filter(e => e.borrowerId === borrowerId).sort((a, b) => b.timestamp - a.timestamp);
+};
@@ -0,0 +1,78 @@
+import { getAuth, connectAuthEmulator, onAuthStateChanged, signInWithEmailAndPassword, createUserWithEmailAndPassword, sendPasswordResetEmail, sendEmailVerification, signOut, Auth } from 'firebase/auth';
+import { FirebaseConfig, getFirebaseApp } from './firestoreAdapter';
+
+export interface AuthUser {
+  uid: string;
+  email: string;
+  emailVerified: boolean; // Required by the rules to send or accept collector invitations
+}
+
+let auth: Auth | null = null;
+
+// Email/password accounts on the Firebase project of the cloud config
+export const initAuth = (config: FirebaseConfig) => {
+  if (auth) return true;
+  try {
+    auth = getAuth(getFirebaseApp(config));
+    if (config.emulatorHost) connectAuthEmulator(auth, `http://${config.emulatorHost}:9099`, { disableWarnings: true });
+    return true;
+  } catch (error) {
+    console.error("Auth init error:", error);
+    auth = null;
+    return false;
+  }
+};
+
+// Fires with the restored session (or null) once the SDK is ready, then on every sign-in / sign-out
+export const subscribeToAuth = (onChange: (user: AuthUser | null) => void) => {
+  if (!auth) {
+    onChange(null);
+    return () => {};
+  }
+  return onAuthStateChanged(auth, (user) => onChange(user ? { uid: user.uid, email: user.email || '', emailVerified: user.emailVerified } : null));
+};
+
+const requireAuth = (): Auth => {
+  if (!auth) throw new Error('Auth not initialized');
+  return auth;
+};
+
+export const signIn = async (email: string, password: string) => {
+  await signInWithEmailAndPassword(requireAuth(), email.trim(), password);
+};
+
+export const signUp = async (email: string, password: string) => {
+  const credential = await createUserWithEmailAndPassword(requireAuth(), email.trim(), password);
+  await sendEmailVerification(credential.user);
+};
+
+export const resendEmailVerification = async () => {
+  const user = requireAuth().currentUser;
+  if (user) await sendEmailVerification(user);
+};
+
+export const resetPassword = async (email: string) => {
+  await sendPasswordResetEmail(requireAuth(), email.trim());
+};
+
+export const signOutUser = async () => {
+  if (auth) await signOut(auth);
+};
+
+const AUTH_ERROR_MESSAGES: Record<string, string> = {
+  'auth/invalid-credential': 'E-mail ou senha incorretos.',
+  'auth/wrong-password': 'E-mail ou senha incorretos.',
+  'auth/user-not-found': 'E-mail ou senha incorretos.',
+  'auth/invalid-email': 'E-mail inválido.',
+  'auth/missing-password': 'Informe a senha.',
+  'auth/email-already-in-use': 'Já existe uma conta com este e-mail.',
+  'auth/weak-password': 'A senha precisa ter pelo menos 6 caracteres.',
+  'auth/too-many-requests': 'Muitas tentativas. Aguarde alguns minutos e tente novamente.',
+  'auth/network-request-failed': 'Sem conexão com o servidor de login.',
+  'auth/operation-not-allowed': 'Login por e-mail e senha não está ativado neste projeto Firebase.'
+};
+
+export const getAuthErrorMessage = (error: unknown): string => {
+  const code = (error as { code?: string })?.code;
+  return (code && AUTH_ERROR_MESSAGES[code]) || 'Não foi possível entrar. Tente novamente.';
+};
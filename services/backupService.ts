@@ -0,0 +1,610 @@
+import { AmortizationMethod, Borrower, Client, Installment, LoanType, PaymentFrequency } from '../types';
+import { generateId, roundCents, toISODate } from '../constants';
+import { getInstallmentPaidAmount, withDerivedPaidFlag } from './paymentService';
+import { LOAN_STATUS_LABELS, getSettledStatus } from './loanService';
+import { isRevolving, syncRevolvingCharges } from './revolvingService';
+import { generateDueDates } from './scheduleService';
+import { buildAmortizationSchedule, getInstallmentSplit } from './amortizationService';
+import { applyBorrowerToLoan, migrateLegacyBorrowers, normalizeName } from './borrowerService';
+import { formatCsvBoolean, formatCsvNumber, normalizeHeader, parseCsv, parseCsvBoolean, parseCsvDate, parseCsvNumber, toCsv } from './csvService';
+
+const BACKUP_VERSION = 1;
+
+// Full backup: every field of every record, including soft-deleted ones
+export interface PortfolioBackup {
+  version: number;
+  exportedAt: string;
+  clients: Client[];
+  borrowers: Borrower[];
+}
+
+export interface ImportFile {
+  name: string;
+  text: string;
+}
+
+// A record that could not be imported; row 0 refers to the whole file
+export interface ImportIssue {
+  file: string;
+  row: number;
+  message: string;
+}
+
+export interface ImportPlan {
+  clients: Client[];
+  borrowers: Borrower[];
+  issues: ImportIssue[];
+}
+
+// 'id': same id as an existing record (overwritten on merge)
+// 'borrower': same person (CPF or name) under another id, or the same loan (borrower, start date, principal)
+export interface ImportDuplicate {
+  kind: 'id' | 'borrower';
+  entityType: 'client' | 'borrower';
+  importedId: string;
+  existingId: string;
+  label: string;
+}
+
+// merge: keep existing records and add or update the imported ones
+// replace: the import becomes the whole portfolio, records missing from it are deleted
+export type ImportMode = 'merge' | 'replace';
+
+const LOAN_COLUMNS = ['id', 'cliente_id', 'nome', 'telefone', 'cpf', 'tipo', 'valor_principal', 'taxa_total', 'taxa_periodo', 'valor_parcela', 'amortizacao', 'frequencia', 'dias_intervalo', 'data_inicio', 'parcelas', 'parcelas_pagas', 'situacao', 'anotacao'];
+const INSTALLMENT_COLUMNS = ['emprestimo_id', 'nome', 'parcela', 'vencimento', 'valor', 'valor_pago', 'paga', 'data_pagamento', 'amortizacao', 'juros', 'renegociada'];
+
+// Other spellings accepted on import (old spreadsheets), normalized with normalizeHeader
+const HEADER_ALIASES: Record<string, string> = {
+  emprestimo: 'id', codigo: 'id',
+  cliente: 'nome', name: 'nome', devedor: 'nome',
+  phone: 'telefone', whatsapp: 'telefone', celular: 'telefone',
+  documento: 'cpf',
+  valor_emprestado: 'valor_principal', principal: 'valor_principal', valor: 'valor_principal',
+  juros: 'taxa_periodo', taxa: 'taxa_periodo', taxa_mensal: 'taxa_periodo',
+  inicio: 'data_inicio', data: 'data_inicio', data_de_inicio: 'data_inicio', data_do_emprestimo: 'data_inicio',
+  quantidade_parcelas: 'parcelas', numero_parcelas: 'parcelas', numero_de_parcelas: 'parcelas',
+  valor_da_parcela: 'valor_parcela',
+  pagas: 'parcelas_pagas',
+  observacao: 'anotacao', observacoes: 'anotacao', notas: 'anotacao'
+};
+
+const INSTALLMENT_HEADER_ALIASES: Record<string, string> = {
+  numero: 'parcela', vencimento_parcela: 'vencimento', data_vencimento: 'vencimento',
+  pago: 'valor_pago', ultimo_pagamento: 'data_pagamento', pagamento: 'data_pagamento'
+};
+
+const AMORTIZATION_VALUES: Record<string, AmortizationMethod> = {
+  flat: 'flat', fixa: 'flat', parcela_fixa: 'flat', parcela_fixa_juros_simples: 'flat', simples: 'flat',
+  price: 'price', price_parcela_fixa: 'price', tabela_price: 'price',
+  sac: 'sac', sac_amortizacao_constante: 'sac',
+  interestonly: 'interestOnly', so_juros: 'interestOnly', so_juros_principal_no_final: 'interestOnly'
+};
+
+const FREQUENCY_VALUES: Record<string, PaymentFrequency> = {
+  daily: 'daily', diaria: 'daily', diaria_seg_sab: 'daily',
+  weekly: 'weekly', semanal: 'weekly',
+  biweekly: 'biweekly', quinzenal: 'biweekly',
+  monthly: 'monthly', mensal: 'monthly',
+  custom: 'custom', a_cada_n_dias: 'custom', personalizada: 'custom'
+};
+
+const LOAN_TYPE_VALUES: Record<string, LoanType> = {
+  installment: 'installment', parcelado: 'installment', parcelas: 'installment',
+  revolving: 'revolving', juros_mensais: 'revolving', rotativo: 'revolving'
+};
+
+const VALID_STATUSES = Object.keys(LOAN_STATUS_LABELS);
+
+const onlyDigits = (value: string = ''): string => value.replace(/\D/g, '');
+
+export const exportPortfolioJson = (clients: Client[], borrowers: Borrower[]): string => {
+  const backup: PortfolioBackup = { version: BACKUP_VERSION, exportedAt: new Date().toISOString(), clients, borrowers };
+  return JSON.stringify(backup, null, 2);
+};
+
+// One row per active loan; re-importing it rebuilds the schedule (use the installments CSV to keep payments)
+export const exportLoansCsv = (clients: Client[], borrowers: Borrower[]): string => {
+  const byId = new Map(borrowers.map(b => [b.id, b]));
+  const rows = clients.filter(c => !c.isDeleted).map(c => {
+    const borrower = c.borrowerId ? byId.get(c.borrowerId) : undefined;
+    const flatValue = c.installmentsList[0]?.value;
+    return [
+      c.id, c.borrowerId, c.name, c.phone, borrower?.document,
+      isRevolving(c) ? 'juros_mensais' : 'parcelado',
+      formatCsvNumber(c.principal),
+      formatCsvNumber(c.interestRate),
+      formatCsvNumber(c.periodRate),
+      isRevolving(c) ? '' : formatCsvNumber(flatValue),
+      isRevolving(c) ? '' : (c.amortization || 'flat'),
+      c.frequency || 'monthly',
+      c.frequency === 'custom' ? c.frequencyDays : '',
+      c.startDate,
+      c.installments,
+      c.installmentsList.filter(i => i.isPaid).length,
+      LOAN_STATUS_LABELS[c.status],
+      c.annotation
+    ];
+  });
+  return toCsv(LOAN_COLUMNS, rows);
+};
+
+// One row per installment; the payments of each installment are summed into valor_pago
+export const exportInstallmentsCsv = (clients: Client[]): string => {
+  const rows = clients.filter(c => !c.isDeleted).flatMap(c => c.installmentsList.map(inst => {
+    const { principalPart, interestPart } = getInstallmentSplit(c, inst);
+    const lastPayment = (inst.payments || []).reduce((latest, p) => p.date > latest ? p.date : latest, '');
+    return [
+      c.id, c.name, inst.number, inst.dueDate,
+      formatCsvNumber(inst.value),
+      formatCsvNumber(getInstallmentPaidAmount(inst)),
+      formatCsvBoolean(inst.isPaid),
+      lastPayment,
+      formatCsvNumber(principalPart),
+      formatCsvNumber(interestPart),
+      formatCsvBoolean(inst.isRenegotiated)
+    ];
+  }));
+  return toCsv(INSTALLMENT_COLUMNS, rows);
+};
+
+export const getBackupFileName = (kind: string, extension: string): string => {
+  return `carteira-${kind}-${toISODate(new Date())}.${extension}`;
+};
+
+// CSV and JSON files ready for downloadFile; the BOM makes Excel read CSV accents correctly
+export const toBackupBlob = (content: string, fileName: string): Blob => {
+  const isCsv = fileName.endsWith('.csv');
+  return new Blob([isCsv ? '\uFEFF' + content : content], { type: isCsv ? 'text/csv;charset=utf-8' : 'application/json' });
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> => typeof value === 'object' && value !== null && !Array.isArray(value);
+const isNumber = (value: unknown): value is number => typeof value === 'number' && isFinite(value);
+const isISODate = (value: unknown): value is string => typeof value === 'string' && parseCsvDate(value) === value;
+
+const validateInstallment = (raw: unknown, index: number): string[] => {
+  const label = `parcela ${index + 1}`;
+  if (!isObject(raw)) return [`${label} inválida`];
+  const errors: string[] = [];
+  if (!isNumber(raw.number)) errors.push(`${label}: número ausente`);
+  if (!isISODate(raw.dueDate)) errors.push(`${label}: vencimento inválido`);
+  if (!isNumber(raw.value) || raw.value < 0) errors.push(`${label}: valor inválido`);
+  if (raw.payments !== undefined && (!Array.isArray(raw.payments) || raw.payments.some((p: unknown) => !isObject(p) || !isNumber(p.amount) || !isISODate(p.date)))) {
+    errors.push(`${label}: pagamentos inválidos`);
+  }
+  return errors;
+};
+
+const validateClientRecord = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['registro não é um objeto'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id) errors.push('id ausente');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('nome ausente');
+  if (!isNumber(raw.principal) || raw.principal <= 0) errors.push('valor principal inválido');
+  if (!isISODate(raw.startDate)) errors.push('data de início inválida');
+  if (raw.status !== undefined && (typeof raw.status !== 'string' || !VALID_STATUSES.includes(raw.status))) errors.push(`situação desconhecida "${raw.status}"`);
+  if (!Array.isArray(raw.installmentsList)) errors.push('lista de parcelas ausente');
+  else raw.installmentsList.forEach((inst: unknown, i: number) => errors.push(...validateInstallment(inst, i)));
+  return errors;
+};
+
+const validateBorrowerRecord = (raw: unknown): string[] => {
+  if (!isObject(raw)) return ['registro não é um objeto'];
+  const errors: string[] = [];
+  if (typeof raw.id !== 'string' || !raw.id) errors.push('id ausente');
+  if (typeof raw.name !== 'string' || !raw.name.trim()) errors.push('nome ausente');
+  if (!Array.isArray(raw.phones) || raw.phones.some((p: unknown) => typeof p !== 'string')) errors.push('telefones inválidos');
+  return errors;
+};
+
+// Fill fields older records may lack so the rest of the app can rely on them
+const normalizeClient = (raw: Client): Client => {
+  const client: Client = {
+    ...raw,
+    name: raw.name.trim(),
+    phone: raw.phone || '',
+    installments: isNumber(raw.installments) ? raw.installments : raw.installmentsList.length,
+    interestRate: isNumber(raw.interestRate) ? raw.interestRate : 0,
+    status: raw.status || 'Active',
+    installmentsList: raw.installmentsList.map(inst => withDerivedPaidFlag({ ...inst, isPaid: !!inst.isPaid }))
+  };
+  return { ...client, status: getSettledStatus(client) };
+};
+
+// Accepts a full export ({ clients, borrowers }) or a bare array of loans (old localStorage backups)
+const parseJsonFile = (file: ImportFile, issues: ImportIssue[]): { clients: Client[], borrowers: Borrower[] } => {
+  let data: unknown;
+  try {
+    data = JSON.parse(file.text);
+  } catch (e) {
+    issues.push({ file: file.name, row: 0, message: 'JSON inválido' });
+    return { clients: [], borrowers: [] };
+  }
+
+  const rawClients: unknown[] | null = Array.isArray(data) ? data : (isObject(data) && Array.isArray(data.clients) ? data.clients : null);
+  const rawBorrowers: unknown[] = isObject(data) && Array.isArray(data.borrowers) ? data.borrowers : [];
+  if (!rawClients) {
+    issues.push({ file: file.name, row: 0, message: 'Formato não reconhecido: esperado um backup da carteira ou uma lista de empréstimos' });
+    return { clients: [], borrowers: [] };
+  }
+
+  const clients: Client[] = [];
+  rawClients.forEach((raw, index) => {
+    const errors = validateClientRecord(raw);
+    if (errors.length > 0) issues.push({ file: file.name, row: index + 1, message: `Empréstimo: ${errors.join('; ')}` });
+    else clients.push(normalizeClient(raw as Client));
+  });
+
+  const borrowers: Borrower[] = [];
+  rawBorrowers.forEach((raw, index) => {
+    const errors = validateBorrowerRecord(raw);
+    if (errors.length > 0) issues.push({ file: file.name, row: index + 1, message: `Cliente: ${errors.join('; ')}` });
+    else borrowers.push({ ...(raw as Borrower), name: (raw as Borrower).name.trim() });
+  });
+
+  return { clients, borrowers };
+};
+
+type CsvRow = { row: number, get: (column: string) => string };
+
+// Rows keyed by canonical column name; row numbers match the spreadsheet (header = row 1)
+const readCsvRows = (text: string, aliases: Record<string, string>): { columns: Set<string>, rows: CsvRow[] } => {
+  const [header = [], ...lines] = parseCsv(text);
+  const columns = header.map(h => {
+    const key = normalizeHeader(h);
+    return aliases[key] || key;
+  });
+  const rows = lines.map((values, index) => ({
+    row: index + 2,
+    get: (column: string) => {
+      const position = columns.indexOf(column);
+      return position >= 0 ? (values[position] || '').trim() : '';
+    }
+  }));
+  return { columns: new Set(columns), rows };
+};
+
+const isInstallmentsCsv = (text: string): boolean => {
+  const { columns } = readCsvRows(text.split(/\r?\n/, 1)[0], INSTALLMENT_HEADER_ALIASES);
+  return columns.has('emprestimo_id') && columns.has('parcela');
+};
+
+// Installment rows of the installments CSV, grouped by loan id
+const parseInstallmentRows = (file: ImportFile, issues: ImportIssue[]): Map<string, { row: number, installment: Installment }[]> => {
+  const byLoan = new Map<string, { row: number, installment: Installment }[]>();
+
+  readCsvRows(file.text, INSTALLMENT_HEADER_ALIASES).rows.forEach(({ row, get }) => {
+    const errors: string[] = [];
+    const loanId = get('emprestimo_id');
+    const number = parseInt(get('parcela'), 10);
+    const dueDate = parseCsvDate(get('vencimento'));
+    const value = parseCsvNumber(get('valor'));
+    const paidText = get('valor_pago');
+    const paidFlag = parseCsvBoolean(get('paga'));
+    let paid = paidText ? parseCsvNumber(paidText) : 0;
+    const paymentDate = get('data_pagamento') ? parseCsvDate(get('data_pagamento')) : null;
+
+    if (!loanId) errors.push('emprestimo_id ausente');
+    if (isNaN(number) || number < 1) errors.push('número da parcela inválido');
+    if (!dueDate) errors.push(`vencimento inválido "${get('vencimento')}"`);
+    if (isNaN(value) || value < 0) errors.push(`valor inválido "${get('valor')}"`);
+    if (isNaN(paid) || paid < 0) errors.push(`valor pago inválido "${paidText}"`);
+    if (paidFlag === null) errors.push(`campo "paga" inválido "${get('paga')}"`);
+    if (get('data_pagamento') && !paymentDate) errors.push(`data de pagamento inválida "${get('data_pagamento')}"`);
+    if (errors.length > 0) {
+      issues.push({ file: file.name, row, message: errors.join('; ') });
+      return;
+    }
+
+    // A row marked as paid without an amount is settled in full
+    if (paidFlag && !paidText) paid = value;
+
+    const installment: Installment = { number, dueDate: dueDate!, value: roundCents(value), isPaid: false };
+    const principalPart = parseCsvNumber(get('amortizacao'));
+    const interestPart = parseCsvNumber(get('juros'));
+    if (!isNaN(principalPart) && !isNaN(interestPart)) {
+      installment.principalPart = principalPart;
+      installment.interestPart = interestPart;
+    }
+    if (parseCsvBoolean(get('renegociada'))) installment.isRenegotiated = true;
+    if (paid > 0) {
+      installment.payments = [{ id: generateId(), amount: roundCents(paid), date: paymentDate || dueDate!, method: 'Outro', note: 'Importado' }];
+    }
+
+    const entries = byLoan.get(loanId) || [];
+    if (entries.some(e => e.installment.number === number)) {
+      issues.push({ file: file.name, row, message: `Parcela ${number} repetida para o empréstimo ${loanId}` });
+      return;
+    }
+    byLoan.set(loanId, [...entries, { row, installment: withDerivedPaidFlag(installment) }]);
+  });
+
+  return byLoan;
+};
+
+// Schedule for a loan row without installment rows, as the loan form would create it
+const buildScheduleFromRow = (loan: Client, count: number, flatValue: number, paidCount: number): Installment[] => {
+  const schedule = buildAmortizationSchedule(loan.principal, count, loan.amortization || 'flat', loan.periodRate || 0, flatValue);
+  return generateDueDates(loan.startDate, count, loan.frequency, loan.frequencyDays).map((dueDate, index) => {
+    const installment: Installment = {
+      number: index + 1,
+      dueDate,
+      value: schedule[index].value,
+      isPaid: false,
+      principalPart: schedule[index].principalPart,
+      interestPart: schedule[index].interestPart
+    };
+    if (index < paidCount) {
+      installment.payments = [{ id: generateId(), amount: installment.value, date: dueDate, method: 'Outro', note: 'Importado' }];
+    }
+    return withDerivedPaidFlag(installment);
+  });
+};
+
+// Loans CSV, optionally completed by an installments CSV. Borrowers are grouped by cliente_id,
+// then CPF, then name, so several loans of the same person share one Borrower.
+const parseLoanCsv = (
+  file: ImportFile,
+  installmentsByLoan: Map<string, { row: number, installment: Installment }[]>,
+  issues: ImportIssue[]
+): { clients: Client[], borrowers: Borrower[] } => {
+  const { columns, rows } = readCsvRows(file.text, HEADER_ALIASES);
+  const missing = ['nome', 'valor_principal', 'data_inicio'].filter(c => !columns.has(c));
+  if (missing.length > 0) {
+    issues.push({ file: file.name, row: 1, message: `Colunas obrigatórias ausentes: ${missing.join(', ')}` });
+    return { clients: [], borrowers: [] };
+  }
+
+  const clients: Client[] = [];
+  const borrowersByKey = new Map<string, Borrower>();
+  const now = Date.now();
+
+  rows.forEach(({ row, get }) => {
+    const errors: string[] = [];
+    const name = get('nome');
+    const principal = parseCsvNumber(get('valor_principal'));
+    const startDate = parseCsvDate(get('data_inicio'));
+    const typeKey = normalizeHeader(get('tipo'));
+    const loanType = typeKey ? LOAN_TYPE_VALUES[typeKey] : 'installment';
+    const amortizationKey = normalizeHeader(get('amortizacao'));
+    const amortization = amortizationKey ? AMORTIZATION_VALUES[amortizationKey] : 'flat';
+    const frequencyKey = normalizeHeader(get('frequencia'));
+    const frequency = frequencyKey ? FREQUENCY_VALUES[frequencyKey] : 'monthly';
+    const customDays = parseInt(get('dias_intervalo'), 10);
+    const periodRate = get('taxa_periodo') ? parseCsvNumber(get('taxa_periodo')) : NaN;
+    const count = parseInt(get('parcelas'), 10);
+    const flatValue = parseCsvNumber(get('valor_parcela'));
+    const paidCount = get('parcelas_pagas') ? parseInt(get('parcelas_pagas'), 10) : 0;
+    const id = get('id') || generateId();
+    const importedRows = installmentsByLoan.get(id);
+
+    if (!name) errors.push('nome ausente');
+    if (isNaN(principal) || principal <= 0) errors.push(`valor principal inválido "${get('valor_principal')}"`);
+    if (!startDate) errors.push(`data de início inválida "${get('data_inicio')}"`);
+    if (!loanType) errors.push(`tipo desconhecido "${get('tipo')}"`);
+    if (!amortization) errors.push(`amortização desconhecida "${get('amortizacao')}"`);
+    if (!frequency) errors.push(`frequência desconhecida "${get('frequencia')}"`);
+    if (frequency === 'custom' && (isNaN(customDays) || customDays < 1)) errors.push('dias_intervalo obrigatório para frequência personalizada');
+    if (get('taxa_periodo') && isNaN(periodRate)) errors.push(`taxa inválida "${get('taxa_periodo')}"`);
+    if (isNaN(paidCount) || paidCount < 0) errors.push(`parcelas pagas inválido "${get('parcelas_pagas')}"`);
+    if (loanType === 'revolving' && isNaN(periodRate)) errors.push('taxa_periodo obrigatória para juros mensais');
+    if (loanType === 'installment' && !importedRows) {
+      if (isNaN(count) || count < 1) errors.push(`número de parcelas inválido "${get('parcelas')}"`);
+      else if (paidCount > count) errors.push('mais parcelas pagas do que parcelas');
+      if (amortization === 'flat' && (isNaN(flatValue) || flatValue <= 0)) errors.push('valor_parcela obrigatório para parcela fixa');
+      if (amortization && amortization !== 'flat' && isNaN(periodRate)) errors.push('taxa_periodo obrigatória para esta amortização');
+    }
+    if (clients.some(c => c.id === id)) errors.push(`id ${id} repetido no arquivo`);
+    if (errors.length > 0) {
+      issues.push({ file: file.name, row, message: errors.join('; ') });
+      return;
+    }
+
+    // One borrower per person in the file
+    const borrowerKey = get('cliente_id') || (onlyDigits(get('cpf')) ? `cpf:${onlyDigits(get('cpf'))}` : `nome:${normalizeName(name)}`);
+    let borrower = borrowersByKey.get(borrowerKey);
+    if (!borrower) {
+      borrower = { id: get('cliente_id') || generateId(), name, phones: [], lastUpdated: now };
+      if (get('cpf')) borrower.document = get('cpf');
+      borrowersByKey.set(borrowerKey, borrower);
+    }
+    if (get('telefone') && !borrower.phones.includes(get('telefone'))) borrower.phones.push(get('telefone'));
+
+    let loan: Client = {
+      id,
+      borrowerId: borrower.id,
+      name: borrower.name,
+      phone: get('telefone') || borrower.phones[0] || '',
+      principal,
+      installments: 0,
+      frequency: frequency!,
+      interestRate: 0,
+      startDate: startDate!,
+      status: 'Active',
+      installmentsList: [],
+      isDeleted: false,
+      lastUpdated: now
+    };
+    if (frequency === 'custom') loan.frequencyDays = customDays;
+    if (get('anotacao')) loan.annotation = get('anotacao');
+    if (!isNaN(periodRate) && (loanType === 'revolving' || amortization !== 'flat')) loan.periodRate = periodRate;
+
+    if (loanType === 'revolving') {
+      loan = { ...loan, loanType: 'revolving', principalPayments: [] };
+      if (importedRows) loan.installmentsList = importedRows.map(r => r.installment).sort((a, b) => a.number - b.number);
+      loan = syncRevolvingCharges(loan);
+    } else {
+      loan.amortization = amortization!;
+      loan.installmentsList = importedRows
+        ? importedRows.map(r => r.installment).sort((a, b) => a.number - b.number)
+        : buildScheduleFromRow(loan, count, flatValue, paidCount);
+      loan.installments = loan.installmentsList.length;
+      const total = loan.installmentsList.reduce((sum, inst) => sum + inst.value, 0);
+      loan.interestRate = ((total - principal) / principal) * 100;
+    }
+    if (normalizeHeader(get('situacao')) === 'renegociado') loan.status = 'Renegotiated';
+
+    installmentsByLoan.delete(id);
+    clients.push({ ...loan, status: getSettledStatus(loan) });
+  });
+
+  return { clients, borrowers: Array.from(borrowersByKey.values()) };
+};
+
+// Validate every file and build the records to import. Invalid rows are reported and left out.
+export const parseImportFiles = (files: ImportFile[]): ImportPlan => {
+  const issues: ImportIssue[] = [];
+  const clients: Client[] = [];
+  const borrowers: Borrower[] = [];
+
+  const jsonFiles = files.filter(f => f.name.toLowerCase().endsWith('.json'));
+  const csvFiles = files.filter(f => !f.name.toLowerCase().endsWith('.json'));
+  const installmentFiles = csvFiles.filter(f => isInstallmentsCsv(f.text));
+  const loanFiles = csvFiles.filter(f => !installmentFiles.includes(f));
+
+  jsonFiles.forEach(file => {
+    const result = parseJsonFile(file, issues);
+    clients.push(...result.clients);
+    borrowers.push(...result.borrowers);
+  });
+
+  const installmentsByLoan = new Map<string, { row: number, installment: Installment }[]>();
+  installmentFiles.forEach(file => parseInstallmentRows(file, issues).forEach((rows, loanId) => installmentsByLoan.set(loanId, rows)));
+  loanFiles.forEach(file => {
+    const result = parseLoanCsv(file, installmentsByLoan, issues);
+    clients.push(...result.clients);
+    borrowers.push(...result.borrowers);
+  });
+
+  // Installment rows left over point to loans that are not in the loans CSV
+  installmentsByLoan.forEach((rows, loanId) => {
+    const file = installmentFiles[0]?.name || '';
+    if (loanFiles.length === 0) {
+      issues.push({ file, row: 0, message: 'O CSV de parcelas precisa ser importado junto com o CSV de empréstimos' });
+    } else {
+      rows.forEach(({ row }) => issues.push({ file, row, message: `Empréstimo ${loanId} não encontrado no CSV de empréstimos` }));
+    }
+  });
+
+  // The same record twice (e.g. two backups selected together): the first one wins
+  const uniqueClients = clients.filter((c, i) => clients.findIndex(o => o.id === c.id) === i);
+  const uniqueBorrowers = borrowers.filter((b, i) => borrowers.findIndex(o => o.id === b.id) === i);
+  if (uniqueClients.length < clients.length) {
+    issues.push({ file: '', row: 0, message: `${clients.length - uniqueClients.length} empréstimo(s) com id repetido entre os arquivos foram ignorados` });
+  }
+
+  // Every loan must point to an imported borrower; the rest are grouped by name like the legacy migration
+  const borrowerIds = new Set(uniqueBorrowers.map(b => b.id));
+  const detached = uniqueClients.map(c => c.borrowerId && borrowerIds.has(c.borrowerId) ? c : { ...c, borrowerId: undefined });
+  const { newBorrowers, migratedClients } = migrateLegacyBorrowers(detached, uniqueBorrowers);
+  const migratedById = new Map(migratedClients.map(c => [c.id, c]));
+
+  return {
+    clients: detached.map(c => migratedById.get(c.id) || c),
+    borrowers: [...uniqueBorrowers, ...newBorrowers],
+    issues
+  };
+};
+
+const isSameLoan = (a: Client, b: Client): boolean => {
+  return a.startDate === b.startDate && roundCents(a.principal) === roundCents(b.principal);
+};
+
+// Existing borrower that is the same person as an imported one (other id, same CPF or name)
+const findSamePerson = (imported: Borrower, existing: Borrower[]): Borrower | undefined => {
+  const document = onlyDigits(imported.document);
+  return existing.find(b => b.id !== imported.id && (
+    (document && onlyDigits(b.document) === document) || normalizeName(b.name) === normalizeName(imported.name)
+  ));
+};
+
+export const findImportDuplicates = (plan: ImportPlan, clients: Client[], borrowers: Borrower[]): ImportDuplicate[] => {
+  const activeClients = clients.filter(c => !c.isDeleted);
+  const activeBorrowers = borrowers.filter(b => !b.isDeleted);
+  const duplicates: ImportDuplicate[] = [];
+  const samePerson = new Map<string, Borrower>();
+
+  plan.borrowers.forEach(b => {
+    if (activeBorrowers.some(e => e.id === b.id)) {
+      duplicates.push({ kind: 'id', entityType: 'borrower', importedId: b.id, existingId: b.id, label: b.name });
+      return;
+    }
+    const match = findSamePerson(b, activeBorrowers);
+    if (match) {
+      samePerson.set(b.id, match);
+      duplicates.push({ kind: 'borrower', entityType: 'borrower', importedId: b.id, existingId: match.id, label: `${b.name} = ${match.name}` });
+    }
+  });
+
+  plan.clients.forEach(c => {
+    if (activeClients.some(e => e.id === c.id)) {
+      duplicates.push({ kind: 'id', entityType: 'client', importedId: c.id, existingId: c.id, label: `${c.name} · ${c.startDate}` });
+      return;
+    }
+    const ownerId = (c.borrowerId && samePerson.get(c.borrowerId)?.id) || c.borrowerId;
+    const match = activeClients.find(e => e.borrowerId === ownerId && isSameLoan(e, c));
+    if (match) duplicates.push({ kind: 'borrower', entityType: 'client', importedId: c.id, existingId: match.id, label: `${c.name} · ${c.startDate}` });
+  });
+
+  return duplicates;
+};
+
+// Records to save for the chosen mode (new and changed ones only), stamped so sync pushes them.
+// merge: same id = imported version wins; the same person under another id keeps the existing
+// borrower (phones combined) and gets the imported loans; the same loan again is skipped.
+// replace: imported records as they are, every other active record soft deleted.
+export const applyImport = (plan: ImportPlan, mode: ImportMode, clients: Client[], borrowers: Borrower[]): { clients: Client[], borrowers: Borrower[] } => {
+  const now = Date.now();
+
+  if (mode === 'replace') {
+    const clientIds = new Set(plan.clients.map(c => c.id));
+    const borrowerIds = new Set(plan.borrowers.map(b => b.id));
+    return {
+      clients: [
+        ...plan.clients.map(c => ({ ...c, lastUpdated: now })),
+        ...clients.filter(c => !c.isDeleted && !clientIds.has(c.id)).map(c => ({ ...c, isDeleted: true, lastUpdated: now }))
+      ],
+      borrowers: [
+        ...plan.borrowers.map(b => ({ ...b, lastUpdated: now })),
+        ...borrowers.filter(b => !b.isDeleted && !borrowerIds.has(b.id)).map(b => ({ ...b, isDeleted: true, lastUpdated: now }))
+      ]
+    };
+  }
+
+  const activeBorrowers = borrowers.filter(b => !b.isDeleted);
+  const skipped = new Set(findImportDuplicates(plan, clients, borrowers)
+    .filter(d => d.kind === 'borrower' && d.entityType === 'client')
+    .map(d => d.importedId));
+
+  // Keyed by the id they are saved under; savedIds maps each imported id to it, so several imported
+  // rows of the same existing person accumulate into one record
+  const savedBorrowers = new Map<string, Borrower>();
+  const savedIds = new Map<string, string>();
+  plan.borrowers.forEach(b => {
+    const match = activeBorrowers.some(e => e.id === b.id) ? undefined : findSamePerson(b, activeBorrowers);
+    if (!match) {
+      const existing = activeBorrowers.find(e => e.id === b.id);
+      savedBorrowers.set(b.id, { ...existing, ...b, lastUpdated: now });
+      savedIds.set(b.id, b.id);
+      return;
+    }
+    const current = savedBorrowers.get(match.id) || match;
+    savedIds.set(b.id, match.id);
+    savedBorrowers.set(match.id, {
+      ...current,
+      phones: Array.from(new Set([...current.phones, ...b.phones])),
+      document: current.document || b.document || '',
+      lastUpdated: now
+    });
+  });
+
+  const mergedClients = plan.clients
+    .filter(c => !skipped.has(c.id))
+    .map(c => {
+      const savedId = c.borrowerId ? savedIds.get(c.borrowerId) : undefined;
+      const borrower = savedId ? savedBorrowers.get(savedId) : undefined;
+      const merged = { ...clients.find(e => e.id === c.id), ...c };
+      return { ...(borrower ? applyBorrowerToLoan(merged, borrower) : merged), lastUpdated: now };
+    });
+
+  return { clients: mergedClients, borrowers: Array.from(savedBorrowers.values()) };
+};
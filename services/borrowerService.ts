@@ -0,0 +1,90 @@
+import { Borrower, Client } from '../types';
+import { generateId, hashString } from '../constants';
+
+// Normalized name, the key legacy records were grouped by
+export const normalizeName = (name: string): string => name.trim().toLowerCase();
+
+// Key used to group loans by borrower; falls back to the name while a loan awaits migration
+export const getBorrowerKey = (loan: Client): string => loan.borrowerId || normalizeName(loan.name);
+
+// Deterministic id for borrowers created by the migration, so two devices migrating the same
+// legacy data end up with the same borrower instead of duplicates
+const legacyBorrowerId = (name: string): string => `b-${hashString(normalizeName(name))}`;
+
+export const createBorrower = (name: string, phone: string): Borrower => ({
+  id: generateId(),
+  name: name.trim(),
+  phones: phone ? [phone] : [],
+  lastUpdated: Date.now()
+});
+
+export const getPrimaryPhone = (borrower: Borrower): string => borrower.phones[0] || '';
+
+// Copy the borrower's assigned collector onto a loan (Firestore rejects undefined, so unassigned = no field)
+export const applyCollectorToLoan = (loan: Client, borrower: Borrower): Client => {
+  const { collectorId, ...rest } = loan;
+  return borrower.collectorId ? { ...rest, collectorId: borrower.collectorId } : rest;
+};
+
+// Copy the borrower's display fields onto a loan
+export const applyBorrowerToLoan = (loan: Client, borrower: Borrower): Client => ({
+  ...applyCollectorToLoan(loan, borrower),
+  borrowerId: borrower.id,
+  name: borrower.name,
+  phone: getPrimaryPhone(borrower)
+});
+
+// Give every loan without a borrowerId a Borrower record, grouping by name like the old list did.
+// Returns only what was created/changed so callers can persist just that.
+export const migrateLegacyBorrowers = (clients: Client[], borrowers: Borrower[]): { newBorrowers: Borrower[], migratedClients: Client[] } => {
+  const byId = new Map(borrowers.map(b => [b.id, b]));
+  const newBorrowers: Borrower[] = [];
+  const migratedClients: Client[] = [];
+
+  clients.forEach(client => {
+    if (client.borrowerId || client.purged) return;
+
+    const id = legacyBorrowerId(client.name);
+    let borrower = byId.get(id);
+    if (!borrower) {
+      borrower = {
+        id,
+        name: client.name.trim(),
+        phones: client.phone ? [client.phone] : [],
+        lastUpdated: Date.now()
+      };
+      byId.set(id, borrower);
+      newBorrowers.push(borrower);
+    } else if (client.phone && !borrower.phones.includes(client.phone) && newBorrowers.includes(borrower)) {
+      // Collect every phone used across the grouped legacy loans
+      borrower.phones.push(client.phone);
+    }
+
+    migratedClients.push({ ...client, borrowerId: id, lastUpdated: Date.now() });
+  });
+
+  return { newBorrowers, migratedClients };
+};
+
+// Merge source into target: loans move over, contact data is combined, source is soft deleted
+export const mergeBorrowers = (source: Borrower, target: Borrower, loans: Client[]): { target: Borrower, source: Borrower, movedLoans: Client[] } => {
+  const now = Date.now();
+  const mergedTarget: Borrower = {
+    ...target,
+    phones: Array.from(new Set([...target.phones, ...source.phones])),
+    document: target.document || source.document || '',
+    address: target.address || source.address || '',
+    notes: [target.notes, source.notes].filter(Boolean).join('\n'),
+    lastUpdated: now
+  };
+
+  const movedLoans = loans
+    .filter(l => l.borrowerId === source.id)
+    .map(l => ({ ...applyBorrowerToLoan(l, mergedTarget), lastUpdated: now }));
+
+  return {
+    target: mergedTarget,
+    source: { ...source, isDeleted: true, lastUpdated: now },
+    movedLoans
+  };
+};
@@ -0,0 +1,109 @@
+import { CashFlowPoint, Client } from '../types';
+import { parseISODate, roundCents, toISODate } from '../constants';
+import { getInstallmentRemaining } from './paymentService';
+import { getInstallmentSplit } from './amortizationService';
+
+const MONTH_NAMES = ['jan', 'fev', 'mar', 'abr', 'mai', 'jun', 'jul', 'ago', 'set', 'out', 'nov', 'dez'];
+
+// Calendar month key (YYYY-MM) of an ISO date
+export const getMonthKey = (date: string): string => date.slice(0, 7);
+
+// "2026-10" -> "out/26"
+export const formatMonthLabel = (monthKey: string): string => {
+  const [year, month] = monthKey.split('-');
+  return `${MONTH_NAMES[parseInt(month, 10) - 1]}/${year.slice(2)}`;
+};
+
+const nextMonthKey = (monthKey: string): string => {
+  const date = parseISODate(`${monthKey}-01`);
+  return getMonthKey(toISODate(new Date(date.getFullYear(), date.getMonth() + 1, 1)));
+};
+
+// Money in per calendar month: what was actually received (by payment date) and what is still open
+// (by due date), split into overdue and upcoming. Receipts are split into principal and interest
+// following each installment's amortization split; late charges count as interest. Every month between the first and the last one
+// with activity is present, so gaps show as zero instead of being skipped on the chart.
+export const calculateCashFlow = (clients: Client[], today: string = toISODate(new Date())): CashFlowPoint[] => {
+  const buckets = new Map<string, CashFlowPoint>();
+
+  const bucket = (monthKey: string): CashFlowPoint => {
+    let point = buckets.get(monthKey);
+    if (!point) {
+      point = { month: monthKey, name: formatMonthLabel(monthKey), received: 0, receivedPrincipal: 0, receivedInterest: 0, expected: 0, overdue: 0 };
+      buckets.set(monthKey, point);
+    }
+    return point;
+  };
+
+  const receive = (date: string, amount: number, principal: number) => {
+    const point = bucket(getMonthKey(date));
+    point.received += amount;
+    point.receivedPrincipal += principal;
+    point.receivedInterest += amount - principal;
+  };
+
+  clients.forEach(client => {
+    (client.installmentsList || []).forEach(inst => {
+      const { principalPart } = getInstallmentSplit(client, inst);
+      const principalShare = inst.value > 0 ? Math.min(1, Math.max(0, principalPart / inst.value)) : 0;
+      const payments = inst.payments || [];
+      if (payments.length > 0) {
+        payments.forEach(p => receive(p.date, p.amount, (p.amount - (p.lateFee || 0)) * principalShare));
+      } else if (inst.isPaid) {
+        // Legacy installments marked paid without a ledger: the due date is the best guess
+        receive(inst.dueDate, inst.value, inst.value * principalShare);
+      }
+
+      const remaining = getInstallmentRemaining(inst);
+      if (remaining <= 0) return;
+      const point = bucket(getMonthKey(inst.dueDate));
+      if (inst.dueDate < today) point.overdue += remaining;
+      else point.expected += remaining;
+    });
+
+    // Revolving loans return principal only through paydowns
+    (client.principalPayments || []).forEach(p => receive(p.date, p.amount, p.amount));
+  });
+
+  if (buckets.size === 0) return [];
+
+  const months = [...buckets.keys()].sort();
+  const last = months[months.length - 1];
+  const data: CashFlowPoint[] = [];
+  for (let key = months[0]; key <= last; key = nextMonthKey(key)) {
+    const point = bucket(key);
+    data.push({
+      ...point,
+      received: roundCents(point.received),
+      receivedPrincipal: roundCents(point.receivedPrincipal),
+      receivedInterest: roundCents(point.receivedInterest),
+      expected: roundCents(point.expected),
+      overdue: roundCents(point.overdue)
+    });
+  }
+  return data;
+};
+
+// Running totals, for the cumulative view
+export const accumulateCashFlow = (data: CashFlowPoint[]): CashFlowPoint[] => {
+  let received = 0;
+  let receivedPrincipal = 0;
+  let receivedInterest = 0;
+  let expected = 0;
+  let overdue = 0;
+  return data.map(point => {
+    received += point.received;
+    receivedPrincipal += point.receivedPrincipal;
+    receivedInterest += point.receivedInterest;
+    expected += point.expected;
+    overdue += point.overdue;
+    return {
+      ...point,
+      received: roundCents(received),
+      receivedPrincipal: roundCents(receivedPrincipal),
+      receivedInterest: roundCents(receivedInterest),
+      expected: roundCents(expected),
+      overdue: roundCents(overdue)
+    };
+  });
+};
@@ -1,66 +1,148 @@
-import { initializeApp, getApps, getApp } from 'firebase/app';
-import { getFirestore, collection, doc, setDoc, onSnapshot } from 'firebase/firestore';
-import { Client } from '../types';
-
-export interface FirebaseConfig {
-  apiKey: string;
-  authDomain: string;
-  projectId: string;
-  storageBucket: string;
-  messagingSenderId: string;
-  appId: string;
+import { AuditEvent, Borrower, Client, ContactAttempt, MessageSettings, UserRole } from '../types';
+import { RecordFilter, StorageAdapter } from './storageAdapter';
+import { createFirestoreAdapter, FirebaseConfig } from './firestoreAdapter';
+import { createRestAdapter, RestConfig } from './restAdapter';
+import { createIndexedDbAdapter } from './indexedDbAdapter';
+import { enqueueSave, startOutbox } from './outboxService';
+import { restrictCollectorWrite } from './permissionService';
+
+export type { FirebaseConfig } from './firestoreAdapter';
+export type { RestConfig } from './restAdapter';
+
+// Remote backend the app syncs with
+export type CloudConfig =
+  | { kind: 'firestore'; firebase: FirebaseConfig }
+  | { kind: 'rest'; rest: RestConfig }
+  | { kind: 'indexeddb' }; // Browser-only, shared between tabs; handy for testing without a server
+
+export const CLOUD_KIND_LABELS: Record<CloudConfig['kind'], string> = {
+  firestore: 'Firebase (Firestore)',
+  rest: 'Servidor próprio (REST/JSON)',
+  indexeddb: 'Somente este navegador (IndexedDB)'
+};
+
+// Who is syncing: Firestore data is scoped to the workspace, and collectors only read the borrowers
+// assigned to them and only write payments onto those loans. Other backends have no accounts (owner).
+export interface CloudAccess {
+  workspaceId: string;
+  uid: string;
+  role: UserRole;
 }
 
-let db: any = null;
-let unsubscribe: any = null;
+let adapter: StorageAdapter | null = null;
+let access: CloudAccess | null = null;
+
+// Latest cloud version of each loan, the base a collector's write is restricted against
+const remoteClients = new Map<string, Client>();
+
+const isCollector = () => access?.role === 'collector';
+
+const assignedFilter = (): RecordFilter | undefined => isCollector() ? { field: 'collectorId', value: access!.uid } : undefined;
+
+export const createCloudAdapter = (config: CloudConfig, workspaceId?: string): StorageAdapter => {
+  switch (config.kind) {
+    case 'firestore':
+      if (!workspaceId) throw new Error('Firestore requires a signed-in account');
+      return createFirestoreAdapter(config.firebase, workspaceId);
+    case 'rest': return createRestAdapter(config.rest);
+    case 'indexeddb': return createIndexedDbAdapter();
+  }
+};
 
-export const initFirebase = (config: FirebaseConfig) => {
+export const initCloud = (config: CloudConfig, cloudAccess?: CloudAccess) => {
   try {
-    const app = !getApps().length ? initializeApp(config) : getApp();
-    db = getFirestore(app);
+    access = cloudAccess || null;
+    adapter = createCloudAdapter(config, cloudAccess?.workspaceId);
+    startOutbox(adapter);
     return true;
   } catch (error) {
-    console.error("Firebase init error:", error);
+    console.error("Cloud init error:", error);
+    adapter = null;
     return false;
   }
 };
 
 export const subscribeToClients = (onUpdate: (clients: Client[]) => void) => {
-  if (!db) return () => {};
-  
-  const clientsRef = collection(db, 'clients');
-  
-  // Real-time listener
-  unsubscribe = onSnapshot(clientsRef, (snapshot: any) => {
-    const clients: Client[] = [];
-    snapshot.forEach((doc: any) => {
-      clients.push(doc.data() as Client);
-    });
+  if (!adapter) return () => {};
+  return adapter.subscribe<Client>('clients', (clients) => {
+    remoteClients.clear();
+    clients.forEach(c => remoteClients.set(c.id, c));
     onUpdate(clients);
-  }, (error: any) => {
-    console.error("Sync error:", error);
-  });
-
-  return unsubscribe;
+  }, (error) => console.error("Sync error:", error), assignedFilter());
 };
 
-export const saveClientToCloud = async (client: Client) => {
-  if (!db) return;
-  try {
-    await setDoc(doc(db, 'clients', client.id), client);
-  } catch (e) {
-    console.error("Error saving client:", e);
+// Collectors cannot create loans and only send the payment fields of loans they can read
+const guardClientWrite = (client: Client): Client | null => {
+  if (!isCollector()) return client;
+  const stored = remoteClients.get(client.id);
+  if (!stored) {
+    console.warn("Collector write skipped, loan not assigned:", client.id);
+    return null;
   }
+  return restrictCollectorWrite(stored, client);
 };
 
-export const syncAllToCloud = async (clients: Client[]) => {
-  if (!db) return;
-  try {
-    const promises = clients.map(client => setDoc(doc(db, 'clients', client.id), client));
-    await Promise.all(promises);
-  } catch (e) {
-    console.error("Error batch syncing:", e);
-  }
+// Writes go through the durable outbox: they survive reloads and are retried with backoff
+export const saveClientToCloud = (client: Client) => {
+  if (!adapter) return;
+  const record = guardClientWrite(client);
+  if (record) enqueueSave('clients', record, client.name);
+};
+
+export const syncAllToCloud = (clients: Client[]) => {
+  if (!adapter) return;
+  clients.forEach(saveClientToCloud);
+};
+
+export const subscribeToBorrowers = (onUpdate: (borrowers: Borrower[]) => void) => {
+  if (!adapter) return () => {};
+  return adapter.subscribe<Borrower>('borrowers', onUpdate, (error) => console.error("Borrower sync error:", error), assignedFilter());
+};
+
+// Borrower records are read-only for collectors
+export const saveBorrowerToCloud = (borrower: Borrower) => {
+  if (!adapter || isCollector()) return;
+  enqueueSave('borrowers', borrower, borrower.name);
+};
+
+export const syncAllBorrowersToCloud = (borrowers: Borrower[]) => {
+  if (!adapter || isCollector()) return;
+  borrowers.forEach(borrower => enqueueSave('borrowers', borrower, borrower.name));
+};
+
+// Collectors append to the history but do not read it
+export const subscribeToAuditLog = (onUpdate: (events: AuditEvent[]) => void) => {
+  if (!adapter || isCollector()) return () => {};
+  return adapter.subscribe<AuditEvent>('auditLog', onUpdate, (error) => console.error("Audit log sync error:", error));
+};
+
+export const syncAuditLogToCloud = (events: AuditEvent[]) => {
+  if (!adapter) return;
+  events.forEach(event => enqueueSave('auditLog', event, event.summary));
+};
+
+// Contact attempts are logged by everyone; collectors read those of their assigned borrowers
+export const subscribeToContacts = (onUpdate: (contacts: ContactAttempt[]) => void) => {
+  if (!adapter) return () => {};
+  return adapter.subscribe<ContactAttempt>('contacts', onUpdate, (error) => console.error("Contact log sync error:", error), assignedFilter());
+};
+
+export const syncContactsToCloud = (contacts: ContactAttempt[]) => {
+  if (!adapter) return;
+  contacts.forEach(contact => enqueueSave('contacts', contact, contact.name));
+};
+
+// Workspace-wide settings (message templates) are shared with the whole team but edited by the owner
+export const subscribeToMessageSettings = (onUpdate: (settings: MessageSettings | null) => void) => {
+  if (!adapter) return () => {};
+  return adapter.subscribe<MessageSettings>('settings', (records) => {
+    onUpdate(records.find(r => r.id === 'messages') || null);
+  }, (error) => console.error("Settings sync error:", error));
+};
+
+export const saveMessageSettingsToCloud = (settings: MessageSettings) => {
+  if (!adapter || isCollector()) return;
+  enqueueSave('settings', settings, 'Modelos de mensagem');
 };
 
-export const isCloudEnabled = () => !!db;
\ No newline at end of file
+export const isCloudEnabled = () => !!adapter;
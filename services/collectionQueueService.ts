@@ -0,0 +1,97 @@
+import { Client, CollectionOutcome, CollectionProgress, Installment, LateFeeSettings, MessageSettings } from '../types';
+import { getDaysUntilDue, roundCents, toISODate } from '../constants';
+import { getInstallmentRemaining } from './paymentService';
+import { calculateLateFee } from './lateFeeService';
+import { getBorrowerKey } from './borrowerService';
+import { getDueSoonDays } from './scheduleService';
+import { buildReminderMessage } from './messageTemplateService';
+
+export const COLLECTION_PROGRESS_KEY = 'collection_progress';
+
+export const COLLECTION_OUTCOME_LABELS: Record<CollectionOutcome, string> = {
+  paid: 'Pagou',
+  promised: 'Prometeu pagar',
+  noAnswer: 'Não atendeu',
+  wrongNumber: 'Número errado'
+};
+
+// One borrower to contact today, with everything they owe that is late or about to be due
+export interface CollectionQueueItem {
+  key: string; // Borrower key (see getBorrowerKey)
+  name: string;
+  phone: string;
+  loanId: string; // Loan and installment the reminder is about: the oldest open one
+  installmentNumber: number;
+  daysLate: number; // Of that installment; negative while it is not due yet
+  amountDue: number; // Open balance plus late fees of every listed installment
+  installmentCount: number;
+  latePaidCount: number; // Installments this borrower paid after the due date before (risk)
+  message: string;
+}
+
+// Paid after the due date: the last payment is later than the due date
+const wasPaidLate = (installment: Installment): boolean => {
+  const payments = installment.payments || [];
+  if (!installment.isPaid || payments.length === 0) return false;
+  return payments.reduce((latest, p) => p.date > latest ? p.date : latest, '') > installment.dueDate;
+};
+
+// Today's queue: the borrowers of the bell notifications, most days late first, then the largest
+// amount, then the worst payment history. Borrowers waiting on a promise to pay are skipped.
+export const buildCollectionQueue = (clients: Client[], lateFeeSettings: LateFeeSettings, warningDays: number, messageSettings: MessageSettings, waitingKeys: Set<string> = new Set()): CollectionQueueItem[] => {
+  const items = new Map<string, CollectionQueueItem & { oldest?: { loan: Client, installment: Installment, lateFee: number } }>();
+  const latePaidByKey = new Map<string, number>();
+
+  clients.filter(c => !c.isDeleted).forEach(loan => {
+    const key = getBorrowerKey(loan);
+    if (waitingKeys.has(key)) return;
+    latePaidByKey.set(key, (latePaidByKey.get(key) || 0) + loan.installmentsList.filter(wasPaidLate).length);
+
+    loan.installmentsList.forEach(inst => {
+      if (inst.isPaid || inst.isRenegotiated) return;
+      const days = getDaysUntilDue(inst.dueDate);
+      if (days > getDueSoonDays(loan.frequency, warningDays)) return;
+
+      const lateFee = days < 0 ? calculateLateFee(inst, lateFeeSettings).total : 0;
+      const item = items.get(key) || {
+        key, name: loan.name, phone: loan.phone, loanId: loan.id, installmentNumber: inst.number,
+        daysLate: -days, amountDue: 0, installmentCount: 0, latePaidCount: 0, message: ''
+      };
+      item.amountDue = roundCents(item.amountDue + getInstallmentRemaining(inst) + lateFee);
+      item.installmentCount += 1;
+      if (!item.oldest || inst.dueDate < item.oldest.installment.dueDate) {
+        item.oldest = { loan, installment: inst, lateFee };
+        item.loanId = loan.id;
+        item.installmentNumber = inst.number;
+        item.daysLate = -days;
+        if (!item.phone) item.phone = loan.phone;
+      }
+      items.set(key, item);
+    });
+  });
+
+  return [...items.values()]
+    .map(({ oldest, ...item }) => ({
+      ...item,
+      latePaidCount: latePaidByKey.get(item.key) || 0,
+      message: oldest ? buildReminderMessage(messageSettings, oldest.loan, oldest.installment, oldest.lateFee) : ''
+    }))
+    .sort((a, b) => (b.daysLate - a.daysLate) || (b.amountDue - a.amountDue) || (b.latePaidCount - a.latePaidCount));
+};
+
+// Progress of today; anything saved on an earlier day starts over
+export const loadCollectionProgress = (): CollectionProgress => {
+  const today = toISODate(new Date());
+  try {
+    const saved = localStorage.getItem(COLLECTION_PROGRESS_KEY);
+    const progress: CollectionProgress | null = saved ? JSON.parse(saved) : null;
+    if (progress && progress.date === today) return progress;
+  } catch (e) {
+    console.error("Failed to parse collection progress", e);
+  }
+  return { date: today, outcomes: {} };
+};
+
+export const saveCollectionProgress = (progress: CollectionProgress) => {
+  localStorage.setItem(COLLECTION_PROGRESS_KEY, JSON.stringify(progress));
+};
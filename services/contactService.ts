@@ -0,0 +1,77 @@
+import { Client, ContactAttempt, ContactChannel, PromiseStatus } from '../types';
+import { generateId, roundCents, toISODate } from '../constants';
+import { getBorrowerKey } from './borrowerService';
+
+export const CONTACT_CHANNELS: ContactChannel[] = ['WhatsApp', 'Ligação', 'Visita', 'Outro'];
+
+export const PROMISE_STATUS_LABELS: Record<PromiseStatus, string> = {
+  pending: 'Promessa pendente',
+  kept: 'Promessa cumprida',
+  broken: 'Promessa quebrada'
+};
+
+// What the contact forms fill in; the app adds the borrower, author and assigned collector
+export type ContactDraft = Pick<ContactAttempt, 'channel' | 'date' | 'outcome' | 'loanId' | 'installmentNumber' | 'promisedDate' | 'promisedAmount' | 'note'>;
+
+export const createContactAttempt = (fields: Omit<ContactAttempt, 'id' | 'timestamp'>): ContactAttempt => {
+  // Firestore rejects undefined fields, optional ones are only kept when present
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined)) as typeof fields;
+  return { ...defined, id: generateId(), timestamp: Date.now() };
+};
+
+// The log is append-only, so a cloud snapshot merges as a plain union by id
+export const mergeContactLog = (local: ContactAttempt[], remote: ContactAttempt[]): { merged: ContactAttempt[], toPush: ContactAttempt[] } => {
+  const remoteIds = new Set(remote.map(c => c.id));
+  const toPush = local.filter(c => !remoteIds.has(c.id));
+  return { merged: [...remote, ...toPush], toPush };
+};
+
+export const getContactsForBorrower = (contacts: ContactAttempt[], borrowerKey: string): ContactAttempt[] => {
+  return contacts.filter(c => c.borrowerKey === borrowerKey).sort((a, b) => b.timestamp - a.timestamp);
+};
+
+// Money received from the date of the promise until the promised date, on the promised loan
+// or on any loan of the borrower
+const getReceivedForPromise = (promise: ContactAttempt, clients: Client[]): number => {
+  const loans = clients.filter(c => !c.isDeleted && (promise.loanId ? c.id === promise.loanId : getBorrowerKey(c) === promise.borrowerKey));
+  const payments = loans.flatMap(loan => [
+    ...loan.installmentsList.flatMap(inst => inst.payments || []),
+    ...(loan.principalPayments || [])
+  ]);
+  return roundCents(payments
+    .filter(p => p.date >= promise.date && p.date <= promise.promisedDate!)
+    .reduce((sum, p) => sum + p.amount, 0));
+};
+
+// A promise without an amount is kept by any payment
+export const getPromiseStatus = (promise: ContactAttempt, clients: Client[], today: string = toISODate(new Date())): PromiseStatus => {
+  const received = getReceivedForPromise(promise, clients);
+  if (received > 0 && received >= (promise.promisedAmount || 0)) return 'kept';
+  return promise.promisedDate! >= today ? 'pending' : 'broken';
+};
+
+// Promises that still need attention, by borrower: the borrower's latest contact is a promise that is
+// pending or was broken. Any later contact replaces it (a new promise, or the follow-up of a broken one).
+export const getOpenPromises = (contacts: ContactAttempt[], clients: Client[]): Map<string, { promise: ContactAttempt, status: PromiseStatus }> => {
+  const latest = new Map<string, ContactAttempt>();
+  contacts.forEach(c => {
+    const current = latest.get(c.borrowerKey);
+    if (!current || c.timestamp > current.timestamp) latest.set(c.borrowerKey, c);
+  });
+
+  const open = new Map<string, { promise: ContactAttempt, status: PromiseStatus }>();
+  latest.forEach((contact, key) => {
+    if (contact.outcome !== 'promised' || !contact.promisedDate) return;
+    const status = getPromiseStatus(contact, clients);
+    if (status !== 'kept') open.set(key, { promise: contact, status });
+  });
+  return open;
+};
+
+// Borrowers left alone until the day they promised to pay
+export const getWaitingBorrowerKeys = (contacts: ContactAttempt[], clients: Client[], today: string = toISODate(new Date())): Set<string> => {
+  const keys = [...getOpenPromises(contacts, clients)]
+    .filter(([, open]) => open.status === 'pending' && open.promise.promisedDate! > today)
+    .map(([key]) => key);
+  return new Set(keys);
+};
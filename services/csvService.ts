@@ -0,0 +1,122 @@
+import { roundCents } from '../constants';
+
+// Spreadsheet-friendly CSV for pt-BR Excel/Sheets: ";" between fields, decimal comma
+const DELIMITER = ';';
+
+const escapeField = (value: string): string => {
+  return /[";\n\r]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const formatCsvNumber = (value: number | undefined): string => {
+  return value === undefined || isNaN(value) ? '' : String(roundCents(value)).replace('.', ',');
+};
+
+export const formatCsvBoolean = (value: boolean | undefined): string => value ? 'sim' : 'não';
+
+export const toCsv = (header: string[], rows: (string | number | undefined)[][]): string => {
+  const lines = [header, ...rows].map(row => row.map(v => escapeField(v === undefined ? '' : String(v))).join(DELIMITER));
+  return lines.join('\r\n');
+};
+
+// The delimiter used by the header line: ";" (pt-BR), "," or tab
+const detectDelimiter = (text: string): string => {
+  const firstLine = text.split(/\r?\n/, 1)[0];
+  const counts = [';', ',', '\t'].map(d => ({ d, n: firstLine.split(d).length }));
+  return counts.sort((a, b) => b.n - a.n)[0].d;
+};
+
+// RFC 4180 style parsing (quoted fields, doubled quotes, line breaks inside quotes); blank lines are dropped
+export const parseCsv = (text: string): string[][] => {
+  const source = text.replace(/^\uFEFF/, '');
+  const delimiter = detectDelimiter(source);
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(v => v.trim() !== ''));
+};
+
+// Header key without accents, case or punctuation ("Data de Início" -> "data_de_inicio")
+export const normalizeHeader = (header: string): string => {
+  return header
+    .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+    .trim().toLowerCase()
+    .replace(/[^a-z0-9]+/g, '_')
+    .replace(/^_|_$/g, '');
+};
+
+// Accepted number layouts, tried in order, and how each becomes a plain "1234.56"
+const NUMBER_FORMATS: [RegExp, (text: string) => string][] = [
+  [/^\d+$/, text => text], // 1500
+  [/^[1-9]\d{0,2}(\.\d{3})+(,\d+)?$/, text => text.replace(/\./g, '').replace(',', '.')], // 1.500 / 1.234,56
+  [/^\d+,\d+$/, text => text.replace(',', '.')], // 1234,56
+  [/^[1-9]\d{0,2}(,\d{3})+\.\d+$/, text => text.replace(/,/g, '')], // 1,234.56
+  [/^[1-9]\d{0,2}(,\d{3}){2,}$/, text => text.replace(/,/g, '')], // 1,234,567
+  [/^\d+\.\d+$/, text => text] // 1234.56 / 0.5
+];
+
+// Numbers as typed in Brazilian spreadsheets: "R$ 1.234,56", "1.500", "1234,56" or "1234.56". A dot
+// followed by exactly three digits is a thousands separator. "1,234" (thousand or 1.234?) and any
+// other layout are NaN rather than a guess.
+export const parseCsvNumber = (value: string): number => {
+  const text = value.replace(/R\$|\s|%/g, '');
+  const negative = text.startsWith('-');
+  const digits = negative ? text.slice(1) : text;
+  if (/^[1-9]\d{0,2},\d{3}$/.test(digits)) return NaN;
+  const format = NUMBER_FORMATS.find(([pattern]) => pattern.test(digits));
+  if (!format) return NaN;
+  const number = Number(format[1](digits));
+  return negative ? -number : number;
+};
+
+// true / false, null when the value is not recognized
+export const parseCsvBoolean = (value: string): boolean | null => {
+  const text = normalizeHeader(value);
+  if (['sim', 's', 'true', '1', 'x', 'yes', 'pago', 'paga'].includes(text)) return true;
+  if (['nao', 'n', 'false', '0', '', 'no'].includes(text)) return false;
+  return null;
+};
+
+// YYYY-MM-DD or DD/MM/YYYY (also DD-MM-YYYY) to YYYY-MM-DD; null when invalid
+export const parseCsvDate = (value: string): string | null => {
+  const text = value.trim();
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const [year, month, day] = match
+    ? [match[1], match[2], match[3]]
+    : (match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/)) ? [match[3], match[2].padStart(2, '0'), match[1].padStart(2, '0')] : [];
+  if (!year) return null;
+
+  const date = new Date(Number(year), Number(month) - 1, Number(day));
+  if (date.getMonth() !== Number(month) - 1 || date.getDate() !== Number(day)) return null;
+  return `${year}-${month}-${day}`;
+};
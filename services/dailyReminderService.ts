@@ -0,0 +1,122 @@
+import { Client, DailyReminderSettings, DailySummary } from '../types';
+import { toISODate } from '../constants';
+import { ReminderAlert, ReminderOptions, buildReminderAlerts } from './notificationService';
+
+// The daily summary is a local notification: the app computes what each of the next days will say and
+// hands it to the service worker (public/sw.js), which shows the current day's summary once the
+// configured hour has passed. Nothing goes through a push server.
+
+export const DEFAULT_DAILY_REMINDER: DailyReminderSettings = { enabled: false, hour: 8 };
+
+// Days summarized ahead, so the notification still comes while the app stays closed
+const SCHEDULE_DAYS = 14;
+
+// While the app is open it asks the worker to check the hour this often
+export const REMINDER_CHECK_INTERVAL = 15 * 60 * 1000;
+
+// Query parameter of the link opened by a click on the notification
+export const REMINDER_LINK_PARAM = 'borrower';
+
+const plural = (count: number, singular: string, pluralForm: string) => `${count} ${count === 1 ? singular : pluralForm}`;
+
+// "5 parcelas vencem hoje, 3 vencidas", or null when there is nothing to collect
+export const summarizeAlerts = (alerts: ReminderAlert[]): Omit<DailySummary, 'date'> | null => {
+  const dueToday = alerts.filter(a => a.status === 'due' && a.days === 0).length;
+  const dueSoon = alerts.filter(a => a.status === 'due' && a.days > 0).length;
+  const overdue = alerts.filter(a => a.status === 'overdue').length;
+  const promisesDue = alerts.filter(a => a.promiseStatus === 'pending').length;
+  const promisesBroken = alerts.filter(a => a.promiseStatus === 'broken').length;
+
+  const parts = [
+    dueToday > 0 && plural(dueToday, 'parcela vence hoje', 'parcelas vencem hoje'),
+    overdue > 0 && plural(overdue, 'vencida', 'vencidas'),
+    dueSoon > 0 && plural(dueSoon, 'vence em breve', 'vencem em breve'),
+    promisesDue > 0 && plural(promisesDue, 'promessa para hoje', 'promessas para hoje'),
+    promisesBroken > 0 && plural(promisesBroken, 'promessa quebrada', 'promessas quebradas')
+  ].filter((part): part is string => !!part);
+  if (parts.length === 0) return null;
+
+  return { title: 'Cobranças do dia', body: parts.join(', '), borrowerKey: alerts[0].borrowerKey };
+};
+
+// Summaries from today on, assuming nothing is paid in between
+export const buildDailySchedule = (clients: Client[], options: ReminderOptions): DailySummary[] => {
+  const schedule: DailySummary[] = [];
+  for (let i = 0; i < SCHEDULE_DAYS; i++) {
+    const day = new Date();
+    day.setDate(day.getDate() + i);
+    const summary = summarizeAlerts(buildReminderAlerts(clients, options, day));
+    if (summary) schedule.push({ date: toISODate(day), ...summary });
+  }
+  return schedule;
+};
+
+// Periodic Background Sync wakes the worker while the app is closed (installed app, Chromium only)
+type PeriodicSyncRegistration = ServiceWorkerRegistration & {
+  periodicSync?: { register: (tag: string, options: { minInterval: number }) => Promise<void> };
+};
+
+// How the summary can reach this device: also with the app closed, only while it is open, or not at all
+export type ReminderDelivery = 'background' | 'open-only' | 'unsupported';
+
+// The worker lives next to index.html, so the app also works when served under a base path
+export const registerReminderWorker = async (): Promise<ReminderDelivery> => {
+  if (!('serviceWorker' in navigator)) return 'unsupported';
+  let registration: PeriodicSyncRegistration;
+  try {
+    registration = await navigator.serviceWorker.register(`${import.meta.env.BASE_URL}sw.js`);
+  } catch (error) {
+    console.error("Reminder worker:", error);
+    return 'unsupported';
+  }
+  if (!registration.periodicSync) return 'open-only';
+  try {
+    await registration.periodicSync.register('daily-reminder', { minInterval: 60 * 60 * 1000 });
+    return 'background';
+  } catch (error) {
+    // Refused unless the app is installed (see public/manifest.webmanifest); the checks while it is open still work
+    console.warn("Reminder periodic sync:", error);
+    return 'open-only';
+  }
+};
+
+const postToWorker = async (message: object) => {
+  if (!('serviceWorker' in navigator)) return;
+  const registration = await navigator.serviceWorker.ready;
+  registration.active?.postMessage(message);
+};
+
+export const updateReminderSchedule = (settings: DailyReminderSettings, schedule: DailySummary[]) => {
+  postToWorker({ type: 'schedule', enabled: settings.enabled, hour: settings.hour, schedule })
+    .catch(error => console.error("Reminder schedule error:", error));
+};
+
+export const checkDailyReminder = () => {
+  postToWorker({ type: 'check' }).catch(error => console.error("Reminder check error:", error));
+};
+
+export const requestNotificationPermission = async (): Promise<boolean> => {
+  if (!('Notification' in window)) return false;
+  if (Notification.permission === 'granted') return true;
+  return (await Notification.requestPermission()) === 'granted';
+};
+
+// Clicks on the notification while the app is open arrive as a message from the worker
+export const subscribeToReminderClicks = (onOpen: (borrowerKey: string) => void) => {
+  if (!('serviceWorker' in navigator)) return () => {};
+  const handleMessage = (event: MessageEvent) => {
+    if (event.data?.type === 'open-borrower' && event.data.borrowerKey) onOpen(event.data.borrowerKey);
+  };
+  navigator.serviceWorker.addEventListener('message', handleMessage);
+  return () => navigator.serviceWorker.removeEventListener('message', handleMessage);
+};
+
+// A click with the app closed opens it with ?borrower=<key>; read it once and clean the address bar
+export const consumeReminderLink = (): string | null => {
+  const url = new URL(window.location.href);
+  const borrowerKey = url.searchParams.get(REMINDER_LINK_PARAM);
+  if (!borrowerKey) return null;
+  url.searchParams.delete(REMINDER_LINK_PARAM);
+  window.history.replaceState(null, '', url.toString());
+  return borrowerKey;
+};
@@ -0,0 +1,75 @@
+import { initializeApp, getApps, getApp, FirebaseApp } from 'firebase/app';
+import { getFirestore, connectFirestoreEmulator, collection as collectionRef, doc, setDoc, deleteDoc, getDocs, onSnapshot, writeBatch, query, where, Firestore } from 'firebase/firestore';
+import { RecordFilter, StorageAdapter, StoredRecord } from './storageAdapter';
+
+export interface FirebaseConfig {
+  apiKey: string;
+  authDomain: string;
+  projectId: string;
+  storageBucket: string;
+  messagingSenderId: string;
+  appId: string;
+  emulatorHost?: string; // Local Firebase emulators (e.g. "127.0.0.1"): Auth on :9099, Firestore on :8080
+}
+
+// Firestore caps a write batch at 500 operations
+const BATCH_LIMIT = 500;
+
+// Shared by Firestore and Auth; the first config wins until the page reloads
+export const getFirebaseApp = (config: FirebaseConfig): FirebaseApp => {
+  if (getApps().length) return getApp();
+  const { emulatorHost, ...options } = config;
+  return initializeApp(options);
+};
+
+// The emulator can only be attached once, before the first read or write
+let emulatorConnected = false;
+
+export const getFirestoreDb = (config: FirebaseConfig): Firestore => {
+  const db = getFirestore(getFirebaseApp(config));
+  if (config.emulatorHost && !emulatorConnected) {
+    connectFirestoreEmulator(db, config.emulatorHost, 8080);
+    emulatorConnected = true;
+  }
+  return db;
+};
+
+// Each account's data lives under workspaces/{workspaceId}, one Firestore collection per app
+// collection, document id = record id. Throws when the config is rejected by the SDK.
+export const createFirestoreAdapter = (config: FirebaseConfig, workspaceId: string): StorageAdapter => {
+  const db = getFirestoreDb(config);
+  const path = (collection: string) => `workspaces/${workspaceId}/${collection}`;
+
+  return {
+    load: async <T extends StoredRecord>(collection: string) => {
+      const snapshot = await getDocs(collectionRef(db, path(collection)));
+      return snapshot.docs.map(d => d.data() as T);
+    },
+
+    subscribe: <T extends StoredRecord>(collection: string, onUpdate: (records: T[]) => void, onError?: (error: unknown) => void, filter?: RecordFilter) => {
+      const ref = collectionRef(db, path(collection));
+      return onSnapshot(filter ? query(ref, where(filter.field, '==', filter.value)) : ref, (snapshot) => {
+        onUpdate(snapshot.docs.map(d => d.data() as T));
+      }, (error) => {
+        if (onError) onError(error);
+        else console.error("Sync error:", error);
+      });
+    },
+
+    save: async (collection, record) => {
+      await setDoc(doc(db, path(collection), record.id), record);
+    },
+
+    saveBatch: async (collection, records) => {
+      for (let i = 0; i < records.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db);
+        records.slice(i, i + BATCH_LIMIT).forEach(record => batch.set(doc(db, path(collection), record.id), record));
+        await batch.commit();
+      }
+    },
+
+    remove: async (collection, id) => {
+      await deleteDoc(doc(db, path(collection), id));
+    }
+  };
+};
@@ -0,0 +1,79 @@
+import { CollectionName, RecordFilter, StorageAdapter, StoredRecord, createListeners, matchesFilter } from './storageAdapter';
+
+const DB_NAME = 'gestor-emprestimos';
+const DB_VERSION = 4;
+const COLLECTIONS: CollectionName[] = ['clients', 'borrowers', 'auditLog', 'settings', 'contacts'];
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const completion = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+// One object store per collection keyed by id. No size limit in practice, unlike localStorage.
+// Changes made in other tabs are announced over a BroadcastChannel.
+export const createIndexedDbAdapter = (dbName: string = DB_NAME): StorageAdapter => {
+  const listeners = createListeners();
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(dbName) : null;
+  if (channel) channel.onmessage = (e: MessageEvent<CollectionName>) => listeners.notify(e.data);
+
+  let dbPromise: Promise<IDBDatabase> | null = null;
+  const openDb = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, DB_VERSION);
+      request.onupgradeneeded = () => {
+        COLLECTIONS.forEach(name => {
+          if (!request.result.objectStoreNames.contains(name)) {
+            request.result.createObjectStore(name, { keyPath: 'id' });
+          }
+        });
+      };
+      dbPromise = promisify(request);
+    }
+    return dbPromise;
+  };
+
+  const write = async (collection: CollectionName, apply: (store: IDBObjectStore) => void) => {
+    const db = await openDb();
+    const tx = db.transaction(collection, 'readwrite');
+    apply(tx.objectStore(collection));
+    await completion(tx);
+    listeners.notify(collection);
+    channel?.postMessage(collection);
+  };
+
+  const load = async <T extends StoredRecord>(collection: CollectionName): Promise<T[]> => {
+    const db = await openDb();
+    return promisify(db.transaction(collection, 'readonly').objectStore(collection).getAll()) as Promise<T[]>;
+  };
+
+  return {
+    load,
+
+    subscribe: <T extends StoredRecord>(collection: CollectionName, onUpdate: (records: T[]) => void, onError?: (error: unknown) => void, filter?: RecordFilter) => {
+      let active = true;
+      const emit = () => {
+        load<T>(collection)
+          .then(records => { if (active) onUpdate(records.filter(r => matchesFilter(r, filter))); })
+          .catch(error => onError ? onError(error) : console.error(`IndexedDB ${collection} error:`, error));
+      };
+      const unsubscribe = listeners.add(collection, emit);
+      emit();
+      return () => {
+        active = false;
+        unsubscribe();
+      };
+    },
+
+    save: (collection, record) => write(collection, store => { store.put(record); }),
+
+    saveBatch: (collection, records) => write(collection, store => { records.forEach(r => store.put(r)); }),
+
+    remove: (collection, id) => write(collection, store => { store.delete(id); })
+  };
+};
@@ -0,0 +1,73 @@
+import { Client, Installment, LateFeeBreakdown, LateFeeSettings } from '../types';
+import { getDaysUntilDue, parseISODate, roundCents, toISODate } from '../constants';
+import { getInstallmentRemaining } from './paymentService';
+
+// Common Brazilian practice: 2% multa + 1% a.m. de mora, no grace period
+export const DEFAULT_LATE_FEE_SETTINGS: LateFeeSettings = {
+  enabled: false,
+  fineType: 'percent',
+  fineValue: 2,
+  interestRate: 1,
+  interestPeriod: 'monthly',
+  graceDays: 0,
+  capPercent: 0
+};
+
+const NO_LATE_FEE: LateFeeBreakdown = { daysLate: 0, fine: 0, interest: 0, total: 0 };
+
+// Late charges owed on an installment on `asOf` (today by default), counting only the payments made by then.
+// The fine and the cap are computed on the balance open at the due date. Mora accrues per period between
+// payments on the balance open in that period, so a partial payment does not erase interest already accrued.
+// The grace period only waives the charges, it does not shift the start of the interest count.
+export const calculateLateFee = (installment: Installment, settings: LateFeeSettings, asOf: Date = new Date()): LateFeeBreakdown => {
+  if (!settings.enabled || installment.isPaid || installment.isRenegotiated) return NO_LATE_FEE;
+
+  const daysLate = -getDaysUntilDue(installment.dueDate, asOf);
+  if (daysLate <= 0 || daysLate <= settings.graceDays) return NO_LATE_FEE;
+
+  const asOfDate = toISODate(asOf);
+  const payments = (installment.payments || []).filter(p => p.date <= asOfDate).sort((a, b) => a.date.localeCompare(b.date));
+  const paidBy = (date: string) => payments.filter(p => p.date <= date).reduce((sum, p) => sum + p.amount - (p.lateFee || 0), 0);
+
+  const balanceAtDue = Math.max(0, roundCents(installment.value - paidBy(installment.dueDate)));
+  if (balanceAtDue <= 0 || installment.value - paidBy(asOfDate) <= 0) return NO_LATE_FEE;
+
+  let fine = settings.fineType === 'percent'
+    ? balanceAtDue * (settings.fineValue / 100)
+    : settings.fineValue;
+
+  const dailyRate = settings.interestPeriod === 'daily'
+    ? settings.interestRate / 100
+    : settings.interestRate / 100 / 30;
+
+  // Each payment after the due date closes a period and lowers the balance of the next one
+  let interest = 0;
+  let balance = balanceAtDue;
+  let periodStart = installment.dueDate;
+  payments.filter(p => p.date > installment.dueDate).forEach(p => {
+    interest += balance * dailyRate * -getDaysUntilDue(periodStart, parseISODate(p.date));
+    balance = Math.max(0, balance - (p.amount - (p.lateFee || 0)));
+    periodStart = p.date;
+  });
+  interest += balance * dailyRate * -getDaysUntilDue(periodStart, asOf);
+
+  // Cap applies to the combined charges; the fine is preserved first
+  if (settings.capPercent > 0) {
+    const cap = balanceAtDue * (settings.capPercent / 100);
+    fine = Math.min(fine, cap);
+    interest = Math.min(interest, cap - fine);
+  }
+
+  const lateFeesPaid = payments.reduce((sum, p) => sum + (p.lateFee || 0), 0);
+  const total = Math.max(0, roundCents(fine + interest - lateFeesPaid));
+  return { daysLate, fine: roundCents(fine), interest: roundCents(interest), total };
+};
+
+// Open balance plus outstanding late charges
+export const getInstallmentAmountDue = (installment: Installment, settings: LateFeeSettings): number => {
+  return roundCents(getInstallmentRemaining(installment) + calculateLateFee(installment, settings).total);
+};
+
+export const getClientLateFeesAccrued = (client: Client, settings: LateFeeSettings): number => {
+  return roundCents((client.installmentsList || []).reduce((sum, inst) => sum + calculateLateFee(inst, settings).total, 0));
+};
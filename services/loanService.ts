@@ -0,0 +1,103 @@
+import { Client } from '../types';
+import { getDaysUntilDue, roundCents } from '../constants';
+import { getClientPaidAmount, getClientOutstanding, getInstallmentPaidAmount } from './paymentService';
+import { getInstallmentSplit } from './amortizationService';
+import { isRevolving, getOutstandingPrincipal, getPrincipalRepaid } from './revolvingService';
+
+export const LOAN_STATUS_LABELS: Record<Client['status'], string> = {
+  Active: 'Ativo',
+  Completed: 'Quitado',
+  Late: 'Atrasado',
+  Renegotiated: 'Renegociado'
+};
+
+// Cash actually lent on this loan. A renegotiated loan only counts the new money on top of the
+// rolled over balance, otherwise the same balance would be counted once per loan in the chain.
+export const getLoanInvested = (loan: Client): number => {
+  return roundCents(loan.principal - (loan.rolledOverAmount || 0));
+};
+
+// Expected revenue. Once renegotiated, a loan only yields what was received before it was closed.
+export const getLoanExpectedRevenue = (loan: Client): number => {
+  if (loan.status === 'Renegotiated') return getLoanReceived(loan);
+  return loan.principal * (1 + loan.interestRate / 100);
+};
+
+export const getLoanProfit = (loan: Client): number => {
+  return getLoanExpectedRevenue(loan) - getLoanInvested(loan);
+};
+
+// Everything still owed on the loan: open installments plus, for revolving loans, the principal
+export const getLoanOutstanding = (loan: Client): number => {
+  if (loan.status === 'Renegotiated') return 0;
+  return roundCents(getClientOutstanding(loan) + (isRevolving(loan) ? getOutstandingPrincipal(loan) : 0));
+};
+
+// Everything received: installment payments plus revolving principal paydowns
+export const getLoanReceived = (loan: Client): number => {
+  return roundCents(getClientPaidAmount(loan) + (isRevolving(loan) ? getPrincipalRepaid(loan) : 0));
+};
+
+// Fully paid: every installment settled and, for revolving loans, the principal repaid
+export const isLoanSettled = (loan: Client): boolean => {
+  const chargesPaid = loan.installmentsList.every(i => i.isPaid);
+  return isRevolving(loan) ? chargesPaid && getOutstandingPrincipal(loan) === 0 : chargesPaid;
+};
+
+// Status derived from the installments: completed, late (an open installment past due) or active.
+// A renegotiated loan stays closed.
+export const getSettledStatus = (loan: Client, today: Date = new Date()): Client['status'] => {
+  if (loan.status === 'Renegotiated') return loan.status;
+  if (isLoanSettled(loan)) return 'Completed';
+  const isLate = (loan.installmentsList || []).some(inst => !inst.isPaid && !inst.isRenegotiated && getDaysUntilDue(inst.dueDate, today) < 0);
+  return isLate ? 'Late' : 'Active';
+};
+
+// Contracted interest already received. Each payment is split pro rata using the installment's
+// principal/interest split, so Price and SAC loans realize interest earlier than flat ones.
+export const getLoanRealizedInterest = (loan: Client): number => {
+  return roundCents((loan.installmentsList || []).reduce((sum, inst) => {
+    if (inst.value <= 0) return sum;
+    const paidRatio = Math.min(1, getInstallmentPaidAmount(inst) / inst.value);
+    return sum + getInstallmentSplit(loan, inst).interestPart * paidRatio;
+  }, 0));
+};
+
+// Balance carried into a renegotiation: everything outstanding plus any late charges owed
+export const getRenegotiationBalance = (loan: Client, lateFeesAccrued: number): number => {
+  return roundCents(getLoanOutstanding(loan) + lateFeesAccrued);
+};
+
+// Close the open installments of the original loan and link it to its replacement
+export const closeLoanForRenegotiation = (original: Client, replacementId: string): Client => {
+  return {
+    ...original,
+    installmentsList: original.installmentsList.map(inst => inst.isPaid ? inst : { ...inst, isRenegotiated: true }),
+    status: 'Renegotiated',
+    renegotiatedTo: replacementId,
+    lastUpdated: Date.now()
+  };
+};
+
+// Ordered chain of loans (oldest first) that the given loan belongs to
+export const getRenegotiationChain = (loan: Client, loans: Client[]): Client[] => {
+  const byId = new Map(loans.map(l => [l.id, l]));
+  const chain: Client[] = [loan];
+  const seen = new Set([loan.id]);
+
+  let current = loan;
+  while (current.renegotiatedFrom && byId.has(current.renegotiatedFrom) && !seen.has(current.renegotiatedFrom)) {
+    current = byId.get(current.renegotiatedFrom)!;
+    seen.add(current.id);
+    chain.unshift(current);
+  }
+
+  current = loan;
+  while (current.renegotiatedTo && byId.has(current.renegotiatedTo) && !seen.has(current.renegotiatedTo)) {
+    current = byId.get(current.renegotiatedTo)!;
+    seen.add(current.id);
+    chain.push(current);
+  }
+
+  return chain;
+};
@@ -0,0 +1,62 @@
+import { CollectionName, RecordFilter, StorageAdapter, StoredRecord, createListeners, matchesFilter } from './storageAdapter';
+
+// Each collection is a JSON array under its own key ('clients', 'borrowers'), the format the app
+// has always used, so existing data loads unchanged. clear() wipes a collection in one write.
+export const createLocalStorageAdapter = (): StorageAdapter & { clear: (collection: CollectionName) => void } => {
+  const listeners = createListeners();
+
+  const read = <T extends StoredRecord>(collection: CollectionName): T[] => {
+    const saved = localStorage.getItem(collection);
+    if (!saved) return [];
+    try {
+      const parsed = JSON.parse(saved);
+      return Array.isArray(parsed) ? parsed : [];
+    } catch (e) {
+      console.error(`Failed to parse ${collection}`, e);
+      return [];
+    }
+  };
+
+  const write = <T extends StoredRecord>(collection: CollectionName, records: T[]) => {
+    localStorage.setItem(collection, JSON.stringify(records));
+    listeners.notify(collection);
+  };
+
+  const upsert = <T extends StoredRecord>(collection: CollectionName, records: T[]) => {
+    const byId = new Map(records.map(r => [r.id, r]));
+    const current = read<T>(collection);
+    const merged = current.map(r => byId.get(r.id) || r);
+    const currentIds = new Set(current.map(r => r.id));
+    write(collection, [...merged, ...records.filter(r => !currentIds.has(r.id))]);
+  };
+
+  return {
+    load: async (collection) => read(collection),
+
+    subscribe: <T extends StoredRecord>(collection: CollectionName, onUpdate: (records: T[]) => void, _onError?: (error: unknown) => void, filter?: RecordFilter) => {
+      const emit = () => onUpdate(read<T>(collection).filter(r => matchesFilter(r, filter)));
+      // Other tabs write to the same keys
+      const onStorage = (e: StorageEvent) => { if (e.key === collection) emit(); };
+      window.addEventListener('storage', onStorage);
+      const unsubscribe = listeners.add(collection, emit);
+      emit();
+      return () => {
+        window.removeEventListener('storage', onStorage);
+        unsubscribe();
+      };
+    },
+
+    save: async (collection, record) => upsert(collection, [record]),
+
+    saveBatch: async (collection, records) => upsert(collection, records),
+
+    remove: async (collection, id) => {
+      write(collection, read(collection).filter(r => r.id !== id));
+    },
+
+    clear: (collection) => {
+      localStorage.removeItem(collection);
+      listeners.notify(collection);
+    }
+  };
+};
@@ -0,0 +1,150 @@
+import { Client, ContactAttempt, Installment, MessageSettings, ReminderStage } from '../types';
+import { formatCurrency, getDaysUntilDue, getWhatsAppUrl, toISODate } from '../constants';
+import { getInstallmentRemaining } from './paymentService';
+import { getLoanOutstanding } from './loanService';
+import { getInstallmentPixCode } from './pixService';
+
+export const MESSAGE_SETTINGS_ID = 'messages';
+
+export const REMINDER_STAGE_LABELS: Record<ReminderStage, string> = {
+  upcoming: 'A vencer',
+  dueToday: 'Vence hoje',
+  late: '1 a 7 dias de atraso',
+  overdue: '8 a 29 dias de atraso',
+  veryLate: '30+ dias de atraso',
+  promise: 'Promessa de pagamento'
+};
+
+// Placeholder -> what it is replaced with
+export const TEMPLATE_PLACEHOLDERS: Record<string, string> = {
+  nome: 'Nome do cliente',
+  primeiro_nome: 'Primeiro nome do cliente',
+  parcela: 'Número da parcela',
+  valor: 'Valor em aberto da parcela',
+  vencimento: 'Data de vencimento',
+  dias_atraso: 'Dias de atraso',
+  encargos: 'Multa e juros de atraso',
+  total: 'Valor em aberto + encargos',
+  saldo: 'Saldo devedor do contrato',
+  pix: 'Chave PIX',
+  remetente: 'Seu nome'
+};
+
+// The wording the app always used, now the starting point of each template
+const INTRO = 'Opa Aqui é o {remetente} tudo certo? Passando para lembrar da parcela *#{parcela}* no valor de *{valor}*';
+
+export const DEFAULT_MESSAGE_SETTINGS: MessageSettings = {
+  id: MESSAGE_SETTINGS_ID,
+  senderName: 'Giliarde',
+  pixKey: '',
+  pixName: '',
+  pixCity: '',
+  templates: {
+    upcoming: `${INTRO} que vence logo logo!`,
+    dueToday: `${INTRO} que vence hoje!`,
+    late: `${INTRO} que venceu dia *{vencimento}*. Com multa e juros de atraso, o valor atualizado é *{total}*.`,
+    overdue: 'Olá {primeiro_nome}, aqui é o {remetente}. A parcela *#{parcela}* venceu em *{vencimento}* e está com *{dias_atraso} dias* de atraso. Valor atualizado: *{total}*. Vamos regularizar?',
+    veryLate: 'Olá {primeiro_nome}, aqui é o {remetente}. Sua parcela *#{parcela}* está em atraso há *{dias_atraso} dias*. Valor atualizado: *{total}*; saldo total do contrato: *{saldo}*. Entre em contato para combinarmos o pagamento.',
+    promise: 'Olá {primeiro_nome}, aqui é o {remetente}. Passando para lembrar do pagamento de *{valor}* que combinamos para *{vencimento}*. Obrigado!'
+  }
+};
+
+// Settings saved by older versions or received from the cloud, completed with the defaults
+export const normalizeMessageSettings = (saved: Partial<MessageSettings> | null | undefined): MessageSettings => ({
+  ...DEFAULT_MESSAGE_SETTINGS,
+  ...saved,
+  id: MESSAGE_SETTINGS_ID,
+  templates: { ...DEFAULT_MESSAGE_SETTINGS.templates, ...saved?.templates }
+});
+
+export const getReminderStage = (daysUntilDue: number): ReminderStage => {
+  if (daysUntilDue > 0) return 'upcoming';
+  if (daysUntilDue === 0) return 'dueToday';
+  if (daysUntilDue >= -7) return 'late';
+  if (daysUntilDue > -30) return 'overdue';
+  return 'veryLate';
+};
+
+// Replace {placeholders}; unknown ones are left as typed so the mistake shows in the preview
+export const renderTemplate = (template: string, values: Record<string, string>): string => {
+  return template.replace(/\{(\w+)\}/g, (match, key: string) => values[key] ?? match);
+};
+
+export const getUnknownPlaceholders = (template: string): string[] => {
+  const found = Array.from(template.matchAll(/\{(\w+)\}/g), m => m[1]);
+  return Array.from(new Set(found.filter(key => !(key in TEMPLATE_PLACEHOLDERS))));
+};
+
+export const getReminderValues = (settings: MessageSettings, loan: Client, installment: Installment, lateFee: number): Record<string, string> => {
+  const remaining = getInstallmentRemaining(installment);
+  const name = loan.name.trim();
+  return {
+    nome: name,
+    primeiro_nome: name.split(/\s+/)[0],
+    parcela: String(installment.number),
+    valor: formatCurrency(remaining),
+    vencimento: installment.dueDate.split('-').reverse().join('/'),
+    dias_atraso: String(Math.max(0, -getDaysUntilDue(installment.dueDate))),
+    encargos: formatCurrency(lateFee),
+    total: formatCurrency(remaining + lateFee),
+    saldo: formatCurrency(getLoanOutstanding(loan) + lateFee),
+    pix: settings.pixKey,
+    remetente: settings.senderName
+  };
+};
+
+// With a PIX key configured, the installment's "copia e cola" code goes at the end of the message
+export const buildReminderMessage = (settings: MessageSettings, loan: Client, installment: Installment, lateFee: number): string => {
+  const stage = getReminderStage(getDaysUntilDue(installment.dueDate));
+  const message = renderTemplate(settings.templates[stage], getReminderValues(settings, loan, installment, lateFee));
+  const pixCode = getInstallmentPixCode(settings, loan, installment, lateFee);
+  return pixCode ? `${message}\n\nPIX copia e cola:\n${pixCode}` : message;
+};
+
+export const getReminderLink = (settings: MessageSettings, loan: Client, installment: Installment, lateFee: number): string => {
+  return getWhatsAppUrl(loan.phone, buildReminderMessage(settings, loan, installment, lateFee));
+};
+
+// Reminder of a payment promise, sent when the promised date comes: {valor} and {total} are the
+// promised amount, {vencimento} the promised date
+export const buildPromiseMessage = (settings: MessageSettings, promise: ContactAttempt, loans: Client[]): string => {
+  const name = promise.name.trim();
+  const amount = formatCurrency(promise.promisedAmount || 0);
+  const outstanding = loans.reduce((sum, loan) => sum + getLoanOutstanding(loan), 0);
+  return renderTemplate(settings.templates.promise, {
+    nome: name,
+    primeiro_nome: name.split(/\s+/)[0],
+    parcela: promise.installmentNumber ? String(promise.installmentNumber) : '',
+    valor: amount,
+    vencimento: (promise.promisedDate || promise.date).split('-').reverse().join('/'),
+    dias_atraso: '0',
+    encargos: formatCurrency(0),
+    total: amount,
+    saldo: formatCurrency(outstanding),
+    pix: settings.pixKey,
+    remetente: settings.senderName
+  });
+};
+
+// Example values for the live preview of each stage (negative = days before the due date)
+const PREVIEW_DAYS_LATE: Record<ReminderStage, number> = { upcoming: -2, dueToday: 0, late: 3, overdue: 12, veryLate: 45, promise: 0 };
+
+export const getPreviewValues = (settings: MessageSettings, stage: ReminderStage): Record<string, string> => {
+  const daysLate = PREVIEW_DAYS_LATE[stage];
+  const lateFee = daysLate > 0 ? 12.5 + daysLate * 1.5 : 0;
+  const dueDate = new Date();
+  dueDate.setDate(dueDate.getDate() - daysLate);
+  return {
+    nome: 'Maria da Silva',
+    primeiro_nome: 'Maria',
+    parcela: '3',
+    valor: formatCurrency(250),
+    vencimento: toISODate(dueDate).split('-').reverse().join('/'),
+    dias_atraso: String(Math.max(0, daysLate)),
+    encargos: formatCurrency(lateFee),
+    total: formatCurrency(250 + lateFee),
+    saldo: formatCurrency(1000 + lateFee),
+    pix: settings.pixKey || '(chave PIX não configurada)',
+    remetente: settings.senderName
+  };
+};
@@ -0,0 +1,113 @@
+import { Client, ContactAttempt, LateFeeSettings, MessageSettings, PromiseStatus } from '../types';
+import { getDaysUntilDue, toISODate } from '../constants';
+import { getInstallmentRemaining, getInstallmentPaymentStatus } from './paymentService';
+import { calculateLateFee } from './lateFeeService';
+import { isRevolving } from './revolvingService';
+import { getBorrowerKey } from './borrowerService';
+import { getDueSoonDays } from './scheduleService';
+import { buildReminderMessage, buildPromiseMessage } from './messageTemplateService';
+
+// One entry of the bell: an installment that is late or about to be due, or a promise to pay
+export interface ReminderAlert {
+  borrowerKey: string;
+  clientName: string;
+  phone: string;
+  installment: number;
+  value: number;
+  dueDate: string;
+  days: number;
+  status: 'overdue' | 'due' | 'promise';
+  promiseStatus?: PromiseStatus; // Promise due today ('pending') or missed ('broken')
+  isPartial: boolean;
+  isInterestCharge: boolean; // Revolving loan interest charge rather than an installment
+  lateFee: number;
+  message: string; // WhatsApp reminder built from the template of its stage
+}
+
+export interface ReminderOptions {
+  warningDays: number;
+  lateFeeSettings: LateFeeSettings;
+  messageSettings: MessageSettings;
+  openPromises: Map<string, { promise: ContactAttempt, status: PromiseStatus }>; // See getOpenPromises
+}
+
+export const isUrgentAlert = (alert: ReminderAlert): boolean => alert.status === 'overdue' || alert.promiseStatus === 'broken';
+
+// The alerts as of `day` (today by default). Later days assume nothing is paid in between, which is
+// what the daily summary needs while the app stays closed.
+export const buildReminderAlerts = (clients: Client[], options: ReminderOptions, day: Date = new Date()): ReminderAlert[] => {
+  const { warningDays, lateFeeSettings, messageSettings } = options;
+  const dayISO = toISODate(day);
+  const alerts: ReminderAlert[] = [];
+
+  // A pending promise whose date passed by `day` counts as broken on that day
+  const promises = new Map([...options.openPromises].map(([key, open]): [string, { promise: ContactAttempt, status: PromiseStatus }] => [
+    key,
+    { promise: open.promise, status: open.status === 'pending' && open.promise.promisedDate! < dayISO ? 'broken' : open.status }
+  ]));
+
+  // Use ALL non-deleted clients, not just the search results, so alerts persist while searching
+  const allNonDeletedClients = clients.filter(c => !c.isDeleted);
+
+  allNonDeletedClients.forEach(client => {
+    // Regular reminders wait while the borrower has a pending promise to pay
+    if (promises.get(getBorrowerKey(client))?.status === 'pending') return;
+    client.installmentsList?.forEach(inst => {
+      if (inst.isPaid || inst.isRenegotiated) return;
+      const days = getDaysUntilDue(inst.dueDate, day);
+      // Only the outstanding balance is owed, partial payments are already deducted
+      const remaining = getInstallmentRemaining(inst);
+      const isPartial = getInstallmentPaymentStatus(inst) === 'Partial';
+      const base = {
+        borrowerKey: getBorrowerKey(client),
+        clientName: client.name,
+        phone: client.phone,
+        installment: inst.number,
+        value: remaining,
+        dueDate: inst.dueDate,
+        days,
+        isPartial,
+        isInterestCharge: isRevolving(client)
+      };
+
+      // < 0 is Overdue (Red)
+      if (days < 0) {
+        const lateFee = calculateLateFee(inst, lateFeeSettings).total;
+        alerts.push({ ...base, status: 'overdue', lateFee, message: buildReminderMessage(messageSettings, client, inst, lateFee) });
+      }
+      // 0 to warningDays is Due/Warning (Orange), specifically Today (0) and Tomorrow (1)
+      else if (days <= getDueSoonDays(client.frequency, warningDays)) {
+        alerts.push({ ...base, status: 'due', lateFee: 0, message: buildReminderMessage(messageSettings, client, inst, 0) });
+      }
+    });
+  });
+
+  // Promises that come due on the day or were missed
+  promises.forEach(({ promise, status }, borrowerKey) => {
+    const days = getDaysUntilDue(promise.promisedDate!, day);
+    if (status === 'pending' && days > 0) return;
+    const loans = allNonDeletedClients.filter(c => getBorrowerKey(c) === borrowerKey);
+    alerts.push({
+      borrowerKey,
+      clientName: promise.name,
+      phone: loans.find(l => l.phone)?.phone || '',
+      installment: promise.installmentNumber || 0,
+      value: promise.promisedAmount || 0,
+      dueDate: promise.promisedDate!,
+      days,
+      status: 'promise',
+      promiseStatus: status,
+      isPartial: false,
+      isInterestCharge: false,
+      lateFee: 0,
+      message: buildPromiseMessage(messageSettings, promise, loans)
+    });
+  });
+
+  // Sort: Overdue and broken promises first, then by date ascending
+  return alerts.sort((a, b) => {
+    if (isUrgentAlert(a) && !isUrgentAlert(b)) return -1;
+    if (isUrgentAlert(b) && !isUrgentAlert(a)) return 1;
+    return a.days - b.days;
+  });
+};
@@ -0,0 +1,146 @@
+import { OutboxEntry } from '../types';
+import { StorageAdapter } from './storageAdapter';
+
+const STORAGE_KEY = 'sync_outbox';
+
+// Retry schedule: 2s, 4s, 8s... capped at 5 minutes; after MAX_ATTEMPTS the write is marked failed
+const BASE_DELAY_MS = 2000;
+const MAX_DELAY_MS = 5 * 60 * 1000;
+const MAX_ATTEMPTS = 8;
+
+// Offline Firestore writes never reject, they hang until the server acknowledges them
+const WRITE_TIMEOUT_MS = 15000;
+
+const loadEntries = (): OutboxEntry[] => {
+  try {
+    const saved = localStorage.getItem(STORAGE_KEY);
+    const parsed = saved ? JSON.parse(saved) : [];
+    return Array.isArray(parsed) ? parsed : [];
+  } catch (e) {
+    console.error("Failed to parse outbox", e);
+    return [];
+  }
+};
+
+let adapter: StorageAdapter | null = null;
+let entries: OutboxEntry[] = loadEntries();
+let flushing = false;
+let timer: ReturnType<typeof setTimeout> | null = null;
+const listeners = new Set<(entries: OutboxEntry[]) => void>();
+
+const update = (next: OutboxEntry[]) => {
+  entries = next;
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(entries));
+  } catch (e) {
+    console.error("Outbox Save Error (Quota):", e);
+  }
+  listeners.forEach(listener => listener(entries));
+};
+
+const getBackoff = (attempts: number) => Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempts - 1));
+
+const withTimeout = <T>(promise: Promise<T>): Promise<T> => new Promise((resolve, reject) => {
+  const timeout = setTimeout(() => reject(new Error('Tempo esgotado (sem conexão?)')), WRITE_TIMEOUT_MS);
+  promise.then(
+    value => { clearTimeout(timeout); resolve(value); },
+    error => { clearTimeout(timeout); reject(error); }
+  );
+});
+
+const schedule = () => {
+  if (timer) clearTimeout(timer);
+  timer = null;
+  const pending = entries.filter(e => e.status === 'pending');
+  if (!adapter || pending.length === 0) return;
+
+  const next = Math.min(...pending.map(e => e.nextAttemptAt));
+  timer = setTimeout(flushOutbox, Math.max(0, next - Date.now()));
+};
+
+const send = (entry: OutboxEntry): Promise<void> => {
+  if (entry.operation === 'delete') return adapter!.remove(entry.collection, entry.recordId);
+  return adapter!.save(entry.collection, entry.record!);
+};
+
+// Send every pending write that is due. Writes run one at a time, in queue order.
+export const flushOutbox = async () => {
+  if (!adapter || flushing) return;
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return; // The 'online' event flushes again
+
+  flushing = true;
+  try {
+    const due = entries.filter(e => e.status === 'pending' && e.nextAttemptAt <= Date.now());
+    for (const entry of due) {
+      try {
+        await withTimeout(send(entry));
+        // Only drop it if it was not replaced by a newer write while in flight
+        update(entries.filter(e => e !== entry));
+      } catch (error) {
+        const attempts = entry.attempts + 1;
+        const failed: OutboxEntry = {
+          ...entry,
+          attempts,
+          status: attempts >= MAX_ATTEMPTS ? 'failed' : 'pending',
+          nextAttemptAt: Date.now() + getBackoff(attempts),
+          lastError: error instanceof Error ? error.message : String(error)
+        };
+        update(entries.map(e => e === entry ? failed : e));
+      }
+    }
+  } finally {
+    flushing = false;
+    schedule();
+  }
+};
+
+const enqueue = (entry: Omit<OutboxEntry, 'status' | 'attempts' | 'nextAttemptAt' | 'createdAt'>) => {
+  const queued: OutboxEntry = { ...entry, status: 'pending', attempts: 0, nextAttemptAt: Date.now(), createdAt: Date.now() };
+  // The latest state of a record supersedes any write still queued for it
+  update([...entries.filter(e => e.id !== entry.id), queued]);
+  flushOutbox();
+};
+
+export const enqueueSave = (collection: OutboxEntry['collection'], record: { id: string }, label: string) => {
+  enqueue({ id: `${collection}:${record.id}`, collection, recordId: record.id, label, operation: 'save', record });
+};
+
+export const enqueueDelete = (collection: OutboxEntry['collection'], recordId: string, label: string) => {
+  enqueue({ id: `${collection}:${recordId}`, collection, recordId, label, operation: 'delete' });
+};
+
+// Writes go to this backend; whatever was queued while disconnected is sent right away
+export const startOutbox = (target: StorageAdapter) => {
+  adapter = target;
+  flushOutbox();
+};
+
+// Back online: retry pending writes now instead of waiting out the backoff
+const handleOnline = () => {
+  update(entries.map(e => e.status === 'pending' ? { ...e, nextAttemptAt: Date.now() } : e));
+  flushOutbox();
+};
+if (typeof window !== 'undefined') window.addEventListener('online', handleOnline);
+
+export const retryOutboxEntry = (id: string) => {
+  update(entries.map(e => e.id === id ? { ...e, status: 'pending', attempts: 0, nextAttemptAt: Date.now() } : e));
+  flushOutbox();
+};
+
+export const discardOutboxEntry = (id: string) => {
+  update(entries.filter(e => e.id !== id));
+  schedule();
+};
+
+// Drops every queued write, e.g. when the device's data belonged to another account
+export const clearOutbox = () => {
+  update([]);
+};
+
+export const getOutboxEntries = () => entries;
+
+export const subscribeToOutbox = (listener: (entries: OutboxEntry[]) => void) => {
+  listeners.add(listener);
+  listener(entries);
+  return () => { listeners.delete(listener); };
+};
@@ -0,0 +1,89 @@
+import { Client, Installment, InstallmentPaymentStatus, PaymentEntry } from '../types';
+import { generateId, toISODate, roundCents } from '../constants';
+
+// Total applied to the installment value (late charges are excluded).
+// Legacy records only carry isPaid, so a paid installment without ledger entries counts as fully paid.
+export const getInstallmentPaidAmount = (installment: Installment): number => {
+  if (!installment.payments || installment.payments.length === 0) {
+    return installment.isPaid && !installment.isRenegotiated ? installment.value : 0;
+  }
+  return roundCents(installment.payments.reduce((sum, p) => sum + p.amount - (p.lateFee || 0), 0));
+};
+
+// Late charges already collected on this installment
+export const getInstallmentLateFeesPaid = (installment: Installment): number => {
+  return roundCents((installment.payments || []).reduce((sum, p) => sum + (p.lateFee || 0), 0));
+};
+
+// Remaining balance of an installment (never negative).
+// Renegotiated installments owe nothing here, their balance lives on in the new loan.
+export const getInstallmentRemaining = (installment: Installment): number => {
+  if (installment.isRenegotiated) return 0;
+  return Math.max(0, roundCents(installment.value - getInstallmentPaidAmount(installment)));
+};
+
+export const getInstallmentPaymentStatus = (installment: Installment): InstallmentPaymentStatus => {
+  const paid = getInstallmentPaidAmount(installment);
+  if (paid <= 0) return 'Unpaid';
+  return getInstallmentRemaining(installment) === 0 ? 'Paid' : 'Partial';
+};
+
+// Re-derive isPaid from the ledger so the flag never drifts from the payments.
+// Renegotiated installments owe nothing but were not paid, so they are never flagged as paid.
+export const withDerivedPaidFlag = (installment: Installment): Installment => {
+  const normalized = { ...installment, isPaid: false };
+  return { ...normalized, isPaid: !installment.isRenegotiated && getInstallmentRemaining(normalized) === 0 };
+};
+
+export const addPaymentToInstallment = (installment: Installment, payment: Omit<PaymentEntry, 'id'>): Installment => {
+  // Materialize the implicit legacy payment before appending a new entry
+  const existing = installment.payments && installment.payments.length > 0
+    ? installment.payments
+    : (installment.isPaid ? [{ id: generateId(), amount: installment.value, date: installment.dueDate, method: 'Outro' as const }] : []);
+
+  return withDerivedPaidFlag({
+    ...installment,
+    payments: [...existing, { ...payment, id: generateId(), amount: roundCents(payment.amount), ...(payment.lateFee ? { lateFee: roundCents(payment.lateFee) } : {}) }]
+  });
+};
+
+export const removePaymentFromInstallment = (installment: Installment, paymentId: string): Installment => {
+  return withDerivedPaidFlag({
+    ...installment,
+    payments: (installment.payments || []).filter(p => p.id !== paymentId)
+  });
+};
+
+// Quick toggle: settle the remaining balance (plus any outstanding late charges) in one entry,
+// or clear the ledger if already paid
+export const toggleInstallmentPayment = (installment: Installment, lateFee: number = 0): Installment => {
+  if (installment.isRenegotiated) return installment; // Closed, its balance is paid on the new loan
+  if (installment.isPaid) {
+    return { ...installment, isPaid: false, payments: [] };
+  }
+  return addPaymentToInstallment(installment, {
+    amount: getInstallmentRemaining(installment) + lateFee,
+    date: toISODate(new Date()),
+    method: 'Pix',
+    lateFee
+  });
+};
+
+// Split a received amount: outstanding late charges are settled first, the rest goes to the installment
+export const allocatePayment = (amount: number, outstandingLateFee: number): { lateFee: number, installment: number } => {
+  const lateFee = roundCents(Math.min(amount, Math.max(0, outstandingLateFee)));
+  return { lateFee, installment: roundCents(amount - lateFee) };
+};
+
+// Loan level aggregates
+export const getClientPaidAmount = (client: Client): number => {
+  return roundCents((client.installmentsList || []).reduce((sum, inst) => sum + getInstallmentPaidAmount(inst), 0));
+};
+
+export const getClientOutstanding = (client: Client): number => {
+  return roundCents((client.installmentsList || []).reduce((sum, inst) => sum + getInstallmentRemaining(inst), 0));
+};
+
+export const getClientLateFeesPaid = (client: Client): number => {
+  return roundCents((client.installmentsList || []).reduce((sum, inst) => sum + getInstallmentLateFeesPaid(inst), 0));
+};
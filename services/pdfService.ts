@@ -0,0 +1,138 @@
+// Minimal PDF writer for receipts and statements: A4 pages of text lines in the standard
+// Helvetica fonts, so documents are generated in the browser without any library.
+
+export interface PdfCell {
+  text: string;
+  x: number; // Points from the left margin; right-aligned cells end at x
+  align?: 'left' | 'right';
+}
+
+export interface PdfRow {
+  cells: PdfCell[];
+  size?: number; // Font size, defaults to 10
+  bold?: boolean;
+  gray?: boolean;
+  spaceBefore?: number;
+  rule?: boolean; // Horizontal line below the row
+}
+
+const PAGE_WIDTH = 595; // A4 in points
+const PAGE_HEIGHT = 842;
+const MARGIN = 48;
+export const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+
+// Advance widths (1/1000 em) of characters 32-126 in Helvetica and Helvetica-Bold
+const HELVETICA_WIDTHS = [278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584];
+const HELVETICA_BOLD_WIDTHS = [278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778, 667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584];
+
+// The standard fonts use WinAnsiEncoding, which matches Latin-1 for accented letters;
+// anything else (emoji, other scripts) is replaced
+const toWinAnsi = (text: string): string => {
+  return text.replace(/[‘’]/g, "'").replace(/[“”]/g, '"').replace(/[–—]/g, '-').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+};
+
+export const measureText = (text: string, size: number, bold: boolean = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of toWinAnsi(text)) {
+    // Accented letters are as wide as their base letter
+    const code = char.normalize('NFD').charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return total * size / 1000;
+};
+
+// Split a paragraph into lines that fit maxWidth
+export const wrapText = (text: string, size: number, maxWidth: number = CONTENT_WIDTH): string[] => {
+  const lines: string[] = [];
+  text.split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(' ').forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (line && measureText(candidate, size) > maxWidth) {
+        lines.push(line);
+        line = word;
+      } else {
+        line = candidate;
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const escapePdfText = (text: string): string => toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`);
+
+// Content streams of each page; rows flow down and continue on a new page when the current one is full
+const layoutPages = (rows: PdfRow[], footer: string): string[] => {
+  const pages: string[][] = [];
+  let ops: string[] = [];
+  let y = PAGE_HEIGHT - MARGIN;
+
+  const finishPage = () => {
+    const pageFooter = `${footer} · página ${pages.length + 1}`;
+    ops.push(`0.5 g BT /F1 8 Tf ${MARGIN} ${MARGIN / 2} Td (${escapePdfText(pageFooter)}) Tj ET`);
+    pages.push(ops);
+    ops = [];
+    y = PAGE_HEIGHT - MARGIN;
+  };
+
+  rows.forEach(row => {
+    const size = row.size || 10;
+    const lineHeight = size * 1.4;
+    y -= (row.spaceBefore || 0) + lineHeight;
+    if (y < MARGIN) {
+      finishPage();
+      y -= lineHeight;
+    }
+
+    const font = row.bold ? '/F2' : '/F1';
+    const color = row.gray ? '0.45 g' : '0 g';
+    row.cells.forEach(cell => {
+      const width = cell.align === 'right' ? measureText(cell.text, size, row.bold) : 0;
+      const x = MARGIN + cell.x - width;
+      ops.push(`${color} BT ${font} ${size} Tf ${x.toFixed(2)} ${y.toFixed(2)} Td (${escapePdfText(cell.text)}) Tj ET`);
+    });
+    if (row.rule) {
+      const lineY = y - size * 0.5;
+      ops.push(`0.8 G 0.5 w ${MARGIN} ${lineY.toFixed(2)} m ${PAGE_WIDTH - MARGIN} ${lineY.toFixed(2)} l S`);
+    }
+  });
+  finishPage();
+
+  return pages.map(p => p.join('\n'));
+};
+
+// author: the lender issuing the document (see MessageSettings.senderName)
+export const buildPdf = (rows: PdfRow[], title: string, footer: string, author: string): Blob => {
+  const pages = layoutPages(rows, footer);
+  // 1 catalog, 2 page tree, 3-4 fonts, 5 info, then a page and its content stream per page
+  const pageIds = pages.map((_, i) => 6 + i * 2);
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfText(title)}) /Author (${escapePdfText(author)}) >>`
+  ];
+  pages.forEach((content, i) => {
+    objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] /Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`);
+    objects.push(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+  });
+
+  // Text was already converted to WinAnsi, every character is one byte and string offsets are byte offsets
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  objects.forEach((body, i) => {
+    offsets.push(pdf.length);
+    pdf += `${i + 1} 0 obj\n${body}\nendobj\n`;
+  });
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF`;
+
+  const bytes = new Uint8Array(pdf.length);
+  for (let i = 0; i < pdf.length; i++) bytes[i] = pdf.charCodeAt(i);
+  return new Blob([bytes], { type: 'application/pdf' });
+};
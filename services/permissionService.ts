@@ -0,0 +1,67 @@
+import { Client, UserRole } from '../types';
+import { isRevolving, syncRevolvingCharges } from './revolvingService';
+import { getSettledStatus } from './loanService';
+
+// What the UI offers to each role. Recording payments and sending WhatsApp reminders are open to everyone.
+export interface Permissions {
+  viewTotals: boolean; // Portfolio totals and cash flow chart
+  createLoans: boolean; // New, duplicated and renegotiated loans
+  editLoans: boolean; // Principal, start date, name
+  deleteLoans: boolean;
+  editBorrowers: boolean; // Borrower records, merge/split, collector assignment
+  viewHistory: boolean;
+  manageTeam: boolean;
+  editSettings: boolean; // Shared WhatsApp message templates
+  reconcileStatements: boolean; // Bank statement import
+}
+
+const OWNER_PERMISSIONS: Permissions = {
+  viewTotals: true,
+  createLoans: true,
+  editLoans: true,
+  deleteLoans: true,
+  editBorrowers: true,
+  viewHistory: true,
+  manageTeam: true,
+  editSettings: true,
+  reconcileStatements: true
+};
+
+const COLLECTOR_PERMISSIONS: Permissions = {
+  viewTotals: false,
+  createLoans: false,
+  editLoans: false,
+  deleteLoans: false,
+  editBorrowers: false,
+  viewHistory: false,
+  manageTeam: false,
+  editSettings: false,
+  reconcileStatements: false
+};
+
+export const getPermissions = (role: UserRole): Permissions => role === 'owner' ? OWNER_PERMISSIONS : COLLECTOR_PERMISSIONS;
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Proprietário',
+  collector: 'Cobrador'
+};
+
+// The version of a loan a collector is allowed to write: the stored loan with only the payments
+// (ledger, paid flags, principal paydowns) taken from the edited copy. The status is derived again
+// from them rather than trusted.
+// Revolving interest charges that came due are generated from the stored loan, so they can be paid too.
+export const restrictCollectorWrite = (storedLoan: Client, edited: Client): Client => {
+  const stored = isRevolving(storedLoan) ? syncRevolvingCharges(storedLoan) : storedLoan;
+  const editedByNumber = new Map(edited.installmentsList.map(i => [i.number, i]));
+  const installmentsList = stored.installmentsList.map(inst => {
+    const edit = editedByNumber.get(inst.number);
+    if (!edit) return inst;
+    const { payments, ...rest } = inst;
+    return edit.payments ? { ...rest, isPaid: edit.isPaid, payments: edit.payments } : { ...rest, isPaid: edit.isPaid };
+  });
+
+  const { principalPayments, ...rest } = stored;
+  const result: Client = { ...rest, installmentsList, lastUpdated: edited.lastUpdated || Date.now() };
+  if (edited.principalPayments) result.principalPayments = edited.principalPayments;
+  return { ...result, status: getSettledStatus(result) };
+};
@@ -0,0 +1,90 @@
+import { Client, Installment, MessageSettings } from '../types';
+import { roundCents } from '../constants';
+import { getInstallmentRemaining } from './paymentService';
+
+// Static PIX BR Code ("copia e cola"), the EMV QR payload defined by the Banco Central manual.
+// Each field is ID (2 digits) + length (2 digits) + value; the last one is a CRC16 of everything before it.
+
+const GUI = 'br.gov.bcb.pix';
+const MAX_NAME_LENGTH = 25;
+const MAX_CITY_LENGTH = 15;
+const MAX_TXID_LENGTH = 25;
+
+const field = (id: string, value: string) => `${id}${String(value.length).padStart(2, '0')}${value}`;
+
+// CRC16/CCITT-FALSE: polynomial 0x1021, initial value 0xFFFF
+export const crc16 = (payload: string): string => {
+  let crc = 0xffff;
+  for (let i = 0; i < payload.length; i++) {
+    crc ^= payload.charCodeAt(i) << 8;
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & 0x8000 ? (crc << 1) ^ 0x1021 : crc << 1;
+      crc &= 0xffff;
+    }
+  }
+  return crc.toString(16).toUpperCase().padStart(4, '0');
+};
+
+// Name and city only accept plain ASCII: "São João" -> "SAO JOAO"
+const toAscii = (text: string, maxLength: number) =>
+  text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7e]/g, '').trim().toUpperCase().slice(0, maxLength);
+
+// CPF/CNPJ and phone keys are registered without punctuation (phones as +55...).
+// A phone typed with parentheses or spaces, e.g. (11) 99999-8888, gets the country code.
+export const normalizePixKey = (key: string): string => {
+  const trimmed = key.trim();
+  if (/^[\d.\-/]+$/.test(trimmed)) return trimmed.replace(/\D/g, '');
+  if (/^\+[\d\s()-]+$/.test(trimmed)) return '+' + trimmed.replace(/\D/g, '');
+  if (/^[\d\s()-]+$/.test(trimmed) && /[()\s]/.test(trimmed)) {
+    const digits = trimmed.replace(/\D/g, '');
+    return digits.startsWith('55') && digits.length > 11 ? `+${digits}` : `+55${digits}`;
+  }
+  return trimmed;
+};
+
+export interface PixCharge {
+  key: string;
+  name: string;
+  city: string;
+  amount: number; // 0 = the payer types the amount
+  txid: string; // Up to 25 letters and digits, '***' when absent
+}
+
+export const buildPixPayload = (charge: PixCharge): string => {
+  const txid = charge.txid.replace(/[^A-Za-z0-9]/g, '').slice(0, MAX_TXID_LENGTH) || '***';
+  const payload = [
+    field('00', '01'),
+    field('26', field('00', GUI) + field('01', normalizePixKey(charge.key))),
+    field('52', '0000'),
+    field('53', '986'), // BRL
+    charge.amount > 0 ? field('54', roundCents(charge.amount).toFixed(2)) : '',
+    field('58', 'BR'),
+    field('59', toAscii(charge.name, MAX_NAME_LENGTH) || 'RECEBEDOR'),
+    field('60', toAscii(charge.city, MAX_CITY_LENGTH) || 'BRASIL'),
+    field('62', field('05', txid)),
+    '6304'
+  ].join('');
+  return payload + crc16(payload);
+};
+
+// Loan id + installment number, so the transfer shows up in the statement already identified
+export const getInstallmentTxid = (loan: Client, installment: Installment): string => {
+  const suffix = `P${installment.number}`;
+  return loan.id.replace(/[^A-Za-z0-9]/g, '').slice(0, MAX_TXID_LENGTH - suffix.length) + suffix;
+};
+
+// Open balance plus late charges, the same total the reminder message asks for
+export const getInstallmentPixAmount = (installment: Installment, lateFee: number): number =>
+  roundCents(getInstallmentRemaining(installment) + lateFee);
+
+// PIX code for an installment, or null while no key is configured
+export const getInstallmentPixCode = (settings: MessageSettings, loan: Client, installment: Installment, lateFee: number): string | null => {
+  if (!settings.pixKey.trim()) return null;
+  return buildPixPayload({
+    key: settings.pixKey,
+    name: settings.pixName || settings.senderName,
+    city: settings.pixCity,
+    amount: getInstallmentPixAmount(installment, lateFee),
+    txid: getInstallmentTxid(loan, installment)
+  });
+};
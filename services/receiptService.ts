@@ -0,0 +1,172 @@
+import { Borrower, Client, Installment, LateFeeSettings, PaymentEntry } from '../types';
+import { formatCurrency, roundCents, toISODate } from '../constants';
+import { getInstallmentPaidAmount, getInstallmentPaymentStatus, getInstallmentRemaining } from './paymentService';
+import { getClientLateFeesAccrued } from './lateFeeService';
+import { LOAN_STATUS_LABELS, getLoanInvested, getLoanOutstanding, getLoanReceived } from './loanService';
+import { isRevolving } from './revolvingService';
+import { getFrequencyLabel } from './scheduleService';
+import { CONTENT_WIDTH, PdfCell, PdfRow, buildPdf, wrapText } from './pdfService';
+
+// A generated PDF plus the WhatsApp text that goes with it
+export interface LoanDocument {
+  title: string;
+  fileName: string;
+  pdf: Blob;
+  message: string;
+}
+
+const formatDate = (isoDate: string): string => isoDate.split('-').reverse().join('/');
+
+const fileSlug = (name: string): string => {
+  return name.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+};
+
+const cell = (text: string, x: number = 0, align?: 'right'): PdfCell => ({ text, x, align });
+
+const titleRows = (title: string, senderName: string): PdfRow[] => [
+  { cells: [cell(senderName)], size: 9, gray: true },
+  { cells: [cell(title), cell(`Emitido em ${formatDate(toISODate(new Date()))}`, CONTENT_WIDTH, 'right')], size: 16, bold: true, rule: true }
+];
+
+const borrowerRows = (name: string, borrower?: Borrower, phone?: string): PdfRow[] => {
+  const rows: PdfRow[] = [{ cells: [cell('Cliente', 0), cell(name, 90)], spaceBefore: 6, bold: true }];
+  if (borrower?.document) rows.push({ cells: [cell('CPF', 0), cell(borrower.document, 90)] });
+  const contact = borrower?.phones[0] || phone;
+  if (contact) rows.push({ cells: [cell('Telefone', 0), cell(contact, 90)] });
+  return rows;
+};
+
+const loanDescription = (loan: Client): string => {
+  const kind = isRevolving(loan) ? 'Juros mensais' : `${loan.installments} parcelas`;
+  return `Contrato ${loan.id} · ${formatDate(loan.startDate)} · ${formatCurrency(loan.principal)} · ${kind} (${getFrequencyLabel(loan).toLowerCase()})`;
+};
+
+const installmentLabel = (loan: Client, installment: Installment): string => {
+  return isRevolving(loan) ? `Cobrança de juros #${installment.number}` : `Parcela ${installment.number} de ${loan.installments}`;
+};
+
+// Installments marked as paid before the payment ledger existed have no entries: the receipt shows one
+// payment of the full value on the due date
+const getReceiptPayments = (installment: Installment): PaymentEntry[] => {
+  const payments = installment.payments || [];
+  if (payments.length === 0 && installment.isPaid) {
+    return [{ id: `${installment.number}`, amount: installment.value, date: installment.dueDate, method: 'Outro' }];
+  }
+  return payments;
+};
+
+// Receipt ("comprovante") for one payment, or for everything paid on the installment when paymentId is omitted
+export const buildReceipt = (loan: Client, installment: Installment, senderName: string, borrower?: Borrower, paymentId?: string): LoanDocument => {
+  const payments = getReceiptPayments(installment).filter(p => !paymentId || p.id === paymentId);
+  const received = roundCents(payments.reduce((sum, p) => sum + p.amount, 0));
+  const lastDate = payments.reduce((latest, p) => p.date > latest ? p.date : latest, '');
+  const name = borrower?.name || loan.name;
+  const remaining = getInstallmentRemaining(installment);
+  const loanBalance = getLoanOutstanding(loan);
+
+  const rows: PdfRow[] = [
+    ...titleRows('Recibo de Pagamento', senderName),
+    ...borrowerRows(name, borrower, loan.phone),
+    { cells: [cell('Empréstimo', 0), cell(loanDescription(loan), 90)] },
+    { cells: [cell('Referente a', 0), cell(`${installmentLabel(loan, installment)} · vencimento ${formatDate(installment.dueDate)} · ${formatCurrency(installment.value)}`, 90)], rule: true },
+    { cells: [cell('Data'), cell('Forma', 90), cell('Encargos', 330, 'right'), cell('Valor', CONTENT_WIDTH, 'right')], spaceBefore: 8, bold: true, size: 9 },
+    ...payments.map((p): PdfRow => ({
+      cells: [cell(formatDate(p.date)), cell(p.note ? `${p.method} · ${p.note}` : p.method, 90), cell(p.lateFee ? formatCurrency(p.lateFee) : '-', 330, 'right'), cell(formatCurrency(p.amount), CONTENT_WIDTH, 'right')]
+    })),
+    { cells: [cell('Valor recebido'), cell(formatCurrency(received), CONTENT_WIDTH, 'right')], bold: true, size: 12, spaceBefore: 8 },
+    { cells: [cell('Total pago na parcela'), cell(formatCurrency(getInstallmentPaidAmount(installment)), CONTENT_WIDTH, 'right')] },
+    { cells: [cell('Saldo da parcela'), cell(remaining > 0 ? formatCurrency(remaining) : 'Quitada', CONTENT_WIDTH, 'right')] },
+    { cells: [cell('Saldo devedor do contrato'), cell(formatCurrency(loanBalance), CONTENT_WIDTH, 'right')], rule: true },
+    ...wrapText(`Declaro ter recebido de ${name} a quantia de ${formatCurrency(received)}, referente à ${installmentLabel(loan, installment).toLowerCase()} do contrato ${loan.id}, dando quitação do valor recebido.`, 10)
+      .map((line, i): PdfRow => ({ cells: [cell(line)], spaceBefore: i === 0 ? 12 : 0 })),
+    { cells: [cell('_______________________________________')], spaceBefore: 36 },
+    { cells: [cell(senderName)], gray: true }
+  ];
+
+  const message = `Olá ${name}! Confirmamos o recebimento de *${formatCurrency(received)}*${lastDate ? ` em ${formatDate(lastDate)}` : ''}, referente à ${installmentLabel(loan, installment).toLowerCase()}. `
+    + (remaining > 0 ? `Saldo restante da parcela: *${formatCurrency(remaining)}*. ` : '')
+    + `Saldo do contrato: *${formatCurrency(loanBalance)}*. Segue o comprovante. Obrigado!`;
+
+  const title = `Recibo ${name} - ${installmentLabel(loan, installment)}`;
+  return {
+    title,
+    fileName: `recibo-${fileSlug(name)}-${loan.id}-${installment.number}.pdf`,
+    pdf: buildPdf(rows, title, `Recibo · contrato ${loan.id}`, senderName),
+    message
+  };
+};
+
+const getInstallmentSituation = (installment: Installment): string => {
+  if (installment.isRenegotiated) return 'Renegociada';
+  if (installment.isPaid) return 'Paga';
+  const overdue = installment.dueDate < toISODate(new Date());
+  if (getInstallmentPaymentStatus(installment) === 'Partial') return overdue ? 'Vencida (parcial)' : 'Parcial';
+  return overdue ? 'Vencida' : 'Aberta';
+};
+
+// Statement ("extrato") of every loan of a borrower: totals, then each loan with its installments and payments
+export const buildStatement = (name: string, loans: Client[], lateFeeSettings: LateFeeSettings, senderName: string, borrower?: Borrower): LoanDocument => {
+  const sorted = [...loans].sort((a, b) => a.startDate.localeCompare(b.startDate));
+  const outstanding = roundCents(sorted.reduce((sum, l) => sum + getLoanOutstanding(l), 0));
+  const lateFees = roundCents(sorted.reduce((sum, l) => sum + (l.status === 'Renegotiated' ? 0 : getClientLateFeesAccrued(l, lateFeeSettings)), 0));
+
+  const rows: PdfRow[] = [
+    ...titleRows('Extrato do Cliente', senderName),
+    ...borrowerRows(name, borrower, sorted[0]?.phone),
+    { cells: [cell('Total emprestado'), cell(formatCurrency(sorted.reduce((sum, l) => sum + getLoanInvested(l), 0)), CONTENT_WIDTH, 'right')], spaceBefore: 8 },
+    { cells: [cell('Total pago'), cell(formatCurrency(sorted.reduce((sum, l) => sum + getLoanReceived(l), 0)), CONTENT_WIDTH, 'right')] },
+    { cells: [cell('Saldo em aberto'), cell(formatCurrency(outstanding), CONTENT_WIDTH, 'right')], bold: true },
+    ...(lateFees > 0 ? [{ cells: [cell('Encargos de atraso'), cell(formatCurrency(lateFees), CONTENT_WIDTH, 'right')] }] : []),
+    { cells: [], rule: true }
+  ];
+
+  sorted.forEach(loan => {
+    rows.push({ cells: [cell(loanDescription(loan)), cell(LOAN_STATUS_LABELS[loan.status], CONTENT_WIDTH, 'right')], bold: true, spaceBefore: 14 });
+    if (isRevolving(loan)) {
+      (loan.principalPayments || []).forEach(p => rows.push({
+        cells: [cell(`Amortização do principal em ${formatDate(p.date)} (${p.method})`), cell(formatCurrency(p.amount), CONTENT_WIDTH, 'right')], size: 9
+      }));
+    }
+    rows.push({ cells: [cell('Parcela'), cell('Vencimento', 50), cell('Valor', 210, 'right'), cell('Pago', 290, 'right'), cell('Pagamento', 310), cell('Situação', 400)], size: 8, gray: true, rule: true });
+    loan.installmentsList.forEach(inst => {
+      const payments = getReceiptPayments(inst);
+      const lastDate = payments.reduce((latest, p) => p.date > latest ? p.date : latest, '');
+      rows.push({
+        cells: [
+          cell(`#${inst.number}`), cell(formatDate(inst.dueDate), 50),
+          cell(formatCurrency(inst.value), 210, 'right'),
+          cell(formatCurrency(getInstallmentPaidAmount(inst)), 290, 'right'),
+          cell(lastDate ? formatDate(lastDate) : '-', 310),
+          cell(getInstallmentSituation(inst), 400)
+        ],
+        size: 9
+      });
+    });
+    rows.push({ cells: [cell('Saldo do contrato'), cell(formatCurrency(getLoanOutstanding(loan)), CONTENT_WIDTH, 'right')], size: 9, bold: true, spaceBefore: 2 });
+  });
+
+  const message = `Olá ${name}! Segue o extrato dos seus empréstimos. Saldo em aberto: *${formatCurrency(outstanding)}*`
+    + (lateFees > 0 ? ` + *${formatCurrency(lateFees)}* de encargos de atraso.` : '.');
+
+  const title = `Extrato ${name}`;
+  return {
+    title,
+    fileName: `extrato-${fileSlug(name)}-${toISODate(new Date())}.pdf`,
+    pdf: buildPdf(rows, title, `Extrato · ${name}`, senderName),
+    message
+  };
+};
+
+// Sends the PDF itself through the system share sheet (WhatsApp included) where the browser supports
+// sharing files; returns false when it does not, so the caller can fall back to the wa.me link
+export const shareDocument = async (doc: LoanDocument): Promise<boolean> => {
+  const file = new File([doc.pdf], doc.fileName, { type: 'application/pdf' });
+  if (!navigator.canShare || !navigator.canShare({ files: [file] })) return false;
+  try {
+    await navigator.share({ files: [file], title: doc.title, text: doc.message });
+  } catch (error) {
+    // Closing the share sheet rejects with AbortError, nothing to fall back to
+    if ((error as Error).name !== 'AbortError') throw error;
+  }
+  return true;
+};
@@ -0,0 +1,271 @@
+import { Client, Installment, LateFeeSettings, PaymentEntry } from '../types';
+import { getDaysUntilDue, hashString, parseISODate, roundCents } from '../constants';
+import { allocatePayment, getInstallmentRemaining } from './paymentService';
+import { calculateLateFee } from './lateFeeService';
+import { getInstallmentTxid } from './pixService';
+import { ImportFile, ImportIssue } from './backupService';
+import { normalizeHeader, parseCsv, parseCsvDate, parseCsvNumber } from './csvService';
+
+// Bank statement import: credits from an OFX or CSV statement are matched to open installments by
+// PIX txid, amount, date and payer name, reviewed by the user and recorded as payments.
+
+export interface BankTransaction {
+  id: string; // FITID from OFX, or a hash of the line so re-importing the same statement is recognized
+  date: string; // YYYY-MM-DD
+  amount: number; // Credits only, positive
+  payerName: string; // Name column, or the description when the bank has none
+  description: string;
+  file: string;
+}
+
+export interface StatementParseResult {
+  transactions: BankTransaction[];
+  debits: number; // Outgoing entries, ignored
+  issues: ImportIssue[];
+}
+
+export type MatchConfidence = 'high' | 'medium';
+
+export interface MatchCandidate {
+  clientId: string;
+  installmentNumber: number;
+  name: string;
+  dueDate: string;
+  amountDue: number; // Open balance plus late charges
+  score: number;
+  reasons: string[];
+}
+
+export interface ReconciliationItem {
+  transaction: BankTransaction;
+  candidates: MatchCandidate[]; // Every open installment, best first
+  suggested?: MatchCandidate; // Chosen automatically, each installment at most once
+  confidence?: MatchConfidence;
+  alreadyRecorded: boolean; // A payment already carries this transaction id
+}
+
+// One confirmed match, recorded like a payment typed in the ledger
+export interface ReconciledPayment {
+  clientId: string;
+  installmentNumber: number;
+  payment: Omit<PaymentEntry, 'id'>;
+}
+
+// Credits up to this many days before / after the due date can pay the installment
+const DAYS_BEFORE_DUE = 10;
+const DAYS_AFTER_DUE = 60;
+const MIN_SCORE = 60;
+const HIGH_SCORE = 90;
+
+// Words that do not tell two people apart
+const NAME_STOPWORDS = new Set(['de', 'da', 'do', 'dos', 'das', 'e', 'pix', 'ted', 'doc', 'recebido', 'recebida', 'transferencia', 'credito', 'pagamento']);
+
+type StatementColumn = 'date' | 'amount' | 'credit' | 'debit' | 'description' | 'payer' | 'id';
+
+// Column names used by Brazilian banks' CSV exports, normalized with normalizeHeader
+const CSV_ALIASES: Record<string, StatementColumn> = {
+  data: 'date', date: 'date', data_lancamento: 'date', data_movimento: 'date', data_do_lancamento: 'date', data_transacao: 'date',
+  valor: 'amount', valor_r: 'amount', amount: 'amount', quantia: 'amount',
+  credito: 'credit', entrada: 'credit', entradas: 'credit', valor_credito: 'credit',
+  debito: 'debit', saida: 'debit', saidas: 'debit', valor_debito: 'debit',
+  descricao: 'description', historico: 'description', lancamento: 'description', detalhes: 'description', memo: 'description', description: 'description',
+  nome: 'payer', pagador: 'payer', remetente: 'payer', origem: 'payer', contraparte: 'payer', favorecido: 'payer', nome_pagador: 'payer',
+  id: 'id', identificador: 'id', fitid: 'id', documento: 'id', codigo: 'id', id_transacao: 'id'
+};
+
+// Same line, same id: the file name is left out so a statement downloaded twice is still recognized
+const lineId = (parts: string[], seen: Map<string, number>): string => {
+  const key = hashString(parts.join('|'));
+  const count = seen.get(key) || 0;
+  seen.set(key, count + 1);
+  return count === 0 ? `h-${key}` : `h-${key}-${count}`;
+};
+
+// OFX 1.x (SGML, tags not always closed) and 2.x (XML)
+const parseOfx = (file: ImportFile, result: StatementParseResult) => {
+  const blocks = file.text.split(/<STMTTRN>/i).slice(1).map(block => block.split(/<\/STMTTRN>|<\/BANKTRANLIST>/i)[0]);
+  if (blocks.length === 0) {
+    result.issues.push({ file: file.name, row: 0, message: 'Nenhuma transação encontrada no OFX' });
+    return;
+  }
+  const seen = new Map<string, number>();
+  blocks.forEach((block, index) => {
+    const tag = (name: string) => (block.match(new RegExp(`<${name}>([^<\\r\\n]*)`, 'i'))?.[1] || '').trim();
+    const posted = tag('DTPOSTED').match(/^(\d{4})(\d{2})(\d{2})/);
+    // OFX amounts always use a dot as the decimal separator
+    const amountText = tag('TRNAMT');
+    const amount = amountText ? Number(amountText) : NaN;
+    if (!posted || isNaN(amount)) {
+      result.issues.push({ file: file.name, row: index + 1, message: 'Transação sem data ou valor' });
+      return;
+    }
+    if (amount <= 0) {
+      result.debits++;
+      return;
+    }
+    const date = `${posted[1]}-${posted[2]}-${posted[3]}`;
+    const name = tag('NAME') || tag('PAYEE');
+    const description = [name, tag('MEMO')].filter(Boolean).join(' - ');
+    result.transactions.push({
+      id: tag('FITID') || lineId([date, String(amount), description], seen),
+      date,
+      amount: roundCents(amount),
+      payerName: name || description,
+      description,
+      file: file.name
+    });
+  });
+};
+
+const parseStatementCsv = (file: ImportFile, result: StatementParseResult) => {
+  const [header, ...rows] = parseCsv(file.text);
+  const columns = (header || []).map(h => CSV_ALIASES[normalizeHeader(h)]);
+  if (!columns.includes('date') || !(columns.includes('amount') || columns.includes('credit'))) {
+    result.issues.push({ file: file.name, row: 0, message: 'Colunas obrigatórias: data e valor (ou crédito)' });
+    return;
+  }
+  const seen = new Map<string, number>();
+  rows.forEach((row, index) => {
+    const value = (column: StatementColumn) => {
+      const i = columns.indexOf(column);
+      return i >= 0 ? (row[i] || '').trim() : '';
+    };
+    const date = parseCsvDate(value('date'));
+    const credit = parseCsvNumber(value('credit'));
+    const debit = parseCsvNumber(value('debit'));
+    // Separate credit/debit columns, or one signed amount ("-50,00" or "50,00 D")
+    const signed = value('amount');
+    const amount = !isNaN(credit) && credit !== 0
+      ? Math.abs(credit)
+      : !isNaN(debit) && debit !== 0 ? -Math.abs(debit) : parseCsvNumber(signed.replace(/\s*[CD]$/i, '')) * (/D$/i.test(signed) ? -1 : 1);
+    if (!date || isNaN(amount)) {
+      result.issues.push({ file: file.name, row: index + 2, message: 'Linha sem data ou valor válido' });
+      return;
+    }
+    if (amount <= 0) {
+      result.debits++;
+      return;
+    }
+    const description = value('description');
+    const payer = value('payer');
+    result.transactions.push({
+      id: value('id') || lineId([date, String(amount), description, payer], seen),
+      date,
+      amount: roundCents(amount),
+      payerName: payer || description,
+      description: [payer, description].filter(Boolean).join(' - '),
+      file: file.name
+    });
+  });
+};
+
+export const parseStatementFiles = (files: ImportFile[]): StatementParseResult => {
+  const result: StatementParseResult = { transactions: [], debits: 0, issues: [] };
+  files.forEach(file => {
+    if (/<OFX>|OFXHEADER/i.test(file.text)) parseOfx(file, result);
+    else parseStatementCsv(file, result);
+  });
+  // The same credit in two overlapping statements counts once
+  const ids = new Set<string>();
+  result.transactions = result.transactions.filter(t => !ids.has(t.id) && !!ids.add(t.id));
+  return result;
+};
+
+const nameTokens = (name: string): string[] => name
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  .toLowerCase()
+  .split(/[^a-z]+/)
+  .filter(token => token.length > 1 && !NAME_STOPWORDS.has(token));
+
+// 40 when first and last names appear in the payer name, 20 when any other name does
+const scoreName = (payer: string, borrower: string): number => {
+  const payerTokens = new Set(nameTokens(payer));
+  const tokens = nameTokens(borrower);
+  if (tokens.length === 0) return 0;
+  const first = payerTokens.has(tokens[0]);
+  const last = tokens.length > 1 && payerTokens.has(tokens[tokens.length - 1]);
+  if (first && (last || tokens.length === 1)) return 40;
+  return tokens.some(t => payerTokens.has(t)) ? 20 : 0;
+};
+
+const scoreCandidate = (transaction: BankTransaction, loan: Client, inst: Installment, lateFeeSettings: LateFeeSettings): MatchCandidate => {
+  // Late charges as of the transaction date, the amount buildReconciledPayment records against
+  const paidOn = parseISODate(transaction.date);
+  const remaining = getInstallmentRemaining(inst);
+  const lateFee = calculateLateFee(inst, lateFeeSettings, paidOn).total;
+  const reasons: string[] = [];
+  let score = 0;
+
+  // PIX codes generated by the app carry the installment txid, which some banks show in the statement
+  const text = `${transaction.description} ${transaction.payerName}`.toUpperCase().replace(/[^A-Z0-9]/g, ' ');
+  if (text.split(/\s+/).includes(getInstallmentTxid(loan, inst).toUpperCase())) {
+    score += 100;
+    reasons.push('txid PIX');
+  }
+
+  if (Math.abs(transaction.amount - remaining) < 0.01 || (lateFee > 0 && Math.abs(transaction.amount - (remaining + lateFee)) < 0.01)) {
+    score += 40;
+    reasons.push('valor');
+  }
+
+  // Negative = paid before the due date
+  const daysLate = -getDaysUntilDue(inst.dueDate, paidOn);
+  if (daysLate >= -DAYS_BEFORE_DUE && daysLate <= DAYS_AFTER_DUE) {
+    score += Math.abs(daysLate) <= 3 ? 20 : Math.abs(daysLate) <= 15 ? 10 : 5;
+    reasons.push('data');
+  }
+
+  const nameScore = scoreName(transaction.payerName || transaction.description, loan.name);
+  if (nameScore > 0) {
+    score += nameScore;
+    reasons.push('nome');
+  }
+
+  return { clientId: loan.id, installmentNumber: inst.number, name: loan.name, dueDate: inst.dueDate, amountDue: roundCents(remaining + lateFee), score, reasons };
+};
+
+// Candidates for every credit, then the best pairs are suggested greedily so no installment is used twice
+export const matchTransactions = (transactions: BankTransaction[], clients: Client[], lateFeeSettings: LateFeeSettings): ReconciliationItem[] => {
+  const recorded = new Set(clients.flatMap(c => c.installmentsList.flatMap(i => (i.payments || []).map(p => p.bankRef).filter(Boolean))));
+  const open = clients
+    .filter(c => !c.isDeleted)
+    .flatMap(loan => loan.installmentsList.filter(i => !i.isPaid && !i.isRenegotiated).map(inst => ({ loan, inst })));
+
+  const items: ReconciliationItem[] = transactions.map(transaction => {
+    const alreadyRecorded = recorded.has(transaction.id);
+    const candidates = alreadyRecorded ? [] : open
+      .map(({ loan, inst }) => scoreCandidate(transaction, loan, inst, lateFeeSettings))
+      .sort((a, b) => b.score - a.score || a.dueDate.localeCompare(b.dueDate));
+    return { transaction, candidates, alreadyRecorded };
+  });
+
+  const pairs = items.flatMap((item, index) => item.candidates.filter(c => c.score >= MIN_SCORE).map(candidate => ({ index, candidate })));
+  pairs.sort((a, b) => b.candidate.score - a.candidate.score || a.candidate.dueDate.localeCompare(b.candidate.dueDate));
+  const usedInstallments = new Set<string>();
+  pairs.forEach(({ index, candidate }) => {
+    const key = `${candidate.clientId}#${candidate.installmentNumber}`;
+    if (items[index].suggested || usedInstallments.has(key)) return;
+    usedInstallments.add(key);
+    items[index].suggested = candidate;
+    items[index].confidence = candidate.score >= HIGH_SCORE ? 'high' : 'medium';
+  });
+
+  return items;
+};
+
+// The payment recorded for a confirmed credit; outstanding late charges are settled first, as in the ledger
+export const buildReconciledPayment = (transaction: BankTransaction, loan: Client, inst: Installment, lateFeeSettings: LateFeeSettings): ReconciledPayment => {
+  const allocation = allocatePayment(transaction.amount, calculateLateFee(inst, lateFeeSettings, parseISODate(transaction.date)).total);
+  return {
+    clientId: loan.id,
+    installmentNumber: inst.number,
+    payment: {
+      amount: transaction.amount,
+      date: transaction.date,
+      method: /\bPIX\b/i.test(transaction.description) ? 'Pix' : 'Transferência',
+      lateFee: allocation.lateFee,
+      note: `Extrato: ${transaction.payerName}`.slice(0, 120),
+      bankRef: transaction.id
+    }
+  };
+};
@@ -0,0 +1,85 @@
+import { CollectionName, RecordFilter, StorageAdapter, StoredRecord, createListeners, matchesFilter } from './storageAdapter';
+
+export interface RestConfig {
+  baseUrl: string; // e.g. https://meuservidor.com/api
+  token?: string; // Sent as "Authorization: Bearer <token>"
+  pollSeconds?: number; // How often subscribers check for changes made elsewhere
+}
+
+const DEFAULT_POLL_SECONDS = 15;
+
+// Minimal self-hosted JSON backend:
+//   GET    {baseUrl}/{collection}         -> record array
+//   PUT    {baseUrl}/{collection}/{id}    <- record
+//   POST   {baseUrl}/{collection}/batch   <- record array (upsert)
+//   DELETE {baseUrl}/{collection}/{id}
+// There is no change feed, subscribers poll and are only notified when the payload changes.
+export const createRestAdapter = (config: RestConfig): StorageAdapter => {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+  const listeners = createListeners();
+
+  const request = async (path: string, init: RequestInit = {}): Promise<Response> => {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (config.token) headers.Authorization = `Bearer ${config.token}`;
+
+    const response = await fetch(`${baseUrl}/${path}`, { ...init, headers });
+    if (!response.ok) throw new Error(`${init.method || 'GET'} ${path} failed: ${response.status}`);
+    return response;
+  };
+
+  const load = async <T extends StoredRecord>(collection: CollectionName): Promise<T[]> => {
+    const response = await request(collection);
+    const data = await response.json();
+    return Array.isArray(data) ? data : [];
+  };
+
+  const write = async (collection: CollectionName, path: string, init: RequestInit) => {
+    await request(path, init);
+    listeners.notify(collection);
+  };
+
+  return {
+    load,
+
+    subscribe: <T extends StoredRecord>(collection: CollectionName, onUpdate: (records: T[]) => void, onError?: (error: unknown) => void, filter?: RecordFilter) => {
+      let lastPayload = '';
+      let active = true;
+
+      const poll = async () => {
+        try {
+          const records = (await load<T>(collection)).filter(r => matchesFilter(r, filter));
+          const payload = JSON.stringify(records);
+          if (active && payload !== lastPayload) {
+            lastPayload = payload;
+            onUpdate(records);
+          }
+        } catch (error) {
+          if (onError) onError(error);
+          else console.error(`REST ${collection} sync error:`, error);
+        }
+      };
+
+      const timer = window.setInterval(poll, (config.pollSeconds || DEFAULT_POLL_SECONDS) * 1000);
+      const unsubscribe = listeners.add(collection, poll);
+      poll();
+
+      return () => {
+        active = false;
+        window.clearInterval(timer);
+        unsubscribe();
+      };
+    },
+
+    save: (collection, record) => write(collection, `${collection}/${encodeURIComponent(record.id)}`, {
+      method: 'PUT',
+      body: JSON.stringify(record)
+    }),
+
+    saveBatch: (collection, records) => write(collection, `${collection}/batch`, {
+      method: 'POST',
+      body: JSON.stringify(records)
+    }),
+
+    remove: (collection, id) => write(collection, `${collection}/${encodeURIComponent(id)}`, { method: 'DELETE' })
+  };
+};
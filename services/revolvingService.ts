@@ -0,0 +1,92 @@
+import { Client, Installment, PaymentEntry } from '../types';
+import { generateId, parseISODate, roundCents, stableStringify, toISODate } from '../constants';
+import { generateDueDates, getLoanPeriodDays } from './scheduleService';
+
+// Safety limit on generated charges (a daily revolving loan over ~3 years)
+const MAX_CHARGES = 1000;
+
+export const isRevolving = (loan: Client): boolean => loan.loanType === 'revolving';
+
+// Principal still owed, optionally as of a given date (paydowns after it are ignored)
+export const getOutstandingPrincipal = (loan: Client, asOf?: string): number => {
+  const repaid = (loan.principalPayments || [])
+    .filter(p => !asOf || p.date <= asOf)
+    .reduce((sum, p) => sum + p.amount, 0);
+  return Math.max(0, roundCents(loan.principal - repaid));
+};
+
+export const getPrincipalRepaid = (loan: Client): number => {
+  return roundCents((loan.principalPayments || []).reduce((sum, p) => sum + p.amount, 0));
+};
+
+// A charge is settled history once money was received or its due date passed;
+// only upcoming untouched charges are recalculated
+const isLockedCharge = (charge: Installment, today: string): boolean => {
+  return charge.isPaid || (charge.payments || []).length > 0 || charge.dueDate < today;
+};
+
+// Bring the interest charges of a revolving loan up to date: every period up to and including the
+// next upcoming one gets a charge of (outstanding principal x periodRate). Upcoming charges follow
+// the current balance, so a principal paydown lowers the next charge. Returns the same object
+// when nothing changed so callers can skip saving.
+export const syncRevolvingCharges = (loan: Client, today: string = toISODate(new Date())): Client => {
+  if (!isRevolving(loan) || loan.status === 'Renegotiated') return loan;
+
+  const rate = (loan.periodRate || 0) / 100;
+  const existing = new Map(loan.installmentsList.map(inst => [inst.number, inst]));
+
+  // Enough due dates to reach today plus the next period
+  const elapsedDays = (parseISODate(today).getTime() - parseISODate(loan.startDate).getTime()) / (1000 * 60 * 60 * 24);
+  const count = Math.min(MAX_CHARGES, Math.max(1, Math.ceil(elapsedDays / getLoanPeriodDays(loan)) + 2));
+  const dueDates = generateDueDates(loan.startDate, count, loan.frequency, loan.frequencyDays);
+
+  const charges: Installment[] = [];
+  for (let i = 0; i < dueDates.length; i++) {
+    const number = i + 1;
+    const dueDate = dueDates[i];
+    const current = existing.get(number);
+
+    if (current && isLockedCharge(current, today)) {
+      charges.push(current);
+    } else {
+      // Past charges use the balance on their due date, upcoming ones the balance today
+      const balance = getOutstandingPrincipal(loan, dueDate < today ? dueDate : today);
+      if (balance <= 0) break;
+      const value = roundCents(balance * rate);
+      charges.push({ number, dueDate, value, isPaid: false, principalPart: 0, interestPart: value });
+    }
+
+    if (dueDate >= today) break;
+  }
+
+  // Never drop charges that already received money
+  loan.installmentsList
+    .filter(inst => inst.number > charges.length && (inst.isPaid || (inst.payments || []).length > 0))
+    .forEach(inst => charges.push(inst));
+
+  const totalInterest = charges.reduce((sum, c) => sum + c.value, 0);
+  const unchanged = stableStringify(charges) === stableStringify(loan.installmentsList);
+  if (unchanged) return loan;
+
+  return {
+    ...loan,
+    installmentsList: charges,
+    installments: charges.length,
+    interestRate: loan.principal > 0 ? (totalInterest / loan.principal) * 100 : 0,
+    lastUpdated: Date.now()
+  };
+};
+
+export const addPrincipalPayment = (loan: Client, payment: Omit<PaymentEntry, 'id'>): Client => {
+  return syncRevolvingCharges({
+    ...loan,
+    principalPayments: [...(loan.principalPayments || []), { ...payment, id: generateId(), amount: roundCents(payment.amount) }]
+  });
+};
+
+export const removePrincipalPayment = (loan: Client, paymentId: string): Client => {
+  return syncRevolvingCharges({
+    ...loan,
+    principalPayments: (loan.principalPayments || []).filter(p => p.id !== paymentId)
+  });
+};
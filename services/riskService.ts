@@ -0,0 +1,125 @@
+import { Client, LateFeeSettings } from '../types';
+import { getDaysUntilDue, parseISODate, roundCents } from '../constants';
+import { getLoanOutstanding, getLoanReceived } from './loanService';
+import { getClientLateFeesAccrued } from './lateFeeService';
+import { getBorrowerKey } from './borrowerService';
+
+// Borrower risk from the payment history across all of their loans. The score goes from 0 (no sign
+// of risk) to 100 and is the weighted sum of the factors below; the grade is what the UI shows.
+
+export type RiskGrade = 'A' | 'B' | 'C' | 'D' | 'E';
+
+export interface BorrowerRisk {
+  score: number;
+  grade: RiskGrade;
+  averageDaysLate: number; // Over installments already due, open ones counted up to today
+  latePaidPercent: number; // 0-100, installments settled (or still open) after the due date
+  renegotiations: number; // Loans closed by a renegotiation
+  exposure: number; // Open balance plus late charges
+  tenureMonths: number; // Since the first loan
+  dueInstallments: number; // Installments the history is based on, 0 = no history yet
+}
+
+export const RISK_GRADES: RiskGrade[] = ['A', 'B', 'C', 'D', 'E'];
+
+export const RISK_GRADE_LABELS: Record<RiskGrade, string> = {
+  A: 'Risco muito baixo',
+  B: 'Risco baixo',
+  C: 'Risco moderado',
+  D: 'Risco alto',
+  E: 'Risco muito alto'
+};
+
+export const RISK_GRADE_COLORS: Record<RiskGrade, string> = {
+  A: 'bg-emerald-500/20 text-emerald-400 border-emerald-500/30',
+  B: 'bg-teal-500/20 text-teal-400 border-teal-500/30',
+  C: 'bg-yellow-500/20 text-yellow-400 border-yellow-500/30',
+  D: 'bg-orange-500/20 text-orange-400 border-orange-500/30',
+  E: 'bg-red-500/20 text-red-400 border-red-500/30'
+};
+
+// Maximum points of each factor (they add up to 100)
+const WEIGHTS = { daysLate: 35, latePaid: 25, renegotiations: 15, exposure: 15, tenure: 10 };
+const DAYS_LATE_CAP = 30; // Averages above this many days score the full weight
+const RENEGOTIATIONS_CAP = 3;
+const NEW_CUSTOMER_MONTHS = 12; // Tenure stops adding risk after a year
+
+// Upper score bound of each grade
+const GRADE_LIMITS: [RiskGrade, number][] = [['A', 15], ['B', 30], ['C', 45], ['D', 60]];
+
+export const isHighRisk = (risk: BorrowerRisk): boolean => risk.grade === 'D' || risk.grade === 'E';
+
+const daysBetween = (from: string, to: string): number =>
+  Math.round((parseISODate(to).getTime() - parseISODate(from).getTime()) / (1000 * 60 * 60 * 24));
+
+// Days after the due date the installment was settled (the last payment), or has been open so far
+const getInstallmentDaysLate = (inst: Client['installmentsList'][number], today: Date): number => {
+  if (inst.isPaid) {
+    const payments = inst.payments || [];
+    if (payments.length === 0) return 0; // Legacy paid flag without a date, assumed on time
+    const settledOn = payments.reduce((latest, p) => p.date > latest ? p.date : latest, payments[0].date);
+    return Math.max(0, daysBetween(inst.dueDate, settledOn));
+  }
+  return Math.max(0, -getDaysUntilDue(inst.dueDate, today));
+};
+
+export const getBorrowerRisk = (loans: Client[], lateFeeSettings: LateFeeSettings, today: Date = new Date()): BorrowerRisk => {
+  const active = loans.filter(l => !l.isDeleted);
+
+  // Installments already due; the ones closed by a renegotiation count as renegotiations instead
+  const due = active.flatMap(l => l.installmentsList).filter(i => !i.isRenegotiated && getDaysUntilDue(i.dueDate, today) <= 0);
+  const daysLate = due.map(i => getInstallmentDaysLate(i, today));
+  const averageDaysLate = daysLate.length > 0 ? daysLate.reduce((sum, d) => sum + d, 0) / daysLate.length : 0;
+  const latePaidPercent = daysLate.length > 0 ? daysLate.filter(d => d > 0).length / daysLate.length * 100 : 0;
+
+  const renegotiations = active.filter(l => l.renegotiatedTo).length;
+  const exposure = roundCents(active.reduce((sum, l) => sum + getLoanOutstanding(l) + getClientLateFeesAccrued(l, lateFeeSettings), 0));
+  const received = active.reduce((sum, l) => sum + getLoanReceived(l), 0);
+  // Share of everything lent to them that is still owed
+  const exposureRatio = exposure > 0 ? exposure / (exposure + received) : 0;
+
+  const firstLoan = active.reduce((earliest, l) => l.startDate < earliest ? l.startDate : earliest, active[0]?.startDate || '');
+  const tenureMonths = firstLoan ? Math.max(0, Math.floor(-getDaysUntilDue(firstLoan, today) / 30)) : 0;
+
+  const score = Math.round(
+    Math.min(averageDaysLate, DAYS_LATE_CAP) / DAYS_LATE_CAP * WEIGHTS.daysLate +
+    latePaidPercent / 100 * WEIGHTS.latePaid +
+    Math.min(renegotiations, RENEGOTIATIONS_CAP) / RENEGOTIATIONS_CAP * WEIGHTS.renegotiations +
+    exposureRatio * WEIGHTS.exposure +
+    Math.max(0, 1 - tenureMonths / NEW_CUSTOMER_MONTHS) * WEIGHTS.tenure
+  );
+  const grade = GRADE_LIMITS.find(([, limit]) => score < limit)?.[0] || 'E';
+
+  return {
+    score,
+    grade,
+    averageDaysLate: Math.round(averageDaysLate * 10) / 10,
+    latePaidPercent: Math.round(latePaidPercent),
+    renegotiations,
+    exposure,
+    tenureMonths,
+    dueInstallments: due.length
+  };
+};
+
+// Risk of every borrower, by borrower key (see getBorrowerKey)
+export const getBorrowerRisks = (clients: Client[], lateFeeSettings: LateFeeSettings): Map<string, BorrowerRisk> => {
+  const loansByKey = new Map<string, Client[]>();
+  clients.filter(c => !c.isDeleted).forEach(c => {
+    const key = getBorrowerKey(c);
+    loansByKey.set(key, [...(loansByKey.get(key) || []), c]);
+  });
+  return new Map([...loansByKey].map(([key, loans]): [string, BorrowerRisk] => [key, getBorrowerRisk(loans, lateFeeSettings)]));
+};
+
+// One line explaining the grade, for tooltips and the new loan warning
+export const describeRisk = (risk: BorrowerRisk): string => {
+  if (risk.dueInstallments === 0) return `${RISK_GRADE_LABELS[risk.grade]} · sem histórico de pagamentos`;
+  return [
+    RISK_GRADE_LABELS[risk.grade],
+    `atraso médio ${risk.averageDaysLate.toLocaleString('pt-BR')} dias`,
+    `${risk.latePaidPercent}% das parcelas em atraso`,
+    `${risk.renegotiations} ${risk.renegotiations === 1 ? 'renegociação' : 'renegociações'}`,
+    `cliente há ${risk.tenureMonths} ${risk.tenureMonths === 1 ? 'mês' : 'meses'}`
+  ].join(' · ');
+};
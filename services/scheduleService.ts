@@ -0,0 +1,83 @@
+import { Client, PaymentFrequency } from '../types';
+import { parseISODate, toISODate } from '../constants';
+
+export const FREQUENCY_LABELS: Record<PaymentFrequency, string> = {
+  daily: 'Diária (seg-sáb)',
+  weekly: 'Semanal',
+  biweekly: 'Quinzenal',
+  monthly: 'Mensal',
+  custom: 'A cada N dias'
+};
+
+const DAYS_PER_MONTH = 30;
+
+// Average calendar days between installments, used to express terms and rates in months.
+// Daily loans skip Sundays, so 6 installments span 7 calendar days.
+export const getPeriodDays = (frequency: PaymentFrequency = 'monthly', customDays: number = 1): number => {
+  switch (frequency) {
+    case 'daily': return 7 / 6;
+    case 'weekly': return 7;
+    case 'biweekly': return 14;
+    case 'custom': return Math.max(1, customDays);
+    default: return DAYS_PER_MONTH;
+  }
+};
+
+export const getLoanPeriodDays = (loan: Client): number => getPeriodDays(loan.frequency, loan.frequencyDays);
+
+export const getFrequencyLabel = (loan: Client): string => {
+  if (loan.frequency === 'custom') return `A cada ${loan.frequencyDays || 1} dias`;
+  return FREQUENCY_LABELS[loan.frequency || 'monthly'];
+};
+
+// Add months keeping the day of month, clamped to the last day (Jan 31 + 1 month = Feb 28/29)
+const addMonths = (date: Date, months: number): Date => {
+  const result = new Date(date.getFullYear(), date.getMonth() + months, 1);
+  const lastDay = new Date(result.getFullYear(), result.getMonth() + 1, 0).getDate();
+  result.setDate(Math.min(date.getDate(), lastDay));
+  return result;
+};
+
+const addDays = (date: Date, days: number): Date => {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+};
+
+// Due dates for a schedule; the first installment is due one period after the start date
+export const generateDueDates = (startDate: string, count: number, frequency: PaymentFrequency = 'monthly', customDays: number = 1): string[] => {
+  const start = parseISODate(startDate);
+  const dates: string[] = [];
+
+  if (frequency === 'daily') {
+    let current = start;
+    while (dates.length < count) {
+      current = addDays(current, 1);
+      if (current.getDay() !== 0) dates.push(toISODate(current)); // Sundays are skipped
+    }
+    return dates;
+  }
+
+  for (let i = 1; i <= count; i++) {
+    const due = frequency === 'monthly'
+      ? addMonths(start, i)
+      : addDays(start, i * getPeriodDays(frequency, customDays));
+    dates.push(toISODate(due));
+  }
+  return dates;
+};
+
+// Loan term expressed in months
+export const getTermInMonths = (installments: number, frequency: PaymentFrequency = 'monthly', customDays: number = 1): number => {
+  return (installments * getPeriodDays(frequency, customDays)) / DAYS_PER_MONTH;
+};
+
+// Simple (non-compounded) monthly rate equivalent to the total rate, so loans of any frequency compare
+export const getEquivalentMonthlyRate = (totalRate: number, installments: number, frequency: PaymentFrequency = 'monthly', customDays: number = 1): number => {
+  const months = getTermInMonths(installments, frequency, customDays);
+  return months > 0 ? totalRate / months : 0;
+};
+
+// How many days ahead an installment counts as "due soon". Daily loans are due every day,
+// so only today's installment is flagged, otherwise every open daily loan would be a warning.
+export const getDueSoonDays = (frequency: PaymentFrequency | undefined, defaultDays: number): number => {
+  return frequency === 'daily' ? 0 : defaultDays;
+};
@@ -0,0 +1,56 @@
+// Collections persisted by the app, one record per document keyed by id
+export type CollectionName = 'clients' | 'borrowers' | 'auditLog' | 'settings' | 'contacts';
+
+export interface StoredRecord {
+  id: string;
+}
+
+export type Unsubscribe = () => void;
+
+// Only records whose field equals the value (Firestore needs it as a query to allow restricted reads)
+export interface RecordFilter {
+  field: string;
+  value: string;
+}
+
+export const matchesFilter = (record: StoredRecord, filter?: RecordFilter): boolean => {
+  return !filter || (record as unknown as Record<string, unknown>)[filter.field] === filter.value;
+};
+
+// Common surface of every persistence backend (localStorage, IndexedDB, Firestore, REST).
+// subscribe delivers the full collection (or the filtered part) on every change, starting with the current contents.
+export interface StorageAdapter {
+  load: <T extends StoredRecord>(collection: CollectionName) => Promise<T[]>;
+  subscribe: <T extends StoredRecord>(collection: CollectionName, onUpdate: (records: T[]) => void, onError?: (error: unknown) => void, filter?: RecordFilter) => Unsubscribe;
+  save: <T extends StoredRecord>(collection: CollectionName, record: T) => Promise<void>;
+  saveBatch: <T extends StoredRecord>(collection: CollectionName, records: T[]) => Promise<void>;
+  remove: (collection: CollectionName, id: string) => Promise<void>;
+}
+
+// Write only what changed between two snapshots of a collection: records whose object identity
+// changed (state updates are immutable) are saved, records that disappeared are removed
+export const persistChanges = async <T extends StoredRecord>(adapter: StorageAdapter, collection: CollectionName, previous: T[], next: T[]): Promise<void> => {
+  const previousById = new Map(previous.map(r => [r.id, r]));
+  const nextIds = new Set(next.map(r => r.id));
+
+  const changed = next.filter(r => previousById.get(r.id) !== r);
+  const removed = previous.filter(r => !nextIds.has(r.id));
+
+  if (changed.length > 0) await adapter.saveBatch(collection, changed);
+  await Promise.all(removed.map(r => adapter.remove(collection, r.id)));
+};
+
+// Listener registry for adapters without native change feeds
+export const createListeners = () => {
+  const listeners = new Map<CollectionName, Set<() => void>>();
+  return {
+    add: (collection: CollectionName, listener: () => void): Unsubscribe => {
+      if (!listeners.has(collection)) listeners.set(collection, new Set());
+      listeners.get(collection)!.add(listener);
+      return () => { listeners.get(collection)?.delete(listener); };
+    },
+    notify: (collection: CollectionName) => {
+      listeners.get(collection)?.forEach(listener => listener());
+    }
+  };
+};
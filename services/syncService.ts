@@ -0,0 +1,207 @@
+import { Borrower, Client, Installment, PaymentEntry, SyncConflict } from '../types';
+import { stableStringify } from '../constants';
+import { withDerivedPaidFlag } from './paymentService';
+import { getSettledStatus } from './loanService';
+import { getFieldLabel } from './auditService';
+
+type SyncRecord = { id: string, lastUpdated?: number, purged?: boolean };
+type SyncCollection = SyncConflict['collection'];
+
+export interface MergeResult<T> {
+  merged: T[];
+  toPush: T[]; // Merged records the cloud does not have yet
+  conflicts: SyncConflict[];
+}
+
+// Bookkeeping or derived fields, never reported as conflicts
+const SILENT_FIELDS = new Set(['id', 'lastUpdated', 'status', 'installments']);
+
+// Merged separately, entry by entry
+const LIST_FIELDS = new Set(['installmentsList', 'payments', 'principalPayments']);
+
+const same = (a: unknown, b: unknown) => stableStringify(a) === stableStringify(b);
+
+interface FieldMergeContext {
+  conflicts: Omit<SyncConflict, 'id' | 'collection' | 'recordId' | 'recordName'>[];
+  localWins: boolean; // Side taken when both changed the same field (newest lastUpdated)
+}
+
+// Three-way merge of plain fields. Without a base (an installment added on one side) a difference
+// cannot be attributed to either side, so the newer record wins without raising a conflict.
+const mergeFields = <T extends object>(local: T, remote: T, base: T | undefined, ctx: FieldMergeContext, pathPrefix: string = ''): T => {
+  const localFields = local as Record<string, unknown>;
+  const remoteFields = remote as Record<string, unknown>;
+  const baseFields = base as Record<string, unknown> | undefined;
+  const result: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(local), ...Object.keys(remote)]);
+
+  keys.forEach(key => {
+    if (LIST_FIELDS.has(key)) return;
+    const lv = localFields[key];
+    const rv = remoteFields[key];
+    const bv = baseFields ? baseFields[key] : undefined;
+
+    let value: unknown;
+    if (same(lv, rv)) value = lv;
+    else if (base && same(lv, bv)) value = rv;
+    else if (base && same(rv, bv)) value = lv;
+    else {
+      value = ctx.localWins ? lv : rv;
+      if (base && !SILENT_FIELDS.has(key)) {
+        ctx.conflicts.push({ path: pathPrefix + key, label: getFieldLabel(pathPrefix + key), localValue: lv, remoteValue: rv });
+      }
+    }
+    if (value !== undefined) result[key] = value;
+  });
+
+  return result as T;
+};
+
+// Ledger entries merge as sets: additions from both sides are kept, an entry is dropped when
+// either side removed it since the last sync
+const mergeEntries = (local: PaymentEntry[] = [], remote: PaymentEntry[] = [], base?: PaymentEntry[]): PaymentEntry[] => {
+  const baseIds = new Set((base || []).map(p => p.id));
+  const localIds = new Set(local.map(p => p.id));
+  const remoteIds = new Set(remote.map(p => p.id));
+
+  const merged = [...remote];
+  local.forEach(p => { if (!remoteIds.has(p.id)) merged.push(p); });
+
+  return merged.filter(p => !baseIds.has(p.id) || (localIds.has(p.id) && remoteIds.has(p.id)));
+};
+
+const mergeInstallments = (local: Installment[], remote: Installment[], base: Installment[] | undefined, ctx: FieldMergeContext): Installment[] => {
+  const byNumber = (list: Installment[] = []) => new Map(list.map(i => [i.number, i]));
+  const localMap = byNumber(local);
+  const remoteMap = byNumber(remote);
+  const baseMap = byNumber(base);
+
+  const numbers = [...new Set([...localMap.keys(), ...remoteMap.keys()])].sort((a, b) => a - b);
+  return numbers.map(number => {
+    const l = localMap.get(number);
+    const r = remoteMap.get(number);
+    if (!l || !r) return (l || r)!;
+
+    const b = baseMap.get(number);
+    const payments = mergeEntries(l.payments, r.payments, b?.payments);
+    const merged: Installment = { ...mergeFields(l, r, b, ctx, `installmentsList.${number}.`), payments };
+    if (payments.length === 0) return merged;
+
+    // With a ledger the paid flag follows the payments, a disagreement on it is not a conflict
+    ctx.conflicts = ctx.conflicts.filter(c => c.path !== `installmentsList.${number}.isPaid`);
+    return withDerivedPaidFlag(merged);
+  });
+};
+
+// Merge of two versions of a loan edited on both sides since the last sync
+const mergeClient = (local: Client, remote: Client, base: Client | undefined, ctx: FieldMergeContext): Client => {
+  const merged: Client = {
+    ...mergeFields(local, remote, base, ctx),
+    installmentsList: mergeInstallments(local.installmentsList, remote.installmentsList, base?.installmentsList, ctx)
+  };
+  if (local.principalPayments || remote.principalPayments) {
+    merged.principalPayments = mergeEntries(local.principalPayments, remote.principalPayments, base?.principalPayments);
+  }
+  return { ...merged, status: getSettledStatus(merged) };
+};
+
+const mergeBorrower = (local: Borrower, remote: Borrower, base: Borrower | undefined, ctx: FieldMergeContext): Borrower => {
+  return mergeFields(local, remote, base, ctx);
+};
+
+// Reconcile the local collection with a cloud snapshot.
+// `base` holds the cloud version of each record as of the previous snapshot; it tells which side
+// changed a record (per-record last-writer-wins when only one did) and which fields were edited
+// on both sides (genuine conflicts, reported for the user to resolve).
+const mergeCollection = <T extends SyncRecord>(
+  collection: SyncCollection,
+  local: T[],
+  remote: T[],
+  base: Map<string, T>,
+  mergeRecord: (local: T, remote: T, base: T | undefined, ctx: FieldMergeContext) => T,
+  getName: (record: T) => string
+): MergeResult<T> => {
+  const localMap = new Map(local.map(r => [r.id, r]));
+  const remoteIds = new Set(remote.map(r => r.id));
+  const merged: T[] = [];
+  const toPush: T[] = [];
+  const conflicts: SyncConflict[] = [];
+
+  remote.forEach(r => {
+    const l = localMap.get(r.id);
+    const b = base.get(r.id);
+
+    // A purge is final on either side: the tombstone replaces any other version
+    if (!l || same(l, r) || r.purged) {
+      merged.push(r);
+      return;
+    }
+    if (l.purged) {
+      merged.push(l);
+      toPush.push(l);
+      return;
+    }
+
+    // No base (first snapshot since the app opened): neither side can be told apart, newest record wins
+    if (!b) {
+      const localNewer = (l.lastUpdated || 0) > (r.lastUpdated || 0);
+      merged.push(localNewer ? l : r);
+      if (localNewer) toPush.push(l);
+      return;
+    }
+
+    const localChanged = !same(l, b);
+    const remoteChanged = !same(r, b);
+    if (!localChanged) {
+      merged.push(r);
+      return;
+    }
+    if (!remoteChanged) {
+      merged.push(l);
+      toPush.push(l);
+      return;
+    }
+
+    const ctx: FieldMergeContext = { conflicts: [], localWins: (l.lastUpdated || 0) >= (r.lastUpdated || 0) };
+    const record = { ...mergeRecord(l, r, b, ctx), lastUpdated: Math.max(Date.now(), l.lastUpdated || 0, r.lastUpdated || 0) };
+    merged.push(record);
+    toPush.push(record);
+    ctx.conflicts.forEach(c => conflicts.push({ ...c, id: `${collection}:${r.id}:${c.path}`, collection, recordId: r.id, recordName: getName(record) }));
+  });
+
+  // Local-only records: created offline (kept and pushed) or removed from the cloud since the last sync (dropped)
+  local.forEach(l => {
+    if (remoteIds.has(l.id) || base.has(l.id)) return;
+    merged.push(l);
+    toPush.push(l);
+  });
+
+  return { merged, toPush, conflicts };
+};
+
+export const mergeRemoteClients = (local: Client[], remote: Client[], base: Map<string, Client>): MergeResult<Client> => {
+  return mergeCollection('clients', local, remote, base, mergeClient, c => c.name);
+};
+
+export const mergeRemoteBorrowers = (local: Borrower[], remote: Borrower[], base: Map<string, Borrower>): MergeResult<Borrower> => {
+  return mergeCollection('borrowers', local, remote, base, mergeBorrower, b => b.name);
+};
+
+// Apply the value the user picked for a conflict
+export const applyConflictChoice = <T extends object>(record: T, conflict: SyncConflict, value: unknown): T => {
+  const parts = conflict.path.split('.');
+  if (parts[0] === 'installmentsList' && 'installmentsList' in record) {
+    const loan = record as unknown as Client;
+    const number = parseInt(parts[1], 10);
+    const updated: Client = {
+      ...loan,
+      installmentsList: loan.installmentsList.map(inst => inst.number === number ? { ...inst, [parts[2]]: value } : inst)
+    };
+    return { ...updated, status: getSettledStatus(updated), lastUpdated: Date.now() } as unknown as T;
+  }
+  const updated: Record<string, unknown> = { ...record, lastUpdated: Date.now() };
+  // Firestore rejects undefined fields, a missing value removes the field
+  if (value === undefined) delete updated[conflict.path];
+  else updated[conflict.path] = value;
+  return updated as T;
+};
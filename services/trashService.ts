@@ -0,0 +1,78 @@
+import { AuditEvent, Client } from '../types';
+
+// Recycle bin ("Lixeira"): deleted loans stay as soft-deleted records until restored or purged
+
+export const TRASH_RETENTION_KEY = 'settings_trashRetentionDays';
+
+// Auto-purge choices in days, 0 = keep until purged by hand
+export const TRASH_RETENTION_OPTIONS = [0, 7, 30, 60, 90];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface TrashedLoan {
+  loan: Client;
+  deletedAt: number;
+  deletedBy: string;
+}
+
+export const markLoanDeleted = (loan: Client, actor: string): Client => {
+  const now = Date.now();
+  return { ...loan, isDeleted: true, deletedAt: now, deletedBy: actor, lastUpdated: now };
+};
+
+// What remains of a purged loan: no borrower data or amounts, only what sync needs to tell the
+// other devices (and the cloud) that the id is gone for good
+export const purgeLoan = (loan: Client): Client => {
+  const tombstone: Client = {
+    id: loan.id,
+    name: '',
+    phone: '',
+    principal: 0,
+    installments: 0,
+    interestRate: 0,
+    startDate: loan.startDate,
+    status: loan.status,
+    installmentsList: [],
+    isDeleted: true,
+    purged: true,
+    lastUpdated: Date.now()
+  };
+  // Firestore rejects undefined fields; the borrower id keeps the legacy migration away from it
+  if (loan.borrowerId) tombstone.borrowerId = loan.borrowerId;
+  return tombstone;
+};
+
+export const restoreLoan = (loan: Client): Client => {
+  const { deletedAt, deletedBy, ...rest } = loan;
+  return { ...rest, isDeleted: false, lastUpdated: Date.now() };
+};
+
+// Loans deleted before the recycle bin existed (or by undoing their creation) have no deletion
+// fields; the change history tells when and by whom
+export const getDeletionInfo = (loan: Client, auditLog: AuditEvent[]): { deletedAt: number, deletedBy: string } => {
+  if (loan.deletedAt) return { deletedAt: loan.deletedAt, deletedBy: loan.deletedBy || 'Desconhecido' };
+  const event = auditLog
+    .filter(e => e.entityType === 'client' && e.entityId === loan.id && e.changes.some(c => c.path === 'isDeleted' && c.after === true))
+    .sort((a, b) => b.timestamp - a.timestamp)[0];
+  return event
+    ? { deletedAt: event.timestamp, deletedBy: event.actor }
+    : { deletedAt: loan.lastUpdated || 0, deletedBy: 'Desconhecido' };
+};
+
+// Newest deletions first
+export const getTrashedLoans = (clients: Client[], auditLog: AuditEvent[]): TrashedLoan[] => {
+  return clients
+    .filter(c => c.isDeleted && !c.purged)
+    .map(loan => ({ loan, ...getDeletionInfo(loan, auditLog) }))
+    .sort((a, b) => b.deletedAt - a.deletedAt);
+};
+
+export const getExpiredLoans = (trashed: TrashedLoan[], retentionDays: number, now: number = Date.now()): Client[] => {
+  if (retentionDays <= 0) return [];
+  return trashed.filter(t => t.deletedAt > 0 && now - t.deletedAt > retentionDays * DAY_MS).map(t => t.loan);
+};
+
+export const getDaysUntilPurge = (deletedAt: number, retentionDays: number, now: number = Date.now()): number | null => {
+  if (retentionDays <= 0 || deletedAt <= 0) return null;
+  return Math.max(0, Math.ceil((deletedAt + retentionDays * DAY_MS - now) / DAY_MS));
+};
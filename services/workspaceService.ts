@@ -0,0 +1,137 @@
+import { doc, getDoc, setDoc, deleteDoc, collection, query, where, onSnapshot, Firestore } from 'firebase/firestore';
+import { CollectorInvite, UserRole, WorkspaceMember } from '../types';
+import { AuthUser } from './authService';
+import { FirebaseConfig, getFirestoreDb } from './firestoreAdapter';
+
+// Signed-in account and the workspace whose data it works on
+export interface WorkspaceSession {
+  uid: string;
+  email: string;
+  workspaceId: string;
+  role: UserRole;
+}
+
+// Last resolved session per account, so collectors can open the app offline
+const SESSION_CACHE_KEY = 'settings_session';
+
+// Invitations this device was told to ignore, as `${uid}:${workspaceId}`
+const DECLINED_INVITES_KEY = 'settings_declinedInvites';
+
+// The signed-in account's session, and an invitation it has not answered yet
+export interface WorkspaceResolution {
+  session: WorkspaceSession;
+  invite?: CollectorInvite;
+}
+
+let db: Firestore | null = null;
+
+const inviteId = (email: string) => email.trim().toLowerCase();
+
+const readCachedSession = (uid: string): WorkspaceSession | null => {
+  try {
+    const cached: WorkspaceSession | null = JSON.parse(localStorage.getItem(SESSION_CACHE_KEY) || 'null');
+    return cached && cached.uid === uid ? cached : null;
+  } catch (e) {
+    return null;
+  }
+};
+
+const readDeclinedInvites = (): string[] => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(DECLINED_INVITES_KEY) || '[]');
+    return Array.isArray(saved) ? saved : [];
+  } catch (e) {
+    return [];
+  }
+};
+
+const ownSession = (user: AuthUser): WorkspaceSession => ({ uid: user.uid, email: user.email, workspaceId: user.uid, role: 'owner' });
+
+const cacheSession = (session: WorkspaceSession) => localStorage.setItem(SESSION_CACHE_KEY, JSON.stringify(session));
+
+// A collector already registered in the workspace that invited it works there; an invitation not
+// accepted yet is returned for the user to answer (see acceptInvite). Anyone else owns the
+// workspace named after its uid.
+export const resolveWorkspace = async (config: FirebaseConfig, user: AuthUser): Promise<WorkspaceResolution> => {
+  db = getFirestoreDb(config);
+  const own = ownSession(user);
+
+  let resolution: WorkspaceResolution = { session: own };
+  try {
+    const invite = await getDoc(doc(db, 'invites', inviteId(user.email)));
+    if (invite.exists()) {
+      const data = invite.data() as CollectorInvite;
+      const member = await getDoc(doc(db, `workspaces/${data.workspaceId}/members`, user.uid));
+      if (member.exists()) resolution = { session: { ...own, workspaceId: data.workspaceId, role: 'collector' } };
+      else if (!readDeclinedInvites().includes(`${user.uid}:${data.workspaceId}`)) resolution = { session: own, invite: data };
+    }
+  } catch (error) {
+    console.error("Workspace lookup error:", error);
+    resolution = { session: readCachedSession(user.uid) || own };
+  }
+
+  // A pending answer is not cached: offline, the account opens its own workspace
+  if (!resolution.invite) cacheSession(resolution.session);
+  return resolution;
+};
+
+// Joins the inviting workspace as a collector, registering the account as a member.
+// The rules only allow it for an account whose email is verified.
+export const acceptInvite = async (user: AuthUser, invite: CollectorInvite): Promise<WorkspaceSession> => {
+  const member: WorkspaceMember = { id: user.uid, email: user.email, name: invite.name, role: 'collector' };
+  await setDoc(doc(requireDb(), `workspaces/${invite.workspaceId}/members`, user.uid), member);
+  const session: WorkspaceSession = { ...ownSession(user), workspaceId: invite.workspaceId, role: 'collector' };
+  cacheSession(session);
+  return session;
+};
+
+// Keeps the account in its own workspace; once remembered, this device does not ask about the invitation again
+export const declineInvite = (user: AuthUser, invite: CollectorInvite, remember: boolean): WorkspaceSession => {
+  if (remember) {
+    const declined = readDeclinedInvites();
+    localStorage.setItem(DECLINED_INVITES_KEY, JSON.stringify([...declined, `${user.uid}:${invite.workspaceId}`]));
+  }
+  const session = ownSession(user);
+  cacheSession(session);
+  return session;
+};
+
+const requireDb = (): Firestore => {
+  if (!db) throw new Error('Workspace not resolved');
+  return db;
+};
+
+// Owner view of the team: collectors who already signed in, and invitations not yet accepted
+export const subscribeToTeam = (workspaceId: string, onUpdate: (members: WorkspaceMember[], invites: CollectorInvite[]) => void) => {
+  let members: WorkspaceMember[] = [];
+  let invites: CollectorInvite[] = [];
+  const firestore = requireDb();
+
+  const unsubscribeMembers = onSnapshot(collection(firestore, `workspaces/${workspaceId}/members`), (snapshot) => {
+    members = snapshot.docs.map(d => d.data() as WorkspaceMember);
+    onUpdate(members, invites);
+  }, (error) => console.error("Team sync error:", error));
+
+  const unsubscribeInvites = onSnapshot(query(collection(firestore, 'invites'), where('workspaceId', '==', workspaceId)), (snapshot) => {
+    invites = snapshot.docs.map(d => d.data() as CollectorInvite);
+    onUpdate(members, invites);
+  }, (error) => console.error("Invite sync error:", error));
+
+  return () => {
+    unsubscribeMembers();
+    unsubscribeInvites();
+  };
+};
+
+export const inviteCollector = async (workspaceId: string, invitedBy: string, email: string, name: string) => {
+  const id = inviteId(email);
+  const invite: CollectorInvite = { id, email: id, name: name.trim(), workspaceId, invitedBy };
+  await setDoc(doc(requireDb(), 'invites', id), invite);
+};
+
+// Revokes access right away; borrowers stay assigned until the owner reassigns them
+export const removeCollector = async (workspaceId: string, email: string, memberId?: string) => {
+  const firestore = requireDb();
+  await deleteDoc(doc(firestore, 'invites', inviteId(email)));
+  if (memberId) await deleteDoc(doc(firestore, `workspaces/${workspaceId}/members`, memberId));
+};
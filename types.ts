@@ -1,38 +1,261 @@
+export type PaymentMethod = 'Pix' | 'Dinheiro' | 'Transferência' | 'Outro';
+
+export interface PaymentEntry {
+  id: string;
+  amount: number; // Total received, including any late charges
+  date: string; // ISO Date string YYYY-MM-DD
+  method: PaymentMethod;
+  note?: string;
+  lateFee?: number; // Portion of amount that settled late charges (multa + mora), not the installment itself
+  bankRef?: string; // Bank statement transaction reconciled into this payment (see reconciliationService)
+}
+
+export type InstallmentPaymentStatus = 'Unpaid' | 'Partial' | 'Paid';
+
 export interface Installment {
   number: number;
   dueDate: string; // ISO Date string YYYY-MM-DD
   value: number;
-  isPaid: boolean;
+  isPaid: boolean; // Derived from payments: true once the remaining balance reaches zero
+  payments?: PaymentEntry[]; // Ledger of amounts received for this installment
+  isRenegotiated?: boolean; // Closed by a renegotiation, its balance was rolled into a new loan
+  principalPart?: number; // Amortization share of value (see AmortizationMethod)
+  interestPart?: number; // Contracted interest share of value
 }
 
-export interface Client {
+export interface Borrower {
   id: string;
   name: string;
-  phone: string;
+  phones: string[]; // First entry is the primary contact used for WhatsApp
+  document?: string; // CPF
+  address?: string;
+  notes?: string;
+  collectorId?: string; // Account uid of the collector assigned to this borrower
+
+  // Sync Fields
+  isDeleted?: boolean;
+  lastUpdated?: number;
+}
+
+// flat: fixed value, interest spread evenly | price: fixed payment, interest on the balance (Tabela Price)
+// sac: constant amortization | interestOnly: interest each period, principal in a balloon payment
+export type AmortizationMethod = 'flat' | 'price' | 'sac' | 'interestOnly';
+
+// installment: fixed schedule | revolving: "juros mensais", interest charged each period until the principal is repaid
+export type LoanType = 'installment' | 'revolving';
+
+export type PaymentFrequency = 'daily' | 'weekly' | 'biweekly' | 'monthly' | 'custom';
+
+// A single loan. Kept under the historical name "Client" to avoid breaking stored data.
+export interface Client {
+  id: string;
+  borrowerId?: string; // Owner of the loan (see Borrower); missing only on records not yet migrated
+  name: string; // Copy of Borrower.name, kept in sync when the borrower is edited
+  phone: string; // Copy of the borrower's primary phone
+  collectorId?: string; // Copy of Borrower.collectorId, lets collectors query only their loans
   principal: number; // The amount lent
-  installments: number; // Number of payments
-  interestRate: number; // Monthly percentage (e.g., 10, 20)
+  loanType?: LoanType; // Defaults to installment
+  principalPayments?: PaymentEntry[]; // Revolving loans: principal paydowns (amortizações)
+  installments: number; // Number of payments (revolving: interest charges generated so far)
+  frequency?: PaymentFrequency; // Spacing between installments, defaults to monthly
+  frequencyDays?: number; // Interval in days when frequency is 'custom'
+  interestRate: number; // Total percentage over the loan term (see getEquivalentMonthlyRate)
+  amortization?: AmortizationMethod; // Defaults to flat
+  periodRate?: number; // Rate per installment period (%), used by price, sac, interestOnly and revolving loans
   startDate: string;
-  status: 'Active' | 'Completed' | 'Late'; // Status field
+  status: 'Active' | 'Completed' | 'Late' | 'Renegotiated'; // Status field
   installmentsList: Installment[]; // Detailed breakdown
   annotation?: string; // Notes about the client/loan
+
+  // Renegotiation Chain
+  renegotiatedFrom?: string; // Id of the loan this one replaced
+  renegotiatedTo?: string; // Id of the loan that replaced this one
+  rolledOverAmount?: number; // Part of principal carried over from the previous loan (not new money)
   
   // Sync Fields
-  isDeleted?: boolean; // If true, client is hidden (soft deleted)
+  isDeleted?: boolean; // If true, client is hidden (soft deleted) and listed in the recycle bin
+  deletedAt?: number; // When it was deleted, counts towards the recycle bin auto-purge
+  deletedBy?: string; // Actor name of who deleted it
+  purged?: boolean; // Permanently removed: a blank record kept so devices holding an older copy drop it
   lastUpdated?: number; // Timestamp for sync conflict resolution
 }
 
+export interface LateFeeSettings {
+  enabled: boolean;
+  fineType: 'percent' | 'fixed'; // Multa: percentage of the open balance or a fixed amount
+  fineValue: number;
+  interestRate: number; // Mora percentage per interestPeriod
+  interestPeriod: 'daily' | 'monthly'; // Monthly rates accrue pro rata per day (30-day month)
+  graceDays: number; // No charges while days late <= graceDays
+  capPercent: number; // Max charges as a percentage of the open balance (0 = no cap)
+}
+
+// Local notification with the day's collections, shown by the service worker
+export interface DailyReminderSettings {
+  enabled: boolean;
+  hour: number; // 0-23, local time
+}
+
+// What the daily notification says on a given day, computed by the app ahead of time
+export interface DailySummary {
+  date: string; // YYYY-MM-DD
+  title: string;
+  body: string;
+  borrowerKey?: string; // Most urgent borrower, opened when the notification is clicked
+}
+
+// WhatsApp reminder wording by how far the installment is from its due date
+export type ReminderStage = 'upcoming' | 'dueToday' | 'late' | 'overdue' | 'veryLate' | 'promise';
+
+// Workspace-wide reminder wording, kept in the synced settings collection so the whole team sends the
+// same messages. Templates use {placeholders} (see TEMPLATE_PLACEHOLDERS).
+export interface MessageSettings {
+  id: string; // Always 'messages', a single record
+  senderName: string; // Lender's name used in the messages ({remetente})
+  pixKey: string;
+  pixName: string; // Recipient name in the PIX code, defaults to senderName
+  pixCity: string; // Recipient city in the PIX code
+  templates: Record<ReminderStage, string>;
+  lastUpdated?: number;
+}
+
+// Result of contacting a borrower from the daily collection queue
+export type CollectionOutcome = 'paid' | 'promised' | 'noAnswer' | 'wrongNumber';
+
+export type ContactChannel = 'WhatsApp' | 'Ligação' | 'Visita' | 'Outro';
+
+// One attempt to reach a borrower ("ligou terça, prometeu pagar sexta"). The log is append-only and
+// synced like the change history; a promise is kept, pending or broken depending on later payments.
+export interface ContactAttempt {
+  id: string;
+  borrowerKey: string; // See getBorrowerKey
+  name: string; // Borrower name at the time of the contact
+  loanId?: string; // Set when the contact was about one loan or installment
+  installmentNumber?: number;
+  channel: ContactChannel;
+  date: string; // YYYY-MM-DD
+  outcome: CollectionOutcome;
+  promisedDate?: string; // YYYY-MM-DD, outcome 'promised'
+  promisedAmount?: number;
+  note?: string;
+  collectorId?: string; // Collector assigned to the borrower, who can read the contact
+  actor: string;
+  timestamp: number;
+}
+
+export type PromiseStatus = 'pending' | 'kept' | 'broken';
+
+export interface CollectionContact {
+  outcome: CollectionOutcome;
+  at: number;
+  name: string; // Kept so paid borrowers, gone from the queue, still show in the day's list
+}
+
+// The day's work through the collection queue, kept on the device so it can be resumed
+export interface CollectionProgress {
+  date: string; // YYYY-MM-DD, progress from another day is discarded
+  outcomes: Record<string, CollectionContact>; // By borrower key
+}
+
+export interface LateFeeBreakdown {
+  daysLate: number;
+  fine: number;
+  interest: number;
+  total: number; // Outstanding charges (already paid late fees are deducted)
+}
+
 export interface FinancialSummary {
   totalInvested: number;
   totalRevenueExpected: number;
   totalProfit: number;
+  realizedProfit: number; // Contracted interest already received (see getLoanRealizedInterest)
+  totalReceived: number; // Sum of all payment entries
+  totalOutstanding: number; // Remaining balance of open installments
+  totalLateFeesReceived: number; // Late charges collected, kept apart from contracted interest
+  totalLateFeesAccrued: number; // Late charges currently owed on overdue installments
   activeClients: number;
   averageRoi: number;
 }
 
-export interface ProgressionPoint {
-  name: string; // e.g., "Month 1"
-  principal: number;
-  interest: number;
-  total: number;
-}
\ No newline at end of file
+export interface CashFlowPoint {
+  month: string; // YYYY-MM
+  name: string; // e.g., "out/26"
+  received: number; // Payments actually received in the month (late charges and principal paydowns included)
+  receivedPrincipal: number; // Part of received that returned principal
+  receivedInterest: number; // Part of received that was interest or late charges
+  expected: number; // Open balance of installments due in the month, not yet overdue
+  overdue: number; // Open balance of installments due in the month that are past due
+}
+// A field edited differently on this device and in the cloud since the last sync
+export interface SyncConflict {
+  id: string; // collection:recordId:path, a newer conflict on the same field replaces the old one
+  collection: 'clients' | 'borrowers';
+  recordId: string;
+  recordName: string;
+  path: string; // Field name, or installmentsList.<number>.<field> for installment fields
+  label: string;
+  localValue: unknown;
+  remoteValue: unknown;
+}
+
+// A cloud write waiting in the offline outbox
+export interface OutboxEntry {
+  id: string; // collection:recordId, a newer write to the same record replaces the queued one
+  collection: 'clients' | 'borrowers' | 'auditLog' | 'settings' | 'contacts';
+  recordId: string;
+  label: string; // Client / borrower name, for the failed writes screen
+  operation: 'save' | 'delete';
+  record?: { id: string }; // Payload of a save
+  status: 'pending' | 'failed'; // failed = gave up retrying, waits for the user
+  attempts: number;
+  nextAttemptAt: number;
+  lastError?: string;
+  createdAt: number;
+}
+
+export type AuditAction = 'create' | 'update' | 'payment' | 'delete' | 'restore' | 'renegotiate' | 'merge' | 'move' | 'import' | 'undo';
+
+// One field that changed, values are null when absent (Firestore rejects undefined)
+export interface AuditChange {
+  path: string;
+  label: string;
+  before: unknown;
+  after: unknown;
+}
+
+// Append-only change history entry for one record. A user action touching several records
+// (e.g. a renegotiation) produces one event per record sharing the same groupId.
+export interface AuditEvent {
+  id: string;
+  groupId: string;
+  entityType: 'client' | 'borrower';
+  entityId: string;
+  borrowerId?: string; // Owner of the loan, so a borrower's history includes their loans
+  action: AuditAction;
+  summary: string;
+  changes: AuditChange[];
+  before?: Partial<Client> | Partial<Borrower>; // Fields the change touched, as they were (null = absent), restored by undo; absent on create. Older events hold the whole record.
+  afterHash: string; // Hash of the record right after the change; undo is only allowed while it still matches
+  actor: string;
+  timestamp: number;
+  undoOf?: string; // groupId of the action this event undid
+}
+
+// Access inside a workspace: the owner lends, collectors collect from the borrowers assigned to them
+export type UserRole = 'owner' | 'collector';
+
+export interface WorkspaceMember {
+  id: string; // Account uid
+  email: string;
+  name: string;
+  role: UserRole;
+}
+
+// Pending invitation, keyed by the invitee's lowercased email; the invitee accepts it after signing in
+export interface CollectorInvite {
+  id: string;
+  email: string;
+  name: string;
+  workspaceId: string;
+  invitedBy?: string; // Owner's email, shown to the invited account before it accepts (absent on older invites)
+}